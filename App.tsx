@@ -1,27 +1,66 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import WebGPURenderer, { WebGPURendererRef } from './components/FireRenderer';
-import { ErrorDisplay, DocumentationOverlay, MenuBar, MenuGroup, VideoExportOverlay, RecordingIndicator, ShaderEditor, GallerySidebar, TextureGizmo } from './components/UIComponents';
-import { ShaderError, Preset, ShaderParam, LayoutMode, ScrollEffectType, ScrollParams } from './types';
-import { PRESETS } from './presets';
+import { ErrorDisplay, DocumentationOverlay, MenuBar, MenuGroup, VideoExportOverlay, StillCaptureOverlay, RecordingIndicator, ShaderEditor, GallerySidebar, TextureGizmo, TransportBar, TimelinePanel, PresetDialog, PresetDetails, TextureImportDialog, ResolutionControls, PerformanceOverlay } from './components/UIComponents';
+import { ShaderError, Preset, ShaderParam, LayoutMode, ScrollEffectType, ScrollParams, BufferPass, ComputeSetup, PassId, Timeline, TimelinePlayback, CameraPose, ResolutionSettings, PostSettings, ColorGrade, TextureChannel, AudioSettings, Modulation, TransportSettings } from './types';
+import { createTimeline, hasKeyframes, readTargetValue } from './components/Timeline';
+import { ProjectFileError, ProjectHandle, ProjectState, PROJECT_EXTENSION, getProjectName, openProjectFile, parseProject, saveProjectFile, serializeProject } from './components/ProjectFile';
+import { UserPreset, UserLut, createUserPreset, deleteUserPreset, loadThumbnails, loadUserPresets, saveThumbnail, saveUserPreset, createUserLut, deleteUserLut, loadUserLuts, saveUserLut } from './components/PresetLibrary';
+import { LutParseError, parseCubeLut } from './components/ColorLut';
+import { MAX_CHANNELS } from './components/TextureChannels';
+import { ImportedTexture, DEFAULT_TEXTURE_IMPORT } from './components/TextureImport';
+import { ChannelVideo, VIDEO_ACCEPT, isVideoFile } from './components/VideoSources';
+import { AudioSource, AUDIO_ACCEPT, DEFAULT_AUDIO_SETTINGS } from './components/AudioSources';
+import { DEFAULT_TRANSPORT } from './components/Transport';
+import { createHeroBundle, getHeroFileName } from './components/HeroExport';
+import { DEFAULT_RESOLUTION } from './components/AdaptiveResolution';
+import { PRESETS, createBufferPassTemplate } from './presets';
+import { BUFFER_SLOTS } from './components/RenderGraph';
 import { LayoutOverlay } from './layouts';
 
 const App: React.FC = () => {
-  const [error, setError] = useState<ShaderError | null>(null);
+  const [errors, setErrors] = useState<Partial<Record<PassId, ShaderError>>>({}); // Latest error of each pass
   const [showDocs, setShowDocs] = useState(false);
   const [showVideoModal, setShowVideoModal] = useState(false);
+  const [showStillModal, setShowStillModal] = useState(false);
   const [showEditor, setShowEditor] = useState(false);
   const [showAssetsTab, setShowAssetsTab] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [showTransport, setShowTransport] = useState(false);
+  const [showPerformance, setShowPerformance] = useState(false);
   
   // Gallery & Layout State
   const [activePreset, setActivePreset] = useState<Preset>(PRESETS[0]);
   const [shaderCode, setShaderCode] = useState(PRESETS[0].shaderCode);
+  const [passes, setPasses] = useState<BufferPass[]>(PRESETS[0].passes || []);
+  const [compute, setCompute] = useState<ComputeSetup | undefined>(PRESETS[0].compute);
+  const [editorTab, setEditorTab] = useState<PassId>('image');
   const [params, setParams] = useState<ShaderParam[]>(PRESETS[0].params);
   const [activeLayout, setActiveLayout] = useState<LayoutMode>('clean');
+  const [camera, setCamera] = useState<CameraPose | undefined>(PRESETS[0].camera);
+  const [timeline, setTimeline] = useState<Timeline>(PRESETS[0].timeline || createTimeline());
+  const [timelinePlayback, setTimelinePlayback] = useState<TimelinePlayback>({ enabled: hasKeyframes(PRESETS[0].timeline), playing: true, time: 0 });
+  const [post, setPost] = useState<PostSettings | undefined>(PRESETS[0].post);
+  const [grade, setGrade] = useState<ColorGrade | undefined>(PRESETS[0].grade);
+  const [channels, setChannels] = useState<TextureChannel[] | undefined>(PRESETS[0].channels);
+  const [modulations, setModulations] = useState<Modulation[]>(PRESETS[0].modulations || []);
+  const [transport, setTransport] = useState<TransportSettings>(DEFAULT_TRANSPORT);
   
-  const [recordingStatus, setRecordingStatus] = useState({ isRecording: false, timeLeft: 0 });
+  // Preset Library State (IndexedDB)
+  const [userPresets, setUserPresets] = useState<UserPreset[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [libraryReady, setLibraryReady] = useState(false);
+  const [presetDialog, setPresetDialog] = useState<{ editing: UserPreset | null } | null>(null);
+  const [userLuts, setUserLuts] = useState<UserLut[]>([]);
+  
+  const [recordingStatus, setRecordingStatus] = useState({ isRecording: false, timeLeft: 0, progress: 0 });
+  const [captureStatus, setCaptureStatus] = useState({ isCapturing: false, progress: 0 });
   const [fps, setFps] = useState(0);
+  const [resolution, setResolution] = useState<ResolutionSettings>(DEFAULT_RESOLUTION);
+  const [renderScale, setRenderScale] = useState(1);
+  const [benchmarkStatus, setBenchmarkStatus] = useState<{ progress: number, scene: string } | null>(null);
   const rendererRef = useRef<WebGPURendererRef>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const audioInputRef = useRef<HTMLInputElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
   // New Scroll Effect State
@@ -30,38 +69,196 @@ const App: React.FC = () => {
   // Texture Scale Default: 0.7 (~45% bigger / zoomed in relative to 1.0)
   const [textureScale, setTextureScale] = useState({ x: 0.7, y: 0.7 });
   const [textureOffset, setTextureOffset] = useState({ x: 0.0, y: 0.0 });
+  const [textures, setTextures] = useState<(ImportedTexture | null)[]>(new Array(MAX_CHANNELS).fill(null)); // By channel, bundled into saved projects
+  const [videos, setVideos] = useState<(ChannelVideo | null)[]>(new Array(MAX_CHANNELS).fill(null)); // By channel; not saved in projects
+  const [audio, setAudio] = useState<AudioSource | null>(null); // Owned by the renderer; kept here for the Tuning tab
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(DEFAULT_AUDIO_SETTINGS);
+  const [pendingImport, setPendingImport] = useState<{ channel: number, file: File } | null>(null); // Open import dialog
+
+  // Project File State
+  const projectHandleRef = useRef<ProjectHandle | null>(null); // Target of Save after the first Save As / Open
+  const [projectName, setProjectName] = useState<string | null>(null);
 
-  // Debounce Shader Updates
-  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const handleCodeChange = (newCode: string) => {
-      if (timeoutRef.current) clearTimeout(timeoutRef.current);
-      timeoutRef.current = setTimeout(() => {
-          setShaderCode(newCode);
+  // Debounce Shader Updates (per pass, so switching tabs never drops an edit)
+  const timeoutRef = useRef<Partial<Record<PassId, ReturnType<typeof setTimeout>>>>({});
+  const handleCodeChange = (newCode: string, tab: PassId) => {
+      clearTimeout(timeoutRef.current[tab]);
+      timeoutRef.current[tab] = setTimeout(() => {
+          if (tab === 'image') setShaderCode(newCode);
+          else if (tab === 'compute') setCompute(prev => prev && { ...prev, code: newCode });
+          else setPasses(prev => prev.map(p => p.id === tab ? { ...p, code: newCode } : p));
       }, 500); 
   };
   
   const handlePresetSelect = (preset: Preset) => {
       setActivePreset(preset);
       setShaderCode(preset.shaderCode);
+      setPasses(preset.passes || []);
+      setCompute(preset.compute);
+      setEditorTab('image');
       setParams(preset.params); // This updates the UI sliders and sends new values to Renderer
+      setCamera(preset.camera);
+      setTimeline(preset.timeline || createTimeline());
+      setTimelinePlayback({ enabled: hasKeyframes(preset.timeline), playing: true, time: 0 });
+      setPost(preset.post);
+      setGrade(preset.grade);
+      setChannels(preset.channels);
+      setModulations(preset.modulations || []);
   };
 
+  // --- Preset Library ---
   useEffect(() => {
-    let lastTime = performance.now();
-    let frame = 0;
-    const loop = () => {
-      const now = performance.now();
-      frame++;
-      if (now - lastTime >= 1000) {
-        setFps(frame);
-        frame = 0;
-        lastTime = now;
-      }
-      requestAnimationFrame(loop);
-    };
-    loop();
+      Promise.all([loadUserPresets(), loadThumbnails(), loadUserLuts()])
+          .then(([presets, thumbs, luts]) => { setUserPresets(presets); setThumbnails(thumbs); setUserLuts(luts); })
+          .catch(e => console.error('Failed to load preset library', e))
+          .finally(() => setLibraryReady(true));
   }, []);
 
+  const storeThumbnail = (id: string, url: string) => {
+      setThumbnails(prev => ({ ...prev, [id]: url }));
+      saveThumbnail(id, url).catch(e => console.error('Failed to save thumbnail', e));
+  };
+
+  // Presets without a thumbnail get one rendered offscreen once the library has loaded
+  useEffect(() => {
+      if (!libraryReady) return;
+      const missing = [...userPresets, ...PRESETS].filter(p => !thumbnails[p.id]);
+      if (missing.length > 0) rendererRef.current?.renderThumbnails(missing, storeThumbnail);
+  }, [libraryReady]);
+
+  const storeUserPreset = async (preset: UserPreset, thumbnail?: string | null) => {
+      setUserPresets(prev => [preset, ...prev.filter(p => p.id !== preset.id)]);
+      if (thumbnail) setThumbnails(prev => ({ ...prev, [preset.id]: thumbnail }));
+      try {
+          await saveUserPreset(preset);
+          if (thumbnail) await saveThumbnail(preset.id, thumbnail);
+      } catch (e) {
+          console.error('Failed to save preset', e);
+          alert(`Could not save preset: ${e instanceof Error ? e.message : String(e)}`);
+      }
+  };
+
+  const handleSavePreset = async (details: PresetDetails) => {
+      const preset = createUserPreset({ ...details, shaderCode, passes, compute, params, timeline, camera, post, grade, channels, modulations });
+      setActivePreset(preset);
+      await storeUserPreset(preset);
+      await rendererRef.current?.renderThumbnails([preset], storeThumbnail);
+  };
+
+  // Editing the open preset saves its current state again, with a new thumbnail
+  const handleEditPreset = async (preset: UserPreset, details: PresetDetails) => {
+      const isOpen = activePreset.id === preset.id;
+      const state = isOpen ? { shaderCode, passes, compute, params, timeline, camera, post, grade, channels, modulations } : {};
+      const updated = { ...preset, ...state, ...details, updatedAt: Date.now() };
+      if (isOpen) setActivePreset(updated);
+      await storeUserPreset(updated);
+      if (isOpen) await rendererRef.current?.renderThumbnails([updated], storeThumbnail);
+  };
+
+  const handleDuplicatePreset = async (preset: Preset) => {
+      const { id, ...source } = preset;
+      const copy = createUserPreset({ ...source, name: `${preset.name} Copy` });
+      await storeUserPreset(copy, thumbnails[id]);
+  };
+
+  const handleDeletePreset = async (preset: UserPreset) => {
+      if (!confirm(`Delete preset "${preset.name}"?`)) return;
+      setUserPresets(prev => prev.filter(p => p.id !== preset.id));
+      try {
+          await deleteUserPreset(preset.id);
+      } catch (e) {
+          console.error('Failed to delete preset', e);
+      }
+  };
+
+  // --- LUTs ---
+  // Parsed once per selected LUT, so intensity edits never re-upload the texture
+  const gradeLut = userLuts.find(l => l.id === grade?.lut) || null;
+  const parsedLut = useMemo(() => {
+      if (!gradeLut) return null;
+      try {
+          return parseCubeLut(gradeLut.source, gradeLut.name);
+      } catch (e) {
+          console.error('Failed to parse LUT', e);
+          return null;
+      }
+  }, [gradeLut]);
+  const lutGrade = useMemo(() => parsedLut && grade ? { lut: parsedLut, intensity: grade.intensity } : null, [parsedLut, grade?.intensity]);
+
+  const storeUserLut = async (lut: UserLut) => {
+      setUserLuts(prev => [...prev.filter(l => l.id !== lut.id), lut].sort((a, b) => a.name.localeCompare(b.name)));
+      try {
+          await saveUserLut(lut);
+      } catch (e) {
+          console.error('Failed to save LUT', e);
+          alert(`Could not save LUT: ${e instanceof Error ? e.message : String(e)}`);
+      }
+  };
+
+  // Rejects files that do not parse before they reach the library
+  const handleImportLut = async (file: File) => {
+      try {
+          const source = await file.text();
+          const name = file.name.replace(/\.cube$/i, '');
+          parseCubeLut(source, name);
+          const lut = createUserLut(name, source);
+          await storeUserLut(lut);
+          setGrade({ lut: lut.id, intensity: grade?.intensity ?? 1 });
+      } catch (e) {
+          console.error('Failed to import LUT', e);
+          alert(e instanceof LutParseError ? `Could not import ${file.name}:\n${e.message}` : `Could not import LUT: ${e instanceof Error ? e.message : String(e)}`);
+      }
+  };
+
+  const handleDeleteLut = async (lut: UserLut) => {
+      if (!confirm(`Delete LUT "${lut.name}"? Presets graded with it will render ungraded.`)) return;
+      setUserLuts(prev => prev.filter(l => l.id !== lut.id));
+      if (grade?.lut === lut.id) setGrade(undefined);
+      try {
+          await deleteUserLut(lut.id);
+      } catch (e) {
+          console.error('Failed to delete LUT', e);
+      }
+  };
+
+  const readTimelineValue = (target: string) => readTargetValue(target, {
+      camera: rendererRef.current?.getCamera() || { theta: 0, phi: 0, radius: 4.5, fov: 60, roll: 0 },
+      params,
+      scrollParams,
+      textureScale,
+      textureOffset,
+  });
+
+  const handleAddPass = () => {
+      const slot = BUFFER_SLOTS.find(id => !passes.some(p => p.id === id));
+      if (!slot) return;
+      const next = [...passes, createBufferPassTemplate(slot, shaderCode)];
+      setPasses(next.sort((a, b) => BUFFER_SLOTS.indexOf(a.id) - BUFFER_SLOTS.indexOf(b.id)));
+      setEditorTab(slot);
+  };
+
+  const handleRemovePass = (id: PassId) => {
+      setPasses(passes.filter(p => p.id !== id));
+      if (editorTab === id) setEditorTab('image');
+  };
+
+  // The open tab's error comes first; an error in another pass still shows
+  const error = errors[editorTab] || Object.values(errors)[0] || null;
+
+  const clearPassError = (passId: PassId) => {
+      setErrors(prev => {
+          if (!prev[passId]) return prev;
+          const next = { ...prev };
+          delete next[passId];
+          return next;
+      });
+  };
+
+  const handleEditPass = (tab: PassId) => {
+      setEditorTab(tab);
+      setShowEditor(true);
+  };
+
   // SCROLL LISTENER
   useEffect(() => {
       const container = scrollContainerRef.current;
@@ -77,10 +274,204 @@ const App: React.FC = () => {
       return () => container.removeEventListener('scroll', handleScroll);
   }, [activeLayout]); // Re-bind if layout changes DOM structure
 
+  // Null puts the channel back on the placeholder
+  const applyChannel = (channel: number, texture: ImportedTexture | null) => {
+      if (texture) rendererRef.current?.loadTexture(texture.file, channel, texture.options);
+      else rendererRef.current?.resetTexture(channel);
+      setTextures(prev => prev.map((t, i) => i === channel ? texture : t));
+      setVideos(prev => prev.map((v, i) => i === channel ? null : v));
+  };
+
+  // Videos and the camera replace the channel's image once they play
+  const applyChannelVideo = (channel: number, video: ChannelVideo) => {
+      setTextures(prev => prev.map((t, i) => i === channel ? null : t));
+      setVideos(prev => prev.map((v, i) => i === channel ? video : v));
+  };
+
+  // Picked images go through the import dialog first; videos start playing right away
+  const handleLoadChannel = async (channel: number, file: File | null) => {
+      if (!file) applyChannel(channel, null);
+      else if (!isVideoFile(file)) setPendingImport({ channel, file });
+      else if (await rendererRef.current?.loadVideo(file, channel)) applyChannelVideo(channel, { kind: 'file', file });
+  };
+
+  const handleStartCamera = async (channel: number) => {
+      if (await rendererRef.current?.startCamera(channel)) applyChannelVideo(channel, { kind: 'camera' });
+  };
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
-      if (file) {
-          rendererRef.current?.loadTexture(file);
+      if (file) handleLoadChannel(0, file);
+      e.target.value = '';
+  };
+
+  // --- Audio ---
+  // A failed start keeps the previous source
+  const handleStartMicrophone = async () => {
+      const source = await rendererRef.current?.startMicrophone();
+      if (source) setAudio(source);
+  };
+
+  const handleLoadAudio = async (file: File) => {
+      const source = await rendererRef.current?.loadAudio(file);
+      if (source) setAudio(source);
+  };
+
+  const handleStopAudio = () => {
+      rendererRef.current?.stopAudio();
+      setAudio(null);
+  };
+
+  // --- Project Files ---
+  const getProjectState = (): ProjectState => ({
+      presetId: activePreset.id,
+      name: activePreset.name,
+      shaderCode,
+      passes,
+      compute,
+      params,
+      layout: activeLayout,
+      scrollEffect: activeScrollEffect,
+      scrollParams,
+      textureScale,
+      textureOffset,
+      camera,
+      timeline,
+      post,
+      grade,
+      channels,
+      modulations,
+      seed: transport.seed,
+  });
+
+  const applyProjectState = (state: ProjectState, projectTextures: (ImportedTexture | null)[], lut: UserLut | null) => {
+      // Keep the built-in description when the project started from a preset
+      const base = [...userPresets, ...PRESETS].find(p => p.id === state.presetId);
+      setActivePreset({
+          id: state.presetId,
+          name: state.name,
+          description: base?.description || '',
+          tags: base?.tags || [],
+          shaderCode: state.shaderCode,
+          params: state.params,
+          passes: state.passes,
+          compute: state.compute,
+          timeline: state.timeline,
+          camera: state.camera,
+          post: state.post,
+          grade: state.grade,
+          channels: state.channels,
+          modulations: state.modulations,
+      });
+      setShaderCode(state.shaderCode);
+      setPasses(state.passes);
+      setCompute(state.compute);
+      setEditorTab('image');
+      setParams(state.params);
+      setActiveLayout(state.layout);
+      setActiveScrollEffect(state.scrollEffect);
+      setScrollParams(state.scrollParams);
+      setTextureScale(state.textureScale);
+      setTextureOffset(state.textureOffset);
+      setCamera(state.camera);
+      setTimeline(state.timeline);
+      setTimelinePlayback({ enabled: hasKeyframes(state.timeline), playing: true, time: 0 });
+      setPost(state.post);
+      setGrade(state.grade);
+      if (lut && !userLuts.some(l => l.id === lut.id)) storeUserLut(lut);
+      setChannels(state.channels);
+      setModulations(state.modulations || []);
+      if (state.seed !== undefined) setTransport(current => ({ ...current, seed: state.seed! }));
+      for (let i = 0; i < MAX_CHANNELS; i++) applyChannel(i, projectTextures[i] || null);
+  };
+
+  const handleOpenProject = async () => {
+      try {
+          const opened = await openProjectFile();
+          if (!opened) return;
+          const { state, textures, lut } = parseProject(opened.text);
+          applyProjectState(state, textures, lut);
+          projectHandleRef.current = opened.handle;
+          setProjectName(getProjectName(opened.name));
+      } catch (e) {
+          console.error('Failed to open project', e);
+          alert(e instanceof ProjectFileError ? e.message : `Could not open project: ${e instanceof Error ? e.message : String(e)}`);
+      }
+  };
+
+  const handleSaveProject = async (saveAs: boolean) => {
+      try {
+          const text = await serializeProject(getProjectState(), textures, gradeLut);
+          const name = projectName || activePreset.id;
+          const handle = await saveProjectFile(text, `${name}${PROJECT_EXTENSION}`, saveAs ? null : projectHandleRef.current);
+          if (!handle) return;
+          if (handle !== 'downloaded') {
+              projectHandleRef.current = handle;
+              setProjectName(getProjectName(handle.name));
+          } else {
+              setProjectName(name);
+          }
+      } catch (e) {
+          console.error('Failed to save project', e);
+          alert(`Could not save project: ${e instanceof Error ? e.message : String(e)}`);
+      }
+  };
+
+  // --- Hero Export ---
+  const handleExportHero = async () => {
+      const renderer = rendererRef.current;
+      if (!renderer) return;
+      try {
+          const [poster, ...textureImages] = await Promise.all([renderer.capturePoster(), ...Array.from({ length: MAX_CHANNELS }, (_, i) => renderer.getTextureImage(i))]);
+          const blob = await createHeroBundle({
+              name: projectName || activePreset.name,
+              shaderCode, passes, compute, params, modulations,
+              seed: transport.seed,
+              layout: activeLayout,
+              scrollEffect: activeScrollEffect,
+              scrollParams, textureScale, textureOffset, camera,
+              timeline: timelinePlayback.enabled ? timeline : undefined,
+              resolution, post,
+              grade: lutGrade,
+              textures: textureImages, poster,
+              videos: videos.map(v => v?.kind === 'file' ? v.file : null),
+          });
+          const url = URL.createObjectURL(blob);
+          const a = document.createElement('a');
+          a.href = url;
+          a.download = getHeroFileName(projectName || activePreset.name);
+          a.click();
+          URL.revokeObjectURL(url);
+      } catch (e) {
+          console.error('Hero export failed', e);
+          alert(`Could not export hero: ${e instanceof Error ? e.message : String(e)}`);
+      }
+  };
+
+  // Renders every built-in preset at 1080p and downloads the timings as JSON
+  const handleBenchmark = async () => {
+      const renderer = rendererRef.current;
+      if (!renderer || benchmarkStatus || recordingStatus.isRecording) return;
+      const input = prompt('Frames per preset:', '120');
+      if (input === null) return;
+      const frames = Math.round(Number(input));
+      if (!Number.isFinite(frames) || frames < 1) { alert('Enter a whole number of frames.'); return; }
+
+      setBenchmarkStatus({ progress: 0, scene: PRESETS[0].name });
+      try {
+          const report = await renderer.runBenchmark(PRESETS, { frames, width: 1920, height: 1080 }, (progress, scene) => setBenchmarkStatus({ progress, scene: scene.name }));
+          if (!report) return;
+          const url = URL.createObjectURL(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }));
+          const a = document.createElement('a');
+          a.href = url;
+          a.download = `benchmark_${Date.now()}.json`;
+          a.click();
+          URL.revokeObjectURL(url);
+      } catch (e) {
+          console.error("Benchmark failed", e);
+          alert(`Benchmark failed: ${e instanceof Error ? e.message : String(e)}`);
+      } finally {
+          setBenchmarkStatus(null);
       }
   };
 
@@ -89,8 +480,13 @@ const App: React.FC = () => {
     {
         label: 'File',
         items: [
+            { label: 'Open Project...', action: handleOpenProject, shortcut: 'CMD+O' },
+            { label: 'Save Project', action: () => handleSaveProject(false), shortcut: 'CMD+S' },
+            { label: 'Save Project As...', action: () => handleSaveProject(true), shortcut: 'SHIFT+CMD+S' },
+            { label: 'Save as Preset...', action: () => setPresetDialog({ editing: null }) },
             { label: 'Reset Preset', action: () => handlePresetSelect(activePreset), shortcut: 'CMD+R' },
-            { label: 'Load Texture...', action: () => fileInputRef.current?.click(), shortcut: 'CMD+O' },
+            { label: 'Load Texture or Video...', action: () => fileInputRef.current?.click(), shortcut: 'CMD+I' },
+            { label: 'Export Hero...', action: handleExportHero, shortcut: 'CMD+E' },
             { label: 'Export Code', action: () => navigator.clipboard.writeText(shaderCode) },
         ]
     },
@@ -98,6 +494,10 @@ const App: React.FC = () => {
         label: 'View',
         items: [
             { label: 'Toggle Code Editor', action: () => setShowEditor(!showEditor), shortcut: 'E' },
+            { label: 'Toggle Timeline', action: () => setShowTimeline(!showTimeline), shortcut: 'T' },
+            { label: 'Toggle Transport', action: () => setShowTransport(!showTransport), shortcut: 'SPACE' },
+            { label: 'Toggle Performance HUD', action: () => setShowPerformance(!showPerformance), shortcut: 'F3' },
+            { label: 'Reset Camera', action: () => rendererRef.current?.resetCamera(), shortcut: 'CTRL+R' },
             { label: 'Documentation', action: () => setShowDocs(true), shortcut: 'F1' },
             { label: 'Toggle Fullscreen', action: () => {
                 if (!document.fullscreenElement) document.documentElement.requestFullscreen();
@@ -108,15 +508,19 @@ const App: React.FC = () => {
     {
         label: 'Render',
         items: [
-            { label: 'Capture 4K (Standard)', action: () => rendererRef.current?.capture(1), shortcut: 'P' },
-            { label: 'Capture 4K (Ultra + RT)', action: () => rendererRef.current?.capture(2), shortcut: 'SHIFT+P' },
-            { label: 'Record Video...', action: () => setShowVideoModal(true), shortcut: 'V' }
+            { label: 'Capture 4K (Standard)', action: () => rendererRef.current?.capture({ width: 3840, height: 2160, quality: 1, samples: 1, shutter: 0 }), shortcut: 'P' },
+            { label: 'Capture 4K (Ultra, 64 samples)', action: () => rendererRef.current?.capture({ width: 3840, height: 2160, quality: 2, samples: 64, shutter: 0 }), shortcut: 'SHIFT+P' },
+            { label: 'Capture Still...', action: () => setShowStillModal(true), shortcut: 'ALT+P' },
+            { label: 'Record Video...', action: () => setShowVideoModal(true), shortcut: 'V' },
+            { label: 'Run Benchmark...', action: handleBenchmark }
         ]
     },
     {
         label: 'Audio',
         items: [
-            { label: 'Start Microphone', action: () => rendererRef.current?.toggleAudio() },
+            { label: 'Start Microphone', action: handleStartMicrophone },
+            { label: 'Load Audio File...', action: () => audioInputRef.current?.click() },
+            { label: 'Stop Audio', action: handleStopAudio },
         ]
     },
     {
@@ -129,7 +533,8 @@ const App: React.FC = () => {
 
   return (
     <div className="w-screen h-screen relative bg-void overflow-hidden font-sans text-white select-none pt-10 antialiased">
-      <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handleFileSelect} />
+      <input type="file" ref={fileInputRef} className="hidden" accept={`image/*,${VIDEO_ACCEPT}`} onChange={handleFileSelect} />
+      <input type="file" ref={audioInputRef} className="hidden" accept={AUDIO_ACCEPT} onChange={e => { const file = e.target.files?.[0]; if (file) handleLoadAudio(file); e.target.value = ''; }} />
       
       {/* Top Menu Bar */}
       <MenuBar menus={menus} />
@@ -137,12 +542,23 @@ const App: React.FC = () => {
       {/* Gallery Sidebar */}
       <GallerySidebar 
         presets={PRESETS} 
+        userPresets={userPresets}
+        thumbnails={thumbnails}
+        onSavePreset={() => setPresetDialog({ editing: null })}
+        onEditPreset={(preset) => setPresetDialog({ editing: preset })}
+        onDuplicatePreset={handleDuplicatePreset}
+        onDeletePreset={handleDeletePreset}
         activePresetId={activePreset.id} 
         onSelect={handlePresetSelect} 
+        activePasses={passes}
+        activeCompute={compute}
+        onEditPass={handleEditPass}
         activeLayout={activeLayout}
         onSelectLayout={setActiveLayout}
         params={params}
         setParams={setParams}
+        modulations={modulations}
+        setModulations={setModulations}
         activeScrollEffect={activeScrollEffect}
         onSelectScrollEffect={setActiveScrollEffect}
         scrollParams={scrollParams}
@@ -151,6 +567,29 @@ const App: React.FC = () => {
         setTextureScale={setTextureScale}
         textureOffset={textureOffset}
         setTextureOffset={setTextureOffset}
+        camera={camera}
+        setCamera={setCamera}
+        post={post}
+        setPost={setPost}
+        luts={userLuts}
+        grade={grade}
+        setGrade={setGrade}
+        onImportLut={handleImportLut}
+        onDeleteLut={handleDeleteLut}
+        channels={channels}
+        setChannels={setChannels}
+        textures={textures}
+        videos={videos}
+        onLoadChannel={handleLoadChannel}
+        onStartCamera={handleStartCamera}
+        getVideo={(channel) => rendererRef.current?.getVideo(channel) ?? null}
+        audio={audio}
+        onStartMicrophone={handleStartMicrophone}
+        onLoadAudio={handleLoadAudio}
+        onStopAudio={handleStopAudio}
+        audioSettings={audioSettings}
+        setAudioSettings={setAudioSettings}
+        getAudioFrame={() => rendererRef.current?.getAudioFrame() ?? null}
       />
 
       {/* Main Content Area */}
@@ -160,16 +599,30 @@ const App: React.FC = () => {
               <WebGPURenderer 
                 ref={rendererRef}
                 shaderCode={shaderCode}
+                passes={passes}
+                compute={compute}
                 params={params}
+                modulations={modulations}
                 onParamsChange={setParams}
                 description={activePreset.description}
-                onError={(e) => setError(e)}
-                onClearError={() => setError(null)}
-                onRecordProgress={(isRecording, timeLeft) => setRecordingStatus({ isRecording, timeLeft })}
+                onError={(e) => setErrors(prev => ({ ...prev, [e.passId || 'image']: e }))}
+                onClearError={clearPassError}
+                onRecordProgress={(isRecording, timeLeft, progress) => setRecordingStatus({ isRecording, timeLeft, progress })}
+                onCaptureProgress={(isCapturing, progress) => setCaptureStatus({ isCapturing, progress })}
                 scrollEffect={activeScrollEffect}
                 scrollParams={scrollParams}
                 textureScale={textureScale}
                 textureOffset={textureOffset}
+                timeline={timeline}
+                timelinePlayback={timelinePlayback}
+                transport={transport}
+                camera={camera}
+                resolution={resolution}
+                post={post}
+                grade={lutGrade}
+                channels={channels}
+                audioSettings={audioSettings}
+                onFrameStats={(stats) => { setFps(stats.fps); setRenderScale(stats.scale); }}
               />
           </div>
 
@@ -187,6 +640,7 @@ const App: React.FC = () => {
                  <div className="font-mono text-[10px] text-white/40 tracking-widest">
                     {fps} FPS // {window.innerWidth}x{window.innerHeight}
                  </div>
+                 <ResolutionControls settings={resolution} onChange={setResolution} scale={renderScale} />
             </div>
             <div className="text-right pointer-events-auto">
                <span className="text-[10px] font-mono text-white/30 tracking-widest uppercase">
@@ -196,27 +650,100 @@ const App: React.FC = () => {
         </footer>
       </div>
       
+      {/* Transport and Timeline (docked above the footer) */}
+      <div className={`absolute bottom-0 right-0 z-30 transition-all duration-500 ease-[cubic-bezier(0.16,1,0.3,1)] ${showEditor ? 'left-[600px]' : 'left-0 md:left-80'}`}>
+          <TransportBar
+                isOpen={showTransport}
+                onClose={() => setShowTransport(false)}
+                transport={transport}
+                setTransport={setTransport}
+                getTime={() => rendererRef.current?.getTime() ?? 0}
+                onSeek={(time) => rendererRef.current?.seek(time)}
+                onStep={(frames) => rendererRef.current?.step(frames)}
+          />
+          <TimelinePanel
+                isOpen={showTimeline}
+                onClose={() => setShowTimeline(false)}
+                timeline={timeline}
+                setTimeline={setTimeline}
+                playback={timelinePlayback}
+                setPlayback={setTimelinePlayback}
+                params={params}
+                getPlayhead={() => rendererRef.current?.getTimelineTime() ?? timelinePlayback.time}
+                readValue={readTimelineValue}
+          />
+      </div>
+      
       {/* Modals & Overlays */}
       <div className="pointer-events-auto">
-           <ErrorDisplay error={error} onClose={() => setError(null)} />
+           <ErrorDisplay error={error} onClose={() => error && clearPassError(error.passId || 'image')} />
            <DocumentationOverlay isOpen={showDocs} onClose={() => setShowDocs(false)} />
+           <PerformanceOverlay
+                isOpen={showPerformance}
+                onClose={() => setShowPerformance(false)}
+                subscribe={(listener) => rendererRef.current?.subscribeProfile(listener) ?? (() => {})}
+           />
            <ShaderEditor 
                 isOpen={showEditor} 
                 onClose={() => setShowEditor(false)} 
                 code={shaderCode} 
+                passes={passes}
+                compute={compute}
+                activeTab={editorTab}
+                onSelectTab={setEditorTab}
+                onAddPass={handleAddPass}
+                onRemovePass={handleRemovePass}
                 onCodeChange={handleCodeChange} 
-                error={error}
+                errors={errors}
            />
            <VideoExportOverlay 
                 isOpen={showVideoModal} 
                 onClose={() => setShowVideoModal(false)}
                 onStartRecord={(config) => rendererRef.current?.startVideo(config)}
+                timeline={timeline}
+           />
+           <StillCaptureOverlay
+                isOpen={showStillModal}
+                onClose={() => setShowStillModal(false)}
+                onCapture={(config) => rendererRef.current?.capture(config)}
+           />
+           <PresetDialog
+                isOpen={presetDialog !== null}
+                title={presetDialog?.editing ? 'Edit Preset' : 'Save as Preset'}
+                initial={presetDialog?.editing || { name: `${activePreset.name} Variant`, description: activePreset.description, tags: activePreset.tags }}
+                onClose={() => setPresetDialog(null)}
+                onSubmit={(details) => presetDialog?.editing ? handleEditPreset(presetDialog.editing, details) : handleSavePreset(details)}
+           />
+           <TextureImportDialog
+                file={pendingImport?.file || null}
+                channel={pendingImport?.channel ?? 0}
+                initial={(pendingImport && textures[pendingImport.channel]?.file === pendingImport.file && textures[pendingImport.channel]?.options) || DEFAULT_TEXTURE_IMPORT}
+                onClose={() => setPendingImport(null)}
+                onImport={(options) => pendingImport && applyChannel(pendingImport.channel, { file: pendingImport.file, options })}
            />
            <RecordingIndicator 
                 isRecording={recordingStatus.isRecording} 
                 timeLeft={recordingStatus.timeLeft} 
+                progress={recordingStatus.progress}
                 onStop={() => rendererRef.current?.stopVideo()}
            />
+           <RecordingIndicator
+                isRecording={captureStatus.isCapturing}
+                timeLeft={0}
+                progress={captureStatus.progress}
+                onStop={() => rendererRef.current?.cancelCapture()}
+                label="STILL"
+                detail="rendering offscreen"
+                stopTitle="Cancel the capture"
+           />
+           <RecordingIndicator
+                isRecording={benchmarkStatus !== null}
+                timeLeft={0}
+                progress={benchmarkStatus?.progress ?? 0}
+                onStop={() => rendererRef.current?.cancelBenchmark()}
+                label="BENCHMARK"
+                detail={benchmarkStatus?.scene}
+           />
       </div>
     </div>
   );
@@ -0,0 +1,65 @@
+import { ResolutionSettings } from '../types';
+
+// --- Adaptive Resolution ---
+// Watches GPU frame times and picks the internal render scale. Costs grow
+// with pixel count, so each step moves the scale by the square root of the
+// budget ratio. The hero export runtime ports the same controller.
+
+export const DEFAULT_RESOLUTION: ResolutionSettings = { enabled: true, targetFps: 60, minScale: 0.5, maxScale: 1.0 };
+
+export const MIN_RESOLUTION_SCALE = 0.25;
+export const RESOLUTION_WINDOW_MS = 500; // Frame times are averaged over this long before each step
+export const DOWNSCALE_THRESHOLD = 1.05; // Step down once frames take this much of the budget
+export const UPSCALE_THRESHOLD = 0.7; // Step up again below this, leaving headroom against oscillation
+export const MAX_STEP_DOWN = 0.75;
+export const MAX_STEP_UP = 1.1;
+
+export interface ResolutionController {
+  settings: ResolutionSettings;
+  scale: number;
+  total: number; // Summed frame times of the current window, ms
+  samples: number;
+  windowStart: number;
+}
+
+export const createResolutionController = (settings: ResolutionSettings): ResolutionController => ({
+  settings, scale: settings.maxScale, total: 0, samples: 0, windowStart: performance.now(),
+});
+
+// Keeps the current scale when it still fits the new range
+export const configureResolution = (controller: ResolutionController, settings: ResolutionSettings) => {
+  controller.settings = settings;
+  controller.scale = settings.enabled ? clampScale(controller.scale, settings) : settings.maxScale;
+  controller.total = 0;
+  controller.samples = 0;
+};
+
+const clampScale = (scale: number, settings: ResolutionSettings) => Math.max(settings.minScale, Math.min(settings.maxScale, scale));
+
+// Next scale for an average frame time, rounded to 5% steps so it settles
+export const stepResolutionScale = (scale: number, frameTime: number, settings: ResolutionSettings): number => {
+  const budget = 1000 / settings.targetFps;
+  const load = frameTime / budget;
+  let next = scale;
+  if (load > DOWNSCALE_THRESHOLD) next = scale * Math.max(MAX_STEP_DOWN, Math.sqrt(1 / load));
+  else if (load < UPSCALE_THRESHOLD) next = scale * Math.min(MAX_STEP_UP, Math.sqrt(UPSCALE_THRESHOLD / load));
+  return clampScale(Math.round(next * 20) / 20, settings);
+};
+
+// Records one frame time; returns true when the scale changed
+export const addFrameTime = (controller: ResolutionController, frameTime: number, now: number): boolean => {
+  if (!controller.settings.enabled) return false;
+  controller.total += frameTime;
+  controller.samples++;
+  if (now - controller.windowStart < RESOLUTION_WINDOW_MS) return false;
+  const next = stepResolutionScale(controller.scale, controller.total / controller.samples, controller.settings);
+  controller.total = 0;
+  controller.samples = 0;
+  controller.windowStart = now;
+  if (next === controller.scale) return false;
+  controller.scale = next;
+  return true;
+};
+
+export const getRenderSize = (width: number, height: number, scale: number): [number, number] =>
+  [Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale))];
@@ -0,0 +1,267 @@
+import { AudioSettings } from '../types';
+
+// --- Audio Sources ---
+// The microphone or an audio file drives `u.audio`, `u.audioBeat` and the
+// audio texture. Live frames read an AnalyserNode; video exports instead
+// analyze the decoded file offline, one window per frame, so the same file
+// always produces the same envelopes. Both feed the same analyzer.
+
+export const AUDIO_ACCEPT = 'audio/*';
+export const EXPORT_SAMPLE_RATE = 48000; // AAC and Opus both encode it
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { gain: 1, lowEdge: 250, highEdge: 4000, attack: 0.02, release: 0.25, beatSensitivity: 1.5 };
+
+// AnalyserNode settings, mirrored by the offline analysis. Its time smoothing
+// is off: attack and release smooth the bands, and onsets need raw frames.
+const FFT_SIZE = 1024;
+const MIN_DECIBELS = -100;
+const MAX_DECIBELS = -30;
+
+// Spectrum (row 0) and waveform (row 1), one byte per texel
+export const AUDIO_TEXTURE_WIDTH = FFT_SIZE / 2;
+export const AUDIO_TEXTURE_FORMAT = 'r8unorm';
+export const AUDIO_TEXTURE_BINDING = 9; // After the four channel texture/sampler pairs
+
+const BEAT_HISTORY = 1; // Seconds of onsets the beat threshold adapts to
+const BEAT_FLOOR = 0.02; // Onsets below this are never beats (silence, hiss)
+const BEAT_MIN_INTERVAL = 0.2; // Seconds; at most 300 BPM
+const BEAT_DECAY = 6; // The pulse falls to 1/e after 1 / BEAT_DECAY seconds
+
+export interface AudioSource {
+  kind: 'microphone' | 'file';
+  name: string; // File name, or 'Microphone'
+  context: AudioContext;
+  analyser: AnalyserNode;
+  element: HTMLAudioElement | null; // File playback, for transport controls
+  buffer: AudioBuffer | null; // Decoded file, for offline analysis and muxing
+  stream: MediaStream | null; // Microphone tracks, stopped on release
+}
+
+const createAnalyser = (context: AudioContext) => {
+  const analyser = context.createAnalyser();
+  analyser.fftSize = FFT_SIZE;
+  analyser.smoothingTimeConstant = 0;
+  analyser.minDecibels = MIN_DECIBELS;
+  analyser.maxDecibels = MAX_DECIBELS;
+  return analyser;
+};
+
+// Rejects when there is no microphone or access was denied
+export const openMicrophone = async (): Promise<AudioSource> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const context = new AudioContext();
+  const analyser = createAnalyser(context);
+  context.createMediaStreamSource(stream).connect(analyser);
+  return { kind: 'microphone', name: 'Microphone', context, analyser, element: null, buffer: null, stream };
+};
+
+// Loops and plays through the speakers; rejects when the file cannot be decoded
+export const openAudioFile = async (file: File): Promise<AudioSource> => {
+  const context = new AudioContext();
+  let buffer: AudioBuffer;
+  try {
+    buffer = await context.decodeAudioData(await file.arrayBuffer());
+  } catch (e) {
+    context.close();
+    throw new Error(`${file.name} is not an audio file this browser can decode.`);
+  }
+  const element = new Audio(URL.createObjectURL(file));
+  element.loop = true;
+  const analyser = createAnalyser(context);
+  context.createMediaElementSource(element).connect(analyser);
+  analyser.connect(context.destination);
+  await element.play().catch(() => {});
+  return { kind: 'file', name: file.name, context, analyser, element, buffer, stream: null };
+};
+
+// Stops microphone tracks and playback and closes the context
+export const releaseAudioSource = (source: AudioSource) => {
+  source.stream?.getTracks().forEach(track => track.stop());
+  if (source.element) {
+    source.element.pause();
+    URL.revokeObjectURL(source.element.src);
+    source.element.removeAttribute('src');
+  }
+  source.context.close();
+};
+
+// --- Analysis ---
+// What one frame of audio gives the shaders
+export interface AudioFrame {
+  bands: [number, number, number, number]; // u.audio: low, mid, high, volume (0-1)
+  beat: [number, number, number, number]; // u.audioBeat: pulse (1 on a beat, decays), beat count, onset strength, seconds since the last beat
+  texture: Uint8ClampedArray; // AUDIO_TEXTURE_WIDTH x 2
+}
+
+export const createSilentFrame = (): AudioFrame => {
+  const texture = new Uint8ClampedArray(AUDIO_TEXTURE_WIDTH * 2);
+  texture.fill(128, AUDIO_TEXTURE_WIDTH); // Waveform bytes center on 128
+  return { bands: [0, 0, 0, 0], beat: [0, 0, 0, 0], texture };
+};
+
+// Band smoothing and beat tracking, carried from frame to frame
+export interface AudioAnalyzer {
+  settings: AudioSettings;
+  previous: Uint8ClampedArray; // Last spectrum, for the onset
+  bands: [number, number, number, number];
+  onsetMean: number;
+  onsetVariance: number;
+  beats: number;
+  sinceBeat: number; // Seconds
+}
+
+export const createAudioAnalyzer = (settings: AudioSettings): AudioAnalyzer => ({
+  settings, previous: new Uint8ClampedArray(AUDIO_TEXTURE_WIDTH), bands: [0, 0, 0, 0], onsetMean: 0, onsetVariance: 0, beats: 0, sinceBeat: 0,
+});
+
+// First bin of the mid and high bands; every band keeps at least one bin
+const getBandBins = (settings: AudioSettings, sampleRate: number) => {
+  const binHz = sampleRate / FFT_SIZE;
+  const mid = Math.max(1, Math.min(AUDIO_TEXTURE_WIDTH - 2, Math.round(settings.lowEdge / binHz)));
+  const high = Math.max(mid + 1, Math.min(AUDIO_TEXTURE_WIDTH - 1, Math.round(settings.highEdge / binHz)));
+  return { mid, high };
+};
+
+const meanBins = (data: ArrayLike<number>, start: number, end: number) => {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += data[i];
+  return sum / ((end - start) * 255);
+};
+
+// Fraction of the way to a target covered in `dt`, for a time constant in seconds
+const approach = (dt: number, seconds: number) => seconds > 0 ? 1 - Math.exp(-dt / seconds) : 1;
+
+// Analyzes analyser bytes (the spectrum and the newest AUDIO_TEXTURE_WIDTH
+// waveform samples) taken `dt` seconds after the previous frame. A beat is a
+// rise of the low band that stands out from the last second of rises.
+export const analyzeAudioFrame = (analyzer: AudioAnalyzer, spectrum: ArrayLike<number>, waveform: ArrayLike<number>, sampleRate: number, dt: number): AudioFrame => {
+  const { settings } = analyzer;
+  const texture = new Uint8ClampedArray(AUDIO_TEXTURE_WIDTH * 2);
+  for (let i = 0; i < AUDIO_TEXTURE_WIDTH; i++) {
+    texture[i] = spectrum[i] * settings.gain;
+    texture[AUDIO_TEXTURE_WIDTH + i] = 128 + (waveform[i] - 128) * settings.gain;
+  }
+  const gained = texture.subarray(0, AUDIO_TEXTURE_WIDTH);
+
+  const { mid, high } = getBandBins(settings, sampleRate);
+  const levels = [meanBins(gained, 0, mid), meanBins(gained, mid, high), meanBins(gained, high, AUDIO_TEXTURE_WIDTH), meanBins(gained, 0, AUDIO_TEXTURE_WIDTH)];
+  const rise = approach(dt, settings.attack);
+  const fall = approach(dt, settings.release);
+  analyzer.bands = analyzer.bands.map((band, i) => band + (levels[i] - band) * (levels[i] > band ? rise : fall)) as AudioAnalyzer['bands'];
+
+  let onset = 0;
+  for (let i = 0; i < mid; i++) onset += Math.max(0, gained[i] - analyzer.previous[i]);
+  onset /= mid * 255;
+  analyzer.previous.set(gained);
+
+  analyzer.sinceBeat += dt;
+  const threshold = Math.max(BEAT_FLOOR, analyzer.onsetMean + settings.beatSensitivity * Math.sqrt(analyzer.onsetVariance));
+  if (onset > threshold && (analyzer.beats === 0 || analyzer.sinceBeat >= BEAT_MIN_INTERVAL)) {
+    analyzer.beats++;
+    analyzer.sinceBeat = 0;
+  }
+  const k = approach(dt, BEAT_HISTORY);
+  const deviation = onset - analyzer.onsetMean;
+  analyzer.onsetMean += k * deviation;
+  analyzer.onsetVariance = (1 - k) * (analyzer.onsetVariance + k * deviation * deviation);
+
+  const pulse = analyzer.beats > 0 ? Math.exp(-analyzer.sinceBeat * BEAT_DECAY) : 0;
+  return { bands: [...analyzer.bands], beat: [pulse, analyzer.beats, onset, analyzer.sinceBeat], texture };
+};
+
+// Analyzes the source's current analyser frame
+export const readAudioSource = (source: AudioSource, analyzer: AudioAnalyzer, dt: number): AudioFrame => {
+  const spectrum = new Uint8Array(source.analyser.frequencyBinCount);
+  const waveform = new Uint8Array(source.analyser.fftSize);
+  source.analyser.getByteFrequencyData(spectrum);
+  source.analyser.getByteTimeDomainData(waveform);
+  return analyzeAudioFrame(analyzer, spectrum, waveform.subarray(FFT_SIZE - AUDIO_TEXTURE_WIDTH), source.context.sampleRate, dt);
+};
+
+// --- Offline Analysis ---
+// Frame N at N / fps
+export interface AudioEnvelope {
+  fps: number;
+  frames: AudioFrame[];
+}
+
+// The file looped over `duration` and resampled, as muxed into the export
+export const renderAudioTrack = async (buffer: AudioBuffer, duration: number): Promise<AudioBuffer> => {
+  const context = new OfflineAudioContext(2, Math.max(1, Math.ceil(duration * EXPORT_SAMPLE_RATE)), EXPORT_SAMPLE_RATE);
+  const node = context.createBufferSource();
+  node.buffer = buffer;
+  node.loop = true;
+  node.connect(context.destination);
+  node.start(0);
+  return context.startRendering();
+};
+
+// In-place radix-2 FFT; the length must be a power of two
+const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = -2 * Math.PI / len;
+    for (let i = 0; i < n; i += len) {
+      for (let k = 0; k < len / 2; k++) {
+        const wr = Math.cos(angle * k), wi = Math.sin(angle * k);
+        const a = i + k, b = a + len / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr; im[b] = im[a] - ti;
+        re[a] += tr; im[a] += ti;
+      }
+    }
+  }
+};
+
+// Same steps as AnalyserNode's byte readings: Blackman window, FFT,
+// decibels mapped to bytes, and the waveform mapped around 128
+export const analyzeAudio = (buffer: AudioBuffer, fps: number, frameCount: number, settings: AudioSettings): AudioEnvelope => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const sample = (s: number) => {
+    if (s < 0 || s >= buffer.length) return 0;
+    let sum = 0;
+    for (const data of channels) sum += data[s];
+    return sum / channels.length;
+  };
+  const blackman = Array.from({ length: FFT_SIZE }, (_, i) => {
+    const x = 2 * Math.PI * i / FFT_SIZE;
+    return 0.42 - 0.5 * Math.cos(x) + 0.08 * Math.cos(2 * x);
+  });
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  const spectrum = new Uint8ClampedArray(AUDIO_TEXTURE_WIDTH);
+  const waveform = new Uint8ClampedArray(AUDIO_TEXTURE_WIDTH);
+  const analyzer = createAudioAnalyzer(settings);
+  const frames: AudioFrame[] = [];
+
+  for (let f = 0; f < frameCount; f++) {
+    // The window ends at the frame's time, like a live read at that moment
+    const end = Math.round(f / fps * buffer.sampleRate);
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const value = sample(end - FFT_SIZE + i);
+      re[i] = value * blackman[i];
+      im[i] = 0;
+      if (i >= FFT_SIZE - AUDIO_TEXTURE_WIDTH) waveform[i - (FFT_SIZE - AUDIO_TEXTURE_WIDTH)] = Math.floor(128 * (1 + value));
+    }
+    fft(re, im);
+    for (let k = 0; k < AUDIO_TEXTURE_WIDTH; k++) {
+      const db = 20 * Math.log10(Math.hypot(re[k], im[k]) / FFT_SIZE);
+      spectrum[k] = Math.floor(255 * (db - MIN_DECIBELS) / (MAX_DECIBELS - MIN_DECIBELS));
+    }
+    frames.push(analyzeAudioFrame(analyzer, spectrum, waveform, buffer.sampleRate, f === 0 ? 0 : 1 / fps));
+  }
+  return { fps, frames };
+};
+
+export const sampleAudioEnvelope = (envelope: AudioEnvelope, time: number): AudioFrame =>
+  envelope.frames[Math.max(0, Math.min(envelope.frames.length - 1, Math.round(time * envelope.fps)))];
@@ -0,0 +1,60 @@
+import { CameraPose } from '../types';
+
+// --- Camera Model ---
+// Turns an orbit pose into the position / target / up vectors that
+// `getCameraRay` in presets.ts expects.
+
+type Vec3 = [number, number, number];
+
+export const DEFAULT_CAMERA: CameraPose = {
+  target: [0, 0, 0],
+  theta: 0,
+  phi: 0,
+  radius: 4.5,
+  fov: 60,
+  roll: 0,
+  autoOrbit: 0,
+};
+
+export const MIN_CAMERA_RADIUS = 1.0;
+export const MAX_CAMERA_RADIUS = 50.0;
+export const MAX_CAMERA_PHI = 1.5; // Just short of the poles, where the up vector flips
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const normalize = (a: Vec3): Vec3 => {
+  const len = Math.hypot(a[0], a[1], a[2]) || 1;
+  return [a[0] / len, a[1] / len, a[2] / len];
+};
+
+export interface CameraFrame {
+  position: Vec3;
+  target: Vec3;
+  up: Vec3; // Roll already applied
+  fov: number; // Radians
+  roll: number; // Radians
+}
+
+export const getCameraFrame = (pose: CameraPose): CameraFrame => {
+  const { target, theta, phi, radius } = pose;
+  const position: Vec3 = [
+    target[0] + radius * Math.cos(phi) * Math.sin(theta),
+    target[1] + radius * Math.sin(phi),
+    target[2] + radius * Math.cos(phi) * Math.cos(theta),
+  ];
+
+  const forward = normalize(sub(target, position));
+  const right = normalize(cross(forward, [0, 1, 0]));
+  const up = cross(right, forward);
+  const roll = pose.roll * Math.PI / 180;
+  const c = Math.cos(roll);
+  const s = Math.sin(roll);
+
+  return {
+    position,
+    target,
+    up: [up[0] * c + right[0] * s, up[1] * c + right[1] * s, up[2] * c + right[2] * s],
+    fov: Math.max(1, Math.min(179, pose.fov)) * Math.PI / 180,
+    roll,
+  };
+};
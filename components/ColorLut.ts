@@ -0,0 +1,143 @@
+// --- WebGPU Type Stubs ---
+type GPUDevice = any;
+type GPUTexture = any;
+declare const GPUTextureUsage: any;
+
+// --- Color LUTs ---
+// .cube files (Adobe / Resolve) parsed into an RGBA float table for a 3D
+// texture. 1D tables are expanded into a cube so the grading pass has a
+// single path. The texture is rgba32float, which is not filterable on every
+// adapter, so the post stack interpolates it by hand.
+
+export const LUT_FORMAT = 'rgba32float';
+export const LUT_EXTENSION = '.cube';
+export const MAX_LUT_SIZE = 128; // Entries per axis of a 3D table (128^3 texels = 32MB)
+const MAX_1D_SIZE = 65536;
+const EXPANDED_1D_SIZE = 33; // Cube size 1D tables are resampled to
+
+export interface ColorLut {
+  title: string;
+  size: number; // Entries per axis
+  domainMin: [number, number, number]; // Input value mapped to the first entry
+  domainMax: [number, number, number];
+  data: Float32Array; // size^3 RGBA texels, red changing fastest, then green, then blue
+}
+
+// LUT and mix amount handed to the runtime and exports
+export interface LutGrade {
+  lut: ColorLut;
+  intensity: number; // 0 = ungraded, 1 = full LUT
+}
+
+// Thrown by parseCubeLut with the 1-based line of the problem
+export class LutParseError extends Error {
+  constructor(message: string, line?: number) {
+    super(line ? `Line ${line}: ${message}` : message);
+    this.name = 'LutParseError';
+  }
+}
+
+const parseTriple = (parts: string[], line: number): [number, number, number] => {
+  const values = parts.slice(0, 3).map(Number);
+  if (parts.length !== 3 || values.some(v => !Number.isFinite(v))) throw new LutParseError('expected three numbers', line);
+  return values as [number, number, number];
+};
+
+const parseSize = (value: string | undefined, max: number, line: number) => {
+  const size = Number(value);
+  if (!Number.isInteger(size) || size < 2 || size > max) throw new LutParseError(`size must be a whole number from 2 to ${max}`, line);
+  return size;
+};
+
+// Resamples each channel's curve at `size` points and crosses them into a cube
+const expand1D = (rows: number[], entries: number, size: number) => {
+  const curve = (channel: number, t: number) => {
+    const p = t * (entries - 1);
+    const i = Math.min(Math.floor(p), entries - 2);
+    const f = p - i;
+    return rows[i * 3 + channel] * (1 - f) + rows[(i + 1) * 3 + channel] * f;
+  };
+  const data = new Float32Array(size * size * size * 4);
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const o = ((b * size + g) * size + r) * 4;
+        data[o] = curve(0, r / (size - 1));
+        data[o + 1] = curve(1, g / (size - 1));
+        data[o + 2] = curve(2, b / (size - 1));
+        data[o + 3] = 1;
+      }
+    }
+  }
+  return data;
+};
+
+export const parseCubeLut = (text: string, fallbackTitle = 'Untitled LUT'): ColorLut => {
+  let title = fallbackTitle;
+  let size1D = 0;
+  let size3D = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const rows: number[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const content = raw.replace(/#.*/, '').trim();
+    if (!content) return;
+    if (content.startsWith('TITLE')) {
+      title = content.slice(5).trim().replace(/^"(.*)"$/, '$1') || title;
+      return;
+    }
+    const parts = content.split(/\s+/);
+    const keyword = parts[0];
+    if (keyword === 'LUT_1D_SIZE') size1D = parseSize(parts[1], MAX_1D_SIZE, line);
+    else if (keyword === 'LUT_3D_SIZE') size3D = parseSize(parts[1], MAX_LUT_SIZE, line);
+    else if (keyword === 'DOMAIN_MIN') domainMin = parseTriple(parts.slice(1), line);
+    else if (keyword === 'DOMAIN_MAX') domainMax = parseTriple(parts.slice(1), line);
+    else if (keyword === 'LUT_1D_INPUT_RANGE' || keyword === 'LUT_3D_INPUT_RANGE') {
+      // Resolve's shorthand for the same min / max on every channel
+      const [min, max] = parts.slice(1).map(Number);
+      if (parts.length !== 3 || !Number.isFinite(min) || !Number.isFinite(max)) throw new LutParseError('expected a min and a max', line);
+      domainMin = [min, min, min];
+      domainMax = [max, max, max];
+    }
+    else if (/^[A-Z_]+$/.test(keyword)) return; // Unknown keywords are allowed by the spec
+    else {
+      if (!size1D && !size3D) throw new LutParseError('table data before LUT_1D_SIZE or LUT_3D_SIZE', line);
+      rows.push(...parseTriple(parts, line));
+    }
+  });
+
+  if (size1D && size3D) throw new LutParseError('declares both LUT_1D_SIZE and LUT_3D_SIZE');
+  if (!size1D && !size3D) throw new LutParseError('missing LUT_1D_SIZE or LUT_3D_SIZE');
+  if (domainMin.some((min, c) => min >= domainMax[c])) throw new LutParseError('DOMAIN_MIN must be below DOMAIN_MAX');
+
+  const entries = size1D || size3D ** 3;
+  if (rows.length !== entries * 3) throw new LutParseError(`expected ${entries} table rows, found ${rows.length / 3}`);
+
+  if (size1D) {
+    const size = Math.min(size1D, EXPANDED_1D_SIZE);
+    return { title, size, domainMin, domainMax, data: expand1D(rows, size1D, size) };
+  }
+  const data = new Float32Array(entries * 4);
+  for (let i = 0; i < entries; i++) {
+    data[i * 4] = rows[i * 3];
+    data[i * 4 + 1] = rows[i * 3 + 1];
+    data[i * 4 + 2] = rows[i * 3 + 2];
+    data[i * 4 + 3] = 1;
+  }
+  return { title, size: size3D, domainMin, domainMax, data };
+};
+
+// --- GPU ---
+export const createLutTexture = (device: GPUDevice, lut: ColorLut): GPUTexture => {
+  const texture = device.createTexture({
+    label: `LUT ${lut.title}`,
+    size: [lut.size, lut.size, lut.size],
+    dimension: '3d',
+    format: LUT_FORMAT,
+    usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST,
+  });
+  device.queue.writeTexture({ texture }, lut.data, { bytesPerRow: lut.size * 16, rowsPerImage: lut.size }, [lut.size, lut.size, lut.size]);
+  return texture;
+};
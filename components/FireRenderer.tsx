@@ -1,610 +1,307 @@
 import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
-import { ShaderError, ShaderParam, VideoConfig, ScrollEffectType, ScrollParams } from '../types';
-import { calculateUniformLayout, writeParamsToBuffer } from './ShaderParams';
-
-// --- WebGPU Type Stubs ---
-type GPUDevice = any;
-type GPUCanvasContext = any;
-type GPURenderPipeline = any;
-type GPUBuffer = any;
-type GPUBindGroup = any;
-declare const GPUBufferUsage: any;
-declare const GPUShaderStage: any;
-
-const getErrorMessage = (err: any): string => {
-  if (err === undefined) return "Undefined Error";
-  if (err === null) return "Null Error";
-  if (typeof err === 'string') return err;
-  if (err.reason !== undefined && err.message !== undefined) return `Device Lost (${err.reason}): ${err.message}`;
-  if (err.message !== undefined) return String(err.message);
-  if (err instanceof Error) return `${err.name}: ${err.message}`;
-  try { const json = JSON.stringify(err); if (json !== '{}') return json; } catch (e) {}
-  return String(err);
-};
+import { ShaderError, ShaderParam, VideoConfig, ScrollEffectType, ScrollParams, BufferPass, ComputeSetup, PassId, Preset, Timeline, TimelinePlayback, CameraPose, ResolutionSettings, StillConfig, PostSettings, TextureChannel, TextureImportOptions, AudioSettings, Modulation, TransportSettings } from '../types';
+import { LutGrade } from './ColorLut';
+import { THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT, createThumbnail } from './PresetLibrary';
+import { HeroRuntime, FrameStats, getErrorMessage } from './HeroRuntime';
+import { openVideoFile, openCamera, releaseVideo } from './VideoSources';
+import { AudioSource, AudioFrame, openMicrophone, openAudioFile, releaseAudioSource } from './AudioSources';
+import { DEFAULT_TRANSPORT } from './Transport';
+import { BenchmarkOptions, BenchmarkReport, BenchmarkScene, FrameProfile } from './Profiler';
 
 export interface WebGPURendererRef {
-  capture: (quality?: number) => void;
+  capture: (config: StillConfig) => void; // Downloads a PNG; progress goes to onCaptureProgress
+  cancelCapture: () => void;
   startVideo: (config: VideoConfig) => void;
   stopVideo: () => void;
-  loadTexture: (file: File) => void;
-  toggleAudio: () => Promise<void>;
+  loadTexture: (file: File, channel?: number, options?: TextureImportOptions) => void; // Channel 0 and DEFAULT_TEXTURE_IMPORT by default
+  loadVideo: (file: File, channel?: number) => Promise<boolean>; // Looping and muted; false when it cannot be decoded
+  startCamera: (channel?: number) => Promise<boolean>; // False when there is no camera or access was denied
+  getVideo: (channel?: number) => HTMLVideoElement | null; // For transport controls; null unless the channel plays a video
+  resetTexture: (channel?: number) => void; // Back to the built-in placeholder
+  startMicrophone: () => Promise<AudioSource | null>; // Replaces the current audio source; null when access was denied
+  loadAudio: (file: File) => Promise<AudioSource | null>; // Loops and plays it; video exports analyze it offline and mux it in
+  stopAudio: () => void; // Stops the microphone tracks or the file and zeroes u.audio
+  getAudioFrame: () => AudioFrame | null; // Latest live analysis, for visualizers
   updateScroll: (y: number) => void;
+  getTimelineTime: () => number; // Playhead of the last rendered frame
+  getTime: () => number; // Transport time now
+  seek: (time: number) => void; // Moves the transport; a paused preview draws the new moment once
+  step: (frames: number) => void; // Pauses, then moves whole frames at STEP_FPS; negative goes back
+  getCamera: () => { theta: number, phi: number, radius: number, fov: number, roll: number }; // As last rendered
+  resetCamera: () => void; // Back to the preset pose
+  renderThumbnails: (presets: Preset[], onThumbnail: (id: string, url: string) => void) => Promise<void>; // Offscreen, as small JPEGs; presets with errors get none
+  capturePoster: () => Promise<Blob | null>; // Next rendered frame at canvas size, as a JPEG
+  getTextureImage: (channel?: number) => Promise<Blob | null>; // Channel as uploaded to the GPU (after import processing), as a PNG; null for the placeholder
+  subscribeProfile: (listener: (profile: FrameProfile) => void) => () => void; // Frames are only profiled while subscribed
+  runBenchmark: (scenes: BenchmarkScene[], options: BenchmarkOptions, onProgress?: (progress: number, scene: BenchmarkScene) => void) => Promise<BenchmarkReport | null>;
+  cancelBenchmark: () => void; // Resolves the running benchmark with the scenes measured so far
 }
 
 interface WebGPURendererProps {
   shaderCode: string;
-  params: ShaderParam[]; 
+  passes: BufferPass[];
+  compute?: ComputeSetup;
+  params: ShaderParam[];
+  modulations?: Modulation[];
   onParamsChange: (newParams: ShaderParam[]) => void;
   description?: string;
   onError: (error: ShaderError) => void;
-  onClearError: () => void;
-  onRecordProgress: (isRecording: boolean, timeLeft: number) => void;
+  onClearError: (passId: PassId) => void;
+  onRecordProgress: (isRecording: boolean, timeLeft: number, progress: number) => void;
+  onCaptureProgress?: (isCapturing: boolean, progress: number) => void;
   scrollEffect: ScrollEffectType;
   scrollParams: ScrollParams;
   textureScale: { x: number, y: number };
   textureOffset: { x: number, y: number };
+  timeline: Timeline;
+  timelinePlayback: TimelinePlayback;
+  transport: TransportSettings;
+  camera?: CameraPose; // Falls back to DEFAULT_CAMERA
+  resolution: ResolutionSettings;
+  post?: PostSettings; // Undefined for shaders that tone map themselves
+  grade?: LutGrade | null; // Each new `lut` object is uploaded to the GPU again
+  channels?: TextureChannel[]; // Undefined means channel 0 with the default sampler
+  audioSettings: AudioSettings;
+  onFrameStats?: (stats: FrameStats) => void; // Every rendered preview frame
 }
 
-const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ shaderCode, params, onParamsChange, description, onError, onClearError, onRecordProgress, scrollEffect, scrollParams, textureScale, textureOffset }, ref) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [isSupported, setIsSupported] = useState<boolean>(true);
-  
-  const deviceRef = useRef<GPUDevice | null>(null);
-  const contextRef = useRef<GPUCanvasContext | null>(null);
-  const pipelineRef = useRef<GPURenderPipeline | null>(null);
-  const uniformBufferRef = useRef<GPUBuffer | null>(null);
-  const bindGroupRef = useRef<GPUBindGroup | null>(null);
-  const textureRef = useRef<any>(null); // Channel 0
-  const samplerRef = useRef<any>(null); // Sampler
-  
-  const requestRef = useRef<number | null>(null);
-  const startTimeRef = useRef<number>(performance.now());
-  const isMountedRef = useRef<boolean>(true);
-  const hasReportedErrorRef = useRef<boolean>(false);
-  
-  // Audio State
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyzerRef = useRef<AnalyserNode | null>(null);
-  const audioDataArrayRef = useRef<Uint8Array | null>(null);
+const download = (href: string, fileName: string) => {
+  const a = document.createElement('a');
+  a.href = href;
+  a.download = fileName;
+  a.click();
+};
 
-  // Capture State
-  const capturePendingRef = useRef<number>(0); 
-  
-  // Video Recording State
-  const recorderRef = useRef<MediaRecorder | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
-  const recordingConfigRef = useRef<VideoConfig | null>(null);
-  const recordingStartTimeRef = useRef<number>(0);
-  const isRecordingRef = useRef<boolean>(false);
-  const recordedFramesRef = useRef<number>(0); 
-  const streamTrackRef = useRef<any>(null); 
+const THUMBNAIL_FRAMES = 90; // 1.5 s in, once simulations and feedback trails have built up
+
+// Renders each preset on a runtime of its own, on a canvas that is never
+// shown, so the preview keeps its scene and loop
+const renderThumbnails = async (presets: Preset[], onThumbnail: (id: string, url: string) => void) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = THUMBNAIL_HEIGHT;
+  const runtime = new HeroRuntime();
+  let failed = false;
+  runtime.on('error', () => { failed = true; });
+  try {
+    runtime.setTransport({ ...DEFAULT_TRANSPORT, playing: false });
+    if (!await runtime.mount(canvas)) return;
+    for (const preset of presets) {
+      failed = false;
+      runtime.setParams(preset.params);
+      runtime.setModulations(preset.modulations || []);
+      runtime.setCamera(preset.camera);
+      runtime.setPost(preset.post);
+      runtime.setChannels(preset.channels);
+      await runtime.setCompute(preset.compute);
+      await runtime.setPasses(preset.passes || []);
+      await runtime.setShader(preset.shaderCode);
+      const url = failed ? null : await runtime.renderSteps(THUMBNAIL_FRAMES, createThumbnail);
+      if (url) onThumbnail(preset.id, url);
+    }
+  } finally {
+    runtime.dispose();
+  }
+};
 
-  // Scroll State
-  const scrollYRef = useRef<number>(0);
-  const scrollEffectRef = useRef<ScrollEffectType>(scrollEffect);
-  const scrollParamsRef = useRef<ScrollParams>(scrollParams);
-  const textureScaleRef = useRef(textureScale);
-  const textureOffsetRef = useRef(textureOffset);
+// React wrapper over HeroRuntime: props go to its setters, errors come back through its events
+const WebGPURenderer = forwardRef<WebGPURendererRef, WebGPURendererProps>(({ shaderCode, passes, compute, params, modulations, onParamsChange, description, onError, onClearError, onRecordProgress, onCaptureProgress, scrollEffect, scrollParams, textureScale, textureOffset, timeline, timelinePlayback, transport, camera, resolution, post, grade, channels, audioSettings, onFrameStats }, ref) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isSupported, setIsSupported] = useState<boolean>(true);
+  const runtimeRef = useRef<HeroRuntime | null>(null);
 
-  // Sync refs with props to avoid stale closures in render loop
-  const paramsRef = useRef(params);
-  useEffect(() => { paramsRef.current = params; }, [params]);
-  useEffect(() => { scrollEffectRef.current = scrollEffect; }, [scrollEffect]);
-  useEffect(() => { scrollParamsRef.current = scrollParams; }, [scrollParams]);
-  useEffect(() => { textureScaleRef.current = textureScale; }, [textureScale]);
-  useEffect(() => { textureOffsetRef.current = textureOffset; }, [textureOffset]);
+  // Audio State (the runtime reads the source, this owns it)
+  const audioSourceRef = useRef<AudioSource | null>(null);
 
-  const STANDARD_HEADER_SIZE = 48; 
-  
-  const cameraState = useRef({ theta: 0.0, phi: 0.0, radius: 4.5, isDragging: false, lastX: 0, lastY: 0 });
-  const mouseState = useRef({ x: 0, y: 0, isDown: 0 });
+  // Latest callbacks, so runtime events never call a stale closure
+  const callbacksRef = useRef({ onError, onClearError, onRecordProgress, onCaptureProgress, onFrameStats });
+  callbacksRef.current = { onError, onClearError, onRecordProgress, onCaptureProgress, onFrameStats };
 
-  // --- HELPER: Texture Creation ---
-  const createTextureFromImage = async (device: GPUDevice, source: ImageBitmap | HTMLCanvasElement) => {
-    const texture = device.createTexture({
-        size: [source.width, source.height, 1],
-        format: 'rgba8unorm',
-        usage: 0x04 | 0x02 | 0x01 | 0x10, // COPY_DST | TEXTURE_BINDING | COPY_SRC | RENDER_ATTACHMENT
+  // INITIAL SETUP
+  // Runs before the prop effects below, which hand the runtime its scene before mount resolves
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const runtime = new HeroRuntime();
+    runtimeRef.current = runtime;
+    runtime.on('error', error => callbacksRef.current.onError(error));
+    runtime.on('clearError', passId => callbacksRef.current.onClearError(passId));
+    runtime.on('frame', stats => callbacksRef.current.onFrameStats?.(stats));
+    runtime.mount(canvas).then(mounted => {
+      if (!mounted && !runtime.isSupported && runtimeRef.current === runtime) setIsSupported(false);
     });
-    device.queue.copyExternalImageToTexture(
-        { source },
-        { texture },
-        [source.width, source.height]
-    );
-    return texture;
+    return () => {
+      runtime.dispose();
+      if (runtimeRef.current === runtime) runtimeRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => { runtimeRef.current?.setCompute(compute); }, [compute]);
+  useEffect(() => { runtimeRef.current?.setPasses(passes); }, [passes]);
+  useEffect(() => { runtimeRef.current?.setParams(params); }, [params]);
+  useEffect(() => { runtimeRef.current?.setModulations(modulations || []); }, [modulations]);
+  useEffect(() => { runtimeRef.current?.setShader(shaderCode); }, [shaderCode]);
+  useEffect(() => { runtimeRef.current?.setScrollEffect(scrollEffect, scrollParams); }, [scrollEffect, scrollParams]);
+  useEffect(() => { runtimeRef.current?.setTextureTransform(textureScale, textureOffset); }, [textureScale, textureOffset]);
+  useEffect(() => { runtimeRef.current?.setTimeline(timeline); }, [timeline]);
+  useEffect(() => { runtimeRef.current?.setTimelinePlayback(timelinePlayback); }, [timelinePlayback]);
+  useEffect(() => { runtimeRef.current?.setTransport(transport); }, [transport]);
+  useEffect(() => { runtimeRef.current?.setCamera(camera); }, [camera]);
+  useEffect(() => { runtimeRef.current?.setResolution(resolution); }, [resolution]);
+  useEffect(() => { runtimeRef.current?.setPost(post); }, [post]);
+  useEffect(() => { runtimeRef.current?.setGrade(grade); }, [grade]);
+  useEffect(() => { runtimeRef.current?.setChannels(channels); }, [channels]);
+  useEffect(() => { runtimeRef.current?.setAudioSettings(audioSettings); }, [audioSettings]);
+
+  const setAudioSource = (source: AudioSource | null) => {
+      if (audioSourceRef.current) releaseAudioSource(audioSourceRef.current);
+      audioSourceRef.current = source;
+      runtimeRef.current?.setAudioSource(source);
   };
-  
-  // High-End Abstract Art Default Texture (Smoother)
-  const createDefaultTexture = (device: GPUDevice) => {
-      const size = 1024;
-      const canvas = document.createElement('canvas');
-      canvas.width = size; canvas.height = size;
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-          // Smooth, High-End Gradient - Less Noisy
-          const grd = ctx.createLinearGradient(0, 0, size, size);
-          grd.addColorStop(0, '#0a0a0a');
-          grd.addColorStop(1, '#1f1f1f'); 
-          ctx.fillStyle = grd;
-          ctx.fillRect(0, 0, size, size);
-          
-          // Soft Glow
-          const rad = ctx.createRadialGradient(size/2, size/2, 0, size/2, size/2, size/2);
-          rad.addColorStop(0, 'rgba(255, 255, 255, 0.05)');
-          rad.addColorStop(1, 'rgba(0, 0, 0, 0)');
-          ctx.fillStyle = rad;
-          ctx.fillRect(0, 0, size, size);
 
-          // Minimal Tech Lines (Clean)
-          ctx.strokeStyle = 'rgba(255, 255, 255, 0.03)';
-          ctx.lineWidth = 2;
-          ctx.beginPath();
-          ctx.moveTo(0, size/2); ctx.lineTo(size, size/2);
-          ctx.moveTo(size/2, 0); ctx.lineTo(size/2, size);
-          ctx.stroke();
+  // Stops the microphone stream with the component
+  useEffect(() => () => { if (audioSourceRef.current) releaseAudioSource(audioSourceRef.current); }, []);
+
+  // Renders frame N at exactly N / fps; the runtime owns the loop, this owns the UI around it
+  const exportVideo = async (runtime: HeroRuntime, config: VideoConfig) => {
+      try {
+          const blob = await runtime.exportVideo(config, (timeLeft, progress) => callbacksRef.current.onRecordProgress(true, timeLeft, progress));
+          if (blob) {
+              const url = URL.createObjectURL(blob);
+              download(url, `cinematic_recording_${Date.now()}.${config.format}`);
+              URL.revokeObjectURL(url);
+          }
+      } catch (e) {
+          console.error("Video export failed", e);
+          alert(getErrorMessage(e));
+      } finally {
+          callbacksRef.current.onRecordProgress(false, 0, 0);
+      }
+  };
 
-          // Placeholder Text
-          ctx.fillStyle = 'rgba(255, 255, 255, 0.15)';
-          ctx.font = 'bold 80px "Inter", sans-serif';
-          ctx.textAlign = 'center';
-          ctx.textBaseline = 'middle';
-          ctx.fillText('NO TEXTURE', size/2, size/2);
+  const captureStill = async (runtime: HeroRuntime, config: StillConfig) => {
+      try {
+          callbacksRef.current.onCaptureProgress?.(true, 0);
+          const blob = await runtime.captureStill(config, progress => callbacksRef.current.onCaptureProgress?.(true, progress));
+          if (blob) {
+              const url = URL.createObjectURL(blob);
+              download(url, `render_${config.width}x${config.height}_${config.quality === 2 ? 'ultra' : 'standard'}_${Date.now()}.png`);
+              URL.revokeObjectURL(url);
+          }
+      } catch (e) {
+          console.error("Still capture failed", e);
+          alert(getErrorMessage(e));
+      } finally {
+          callbacksRef.current.onCaptureProgress?.(false, 0);
       }
-      return createTextureFromImage(device, canvas);
   };
 
   useImperativeHandle(ref, () => ({
-    capture: (quality = 1) => {
-      capturePendingRef.current = quality;
+    capture: (config: StillConfig) => {
+        const runtime = runtimeRef.current;
+        if (!runtime || runtime.isCapturing || runtime.isExporting) return;
+        captureStill(runtime, config);
     },
-    loadTexture: async (file: File) => {
-        if (!deviceRef.current || !file) return;
+    cancelCapture: () => runtimeRef.current?.cancelCapture(),
+    loadTexture: async (file: File, channel = 0, options?: TextureImportOptions) => {
+        if (!runtimeRef.current || !file) return;
         try {
-            const bitmap = await createImageBitmap(file);
-            
-            // --- CV ENHANCEMENT PIPELINE ---
-            // Process the uploaded image to normalize it for shader usage (clean it up).
-            const canvas = document.createElement('canvas');
-            const size = 1024; // Standardize to Power of 2 for better sampling/wrapping
-            canvas.width = size;
-            canvas.height = size;
-            const ctx = canvas.getContext('2d');
-            
-            if (ctx) {
-                // 1. Resize & Draw
-                ctx.drawImage(bitmap, 0, 0, size, size);
-                
-                // 2. CV Enhancement: Auto-Levels / Normalize Contrast
-                // Shaders work best when textures utilize the full 0-1 dynamic range.
-                const imageData = ctx.getImageData(0, 0, size, size);
-                const data = imageData.data;
-                
-                let min = 255, max = 0;
-                // Sample every 40th pixel for speed estimation of range
-                for(let i=0; i<data.length; i+=40) {
-                     const luma = 0.299 * data[i] + 0.587 * data[i+1] + 0.114 * data[i+2];
-                     if(luma < min) min = luma;
-                     if(luma > max) max = luma;
-                }
-                
-                // If the image is washed out, stretch the contrast
-                if (max > min) {
-                    const range = max - min;
-                    // Apply to all pixels
-                    for(let i=0; i<data.length; i+=4) {
-                        data[i] = ((data[i] - min) / range) * 255;     // R
-                        data[i+1] = ((data[i+1] - min) / range) * 255; // G
-                        data[i+2] = ((data[i+2] - min) / range) * 255; // B
-                    }
-                }
-                
-                ctx.putImageData(imageData, 0, 0);
-
-                const texture = await createTextureFromImage(deviceRef.current, canvas);
-                textureRef.current = texture;
-                rebind(deviceRef.current);
-            }
-            bitmap.close();
+            await runtimeRef.current.setTexture(file, channel, options);
         } catch (e) {
             console.error("Failed to load texture", e);
         }
     },
-    toggleAudio: async () => {
-        if (audioContextRef.current) {
-            audioContextRef.current.suspend();
-            audioContextRef.current = null;
-            return;
+    loadVideo: async (file: File, channel = 0) => {
+        try {
+            const video = await openVideoFile(file);
+            if (!runtimeRef.current) { releaseVideo(video); return false; }
+            runtimeRef.current.setVideo(video, channel);
+            return true;
+        } catch (e) {
+            console.error("Failed to load video", e);
+            alert(`Could not play ${file.name}: ${getErrorMessage(e)}`);
+            return false;
+        }
+    },
+    startCamera: async (channel = 0) => {
+        try {
+            const video = await openCamera();
+            if (!runtimeRef.current) { releaseVideo(video); return false; }
+            runtimeRef.current.setVideo(video, channel);
+            return true;
+        } catch (e) {
+            console.error("Camera init failed", e);
+            alert("Could not access camera.");
+            return false;
         }
+    },
+    getVideo: (channel = 0) => runtimeRef.current?.getVideo(channel) ?? null,
+    resetTexture: (channel = 0) => { runtimeRef.current?.setTexture(null, channel); },
+    startMicrophone: async () => {
         try {
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            const ctx = new AudioContext();
-            const source = ctx.createMediaStreamSource(stream);
-            const analyzer = ctx.createAnalyser();
-            analyzer.fftSize = 256;
-            source.connect(analyzer);
-            audioContextRef.current = ctx;
-            analyzerRef.current = analyzer;
-            audioDataArrayRef.current = new Uint8Array(analyzer.frequencyBinCount);
+            const source = await openMicrophone();
+            setAudioSource(source);
+            return source;
         } catch (e) {
             console.error("Audio init failed", e);
             alert("Could not access microphone.");
+            return null;
         }
     },
-    startVideo: (config: VideoConfig) => {
-        if (!canvasRef.current) return;
-        recordingConfigRef.current = config;
-        chunksRef.current = [];
-        recordedFramesRef.current = 0;
-        canvasRef.current.width = 1920;
-        canvasRef.current.height = 1080;
-
-        const stream = canvasRef.current.captureStream(0);
-        const track = stream.getVideoTracks()[0];
-        if (track && (track as any).requestFrame) {
-             streamTrackRef.current = track;
-        } else {
-             const autoStream = canvasRef.current.captureStream(config.fps);
-             recorderRef.current = new MediaRecorder(autoStream, { mimeType: 'video/webm' });
-             streamTrackRef.current = null;
-        }
-
-        let mimeType = 'video/webm;codecs=vp9';
-        if (!MediaRecorder.isTypeSupported(mimeType)) mimeType = 'video/webm;codecs=vp8';
-
-        if (!recorderRef.current) {
-            const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: config.bitrate * 1000000 });
-            recorderRef.current = recorder;
+    loadAudio: async (file: File) => {
+        try {
+            const source = await openAudioFile(file);
+            setAudioSource(source);
+            return source;
+        } catch (e) {
+            console.error("Failed to load audio", e);
+            alert(getErrorMessage(e));
+            return null;
         }
-
-        const recorder = recorderRef.current!;
-        recorder.ondataavailable = (e) => { if (e.data.size > 0) chunksRef.current.push(e.data); };
-        recorder.onstop = () => {
-            const blob = new Blob(chunksRef.current, { type: 'video/webm' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = `cinematic_recording_${Date.now()}.webm`;
-            a.click();
-            URL.revokeObjectURL(url);
-            isRecordingRef.current = false;
-            streamTrackRef.current = null;
-            onRecordProgress(false, 0);
-        };
-        recorder.start();
-        recordingStartTimeRef.current = performance.now();
-        isRecordingRef.current = true;
     },
-    stopVideo: () => {
-        if (recorderRef.current && recorderRef.current.state === 'recording') {
-            recorderRef.current.stop();
-        }
+    stopAudio: () => setAudioSource(null),
+    getAudioFrame: () => runtimeRef.current?.getAudioFrame() ?? null,
+    startVideo: (config: VideoConfig) => {
+        const runtime = runtimeRef.current;
+        if (!runtime || runtime.isExporting) return;
+        exportVideo(runtime, config);
     },
+    stopVideo: () => runtimeRef.current?.cancelExport(),
     updateScroll: (y: number) => {
-        scrollYRef.current = y * 0.001; // Normalize scale
-    }
+        runtimeRef.current?.setScroll(y * 0.001); // Normalize scale
+    },
+    getTimelineTime: () => runtimeRef.current?.getTimelineTime() ?? 0,
+    getTime: () => runtimeRef.current?.getTime() ?? 0,
+    seek: (time: number) => runtimeRef.current?.seek(time),
+    step: (frames: number) => runtimeRef.current?.step(frames),
+    getCamera: () => runtimeRef.current?.getCamera() ?? { theta: 0.0, phi: 0.0, radius: 4.5, fov: 60, roll: 0 },
+    resetCamera: () => runtimeRef.current?.resetCamera(),
+    renderThumbnails,
+    capturePoster: async () => {
+        const copy = await runtimeRef.current?.readNextFrame(canvas => {
+            const target = document.createElement('canvas');
+            target.width = canvas.width;
+            target.height = canvas.height;
+            target.getContext('2d')?.drawImage(canvas, 0, 0);
+            return target;
+        });
+        return copy ? new Promise<Blob | null>(resolve => copy.toBlob(resolve, 'image/jpeg', 0.9)) : null;
+    },
+    getTextureImage: async (channel = 0) => {
+        const source = runtimeRef.current?.getTextureSource(channel);
+        return source ? new Promise<Blob | null>(resolve => source.toBlob(resolve, 'image/png')) : null;
+    },
+    subscribeProfile: (listener) => runtimeRef.current?.on('profile', listener) ?? (() => {}),
+    runBenchmark: async (scenes, options, onProgress) => (await runtimeRef.current?.benchmark(scenes, options, onProgress)) ?? null,
+    cancelBenchmark: () => runtimeRef.current?.cancelBenchmark(),
   }));
 
-  const rebind = (device: GPUDevice) => {
-      if (!pipelineRef.current || !uniformBufferRef.current || !textureRef.current || !samplerRef.current) return;
-      
-      const bindGroup = device.createBindGroup({
-          layout: pipelineRef.current.getBindGroupLayout(0),
-          entries: [
-              { binding: 0, resource: { buffer: uniformBufferRef.current } },
-              { binding: 1, resource: textureRef.current.createView() },
-              { binding: 2, resource: samplerRef.current }
-          ]
-      });
-      bindGroupRef.current = bindGroup;
-  };
-
-  const compilePipeline = async (device: GPUDevice, code: string, context: GPUCanvasContext) => {
-      const format = (navigator as any).gpu.getPreferredCanvasFormat();
-      
-      const shaderModule = device.createShaderModule({ label: 'Main', code });
-      const compilationInfo = await shaderModule.getCompilationInfo();
-      if (compilationInfo.messages.length > 0) {
-        let hasError = false;
-        for (const msg of compilationInfo.messages) {
-          if (msg.type === 'error') {
-              hasError = true;
-              onError({ type: 'compilation', message: getErrorMessage(msg.message), lineNum: msg.lineNum, linePos: msg.linePos });
-          }
-        }
-        if (hasError) return;
-      }
-      onClearError();
-      hasReportedErrorRef.current = false;
-
-      const bindGroupLayout = device.createBindGroupLayout({ 
-          entries: [
-              { binding: 0, visibility: GPUShaderStage.FRAGMENT | GPUShaderStage.VERTEX, buffer: { type: 'uniform' }},
-              { binding: 1, visibility: GPUShaderStage.FRAGMENT, texture: {} },
-              { binding: 2, visibility: GPUShaderStage.FRAGMENT, sampler: {} }
-          ]
-      });
-
-      const pipelineLayout = device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout] });
-      const pipeline = device.createRenderPipeline({
-        layout: pipelineLayout,
-        vertex: { module: shaderModule, entryPoint: 'vs_main' },
-        fragment: { module: shaderModule, entryPoint: 'fs_main', targets: [{ format }] },
-        primitive: { topology: 'triangle-list' },
-      });
-      pipelineRef.current = pipeline;
-      
-      const layout = calculateUniformLayout(paramsRef.current, STANDARD_HEADER_SIZE);
-      rebind(device);
-      
-      // Resume loop if it was stopped
-      if (!requestRef.current) {
-          startTimeRef.current = performance.now();
-          requestRef.current = requestAnimationFrame(render);
-      }
-  };
-
-  // INITIAL SETUP
-  useEffect(() => {
-    isMountedRef.current = true;
-    const initWebGPU = async () => {
-      const gpu = (navigator as any).gpu;
-      if (!gpu) { setIsSupported(false); onError({ type: 'compilation', message: "WebGPU not supported." }); return; }
-
-      try {
-        const adapter = await gpu.requestAdapter();
-        if (!adapter) { setIsSupported(false); onError({ type: 'compilation', message: "No GPU adapter." }); return; }
-        const device = await adapter.requestDevice();
-        if (!isMountedRef.current) { device.destroy(); return; }
-        deviceRef.current = device;
-
-        device.lost.then((info: any) => { if (isMountedRef.current) onError({ type: 'runtime', message: getErrorMessage(info) }); });
-        device.addEventListener('uncapturederror', (e: any) => { if (isMountedRef.current) onError({ type: 'runtime', message: getErrorMessage(e.error) }); });
-
-        const canvas = canvasRef.current;
-        if (!canvas) return;
-        const context = canvas.getContext('webgpu') as any;
-        contextRef.current = context;
-        const format = gpu.getPreferredCanvasFormat();
-        context.configure({ device, format, alphaMode: 'opaque' });
-
-        // Buffer Init
-        const uniformBuffer = device.createBuffer({ size: 512, usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST });
-        uniformBufferRef.current = uniformBuffer;
-
-        const defaultTex = await createDefaultTexture(device);
-        textureRef.current = defaultTex;
-        const sampler = device.createSampler({ magFilter: 'linear', minFilter: 'linear', addressModeU: 'clamp-to-edge', addressModeV: 'clamp-to-edge' });
-        samplerRef.current = sampler;
-
-        await compilePipeline(device, shaderCode, context);
-
-        requestRef.current = requestAnimationFrame(render);
-      } catch (err: any) { onError({ type: 'compilation', message: getErrorMessage(err) }); }
-    };
-    initWebGPU();
-    return () => { isMountedRef.current = false; if (requestRef.current !== null) cancelAnimationFrame(requestRef.current); };
-  }, []);
-
-  // PIPELINE RELOAD
-  useEffect(() => {
-      if (deviceRef.current && contextRef.current) {
-          compilePipeline(deviceRef.current, shaderCode, contextRef.current);
-      }
-  }, [shaderCode]); 
-
-  const render = (time: number) => {
-    const device = deviceRef.current;
-    const context = contextRef.current;
-    const pipeline = pipelineRef.current;
-    const uniformBuffer = uniformBufferRef.current;
-    const bindGroup = bindGroupRef.current;
-    const canvas = canvasRef.current;
-
-    // Safety checks
-    if (!device || !context || !pipeline || !uniformBuffer || !bindGroup || !canvas) {
-         requestRef.current = requestAnimationFrame(render);
-         return;
-    }
-    
-    if (hasReportedErrorRef.current) {
-        requestRef.current = null;
-        return;
-    }
-
-    let width, height;
-    if (capturePendingRef.current > 0) {
-        width = 3840; height = 2160;
-        canvas.width = width; canvas.height = height;
-    } else if (isRecordingRef.current) {
-        width = 1920; height = 1080;
-        if (canvas.width !== width || canvas.height !== height) { canvas.width = width; canvas.height = height; }
-    } else {
-        const dpr = window.devicePixelRatio || 1; 
-        width = Math.floor(canvas.clientWidth * dpr);
-        height = Math.floor(canvas.clientHeight * dpr);
-        if (canvas.width !== width || canvas.height !== height) { canvas.width = width; canvas.height = height; }
-    }
-
-    if (width === 0 || height === 0) {
-        requestRef.current = requestAnimationFrame(render);
-        return;
-    }
-
-    let elapsedTime = (time - startTimeRef.current) * 0.001;
-    let cameraTheta = cameraState.current.theta;
-    let cameraPhi = cameraState.current.phi;
-    let cameraRadius = cameraState.current.radius;
-    
-    // Use synced refs
-    const currentParams = [...paramsRef.current];
-    const currentScrollEffect = scrollEffectRef.current;
-    const currentScrollParams = scrollParamsRef.current;
-    const currentTextureScale = textureScaleRef.current;
-    const currentTextureOffset = textureOffsetRef.current;
-
-    if (isRecordingRef.current && recordingConfigRef.current) {
-        const fps = recordingConfigRef.current.fps;
-        elapsedTime = recordedFramesRef.current / fps;
-        recordedFramesRef.current++;
-        const duration = recordingConfigRef.current.duration;
-        const progress = Math.min(1.0, elapsedTime / duration);
-        const remaining = Math.max(0, duration - elapsedTime);
-        onRecordProgress(true, remaining);
-
-        const shot = recordingConfigRef.current.shotType;
-        if (shot === 'orbit') { cameraTheta += elapsedTime * 0.5; }
-        else if (shot === 'sweep') { cameraTheta += elapsedTime * 0.3; cameraPhi = 0.1; cameraRadius = 6.0; }
-        else if (shot === 'dolly') { cameraRadius = 6.0 - (progress * 2.0); cameraTheta += elapsedTime * 0.1; }
-        else if (shot === 'breathing') { cameraRadius = 5.0 + Math.sin(elapsedTime * 0.8) * 0.5; cameraTheta += elapsedTime * 0.2; }
-        else if (shot === 'chaos') { cameraTheta += elapsedTime * 0.5; cameraPhi = Math.sin(elapsedTime * 2.0) * 0.5; cameraRadius = 4.0 + Math.cos(elapsedTime * 3.0) * 0.5; }
-
-        if (recordingConfigRef.current.orchestrate) {
-             const firstFloat = currentParams.findIndex(p => p.type === 'float');
-             if (firstFloat !== -1) {
-                 const p = { ...currentParams[firstFloat] } as any; 
-                 p.value = p.min + (p.max - p.min) * (0.5 + 0.5 * Math.sin(elapsedTime));
-                 currentParams[firstFloat] = p;
-             }
-        }
-        if (elapsedTime >= duration) {
-             if (recorderRef.current && recorderRef.current.state === 'recording') recorderRef.current.stop();
-        }
-    }
-
-    const cx = cameraRadius * Math.cos(cameraPhi) * Math.sin(cameraTheta);
-    const cy = cameraRadius * Math.sin(cameraPhi);
-    const cz = cameraRadius * Math.cos(cameraPhi) * Math.cos(cameraTheta);
-    
-    const layout = calculateUniformLayout(currentParams, STANDARD_HEADER_SIZE);
-    
-    const uniformData = new Float32Array(512 / 4); // Fixed large buffer
-    uniformData[0] = width; uniformData[1] = height; uniformData[2] = elapsedTime;
-    uniformData[4] = cx; uniformData[5] = cy; uniformData[6] = cz;
-    
-    // NORMALIZE MOUSE INPUT (0.0 - 1.0)
-    uniformData[8] = mouseState.current.x / width; 
-    uniformData[9] = mouseState.current.y / height; 
-    uniformData[10] = mouseState.current.isDown;
-    
-    writeParamsToBuffer(uniformData, currentParams, layout);
-
-    let offset = layout.size / 4; 
-    if (offset % 4 !== 0) offset += (4 - (offset % 4));
-
-    // LightAz (f32)
-    uniformData[offset] = 0.1; 
-    uniformData[offset+1] = 0.6; 
-    
-    if (capturePendingRef.current > 0) uniformData[offset+2] = capturePendingRef.current;
-    else if (isRecordingRef.current) uniformData[offset+2] = 2.0;
-    else uniformData[offset+2] = 0.0;
-    
-    uniformData[offset+3] = recordingConfigRef.current?.postProcess.aberration || 0.0;
-
-    let low = 0, mid = 0, high = 0, vol = 0;
-    if (analyzerRef.current && audioDataArrayRef.current) {
-        analyzerRef.current.getByteFrequencyData(audioDataArrayRef.current);
-        const data = audioDataArrayRef.current;
-        const bufferLength = data.length;
-        const lowBound = Math.floor(bufferLength * 0.1);
-        const midBound = Math.floor(bufferLength * 0.5);
-        for(let i=0; i<bufferLength; i++) {
-            const val = data[i] / 255.0;
-            vol += val;
-            if (i < lowBound) low += val; else if (i < midBound) mid += val; else high += val;
-        }
-        low /= lowBound; mid /= (midBound - lowBound); high /= (bufferLength - midBound); vol /= bufferLength;
-    }
-    uniformData[offset+4] = low; uniformData[offset+5] = mid; uniformData[offset+6] = high; uniformData[offset+7] = vol;
-    
-    uniformData[offset+8] = scrollYRef.current;
-    
-    let typeVal = 0;
-    if (currentScrollEffect === 'twist') typeVal = 1;
-    if (currentScrollEffect === 'fly') typeVal = 2;
-    if (currentScrollEffect === 'chromatic') typeVal = 3;
-    if (currentScrollEffect === 'liquify') typeVal = 4;
-    if (currentScrollEffect === 'glitch') typeVal = 5;
-    if (currentScrollEffect === 'blackhole') typeVal = 6;
-    if (currentScrollEffect === 'kaleidoscope') typeVal = 7;
-    uniformData[offset+9] = typeVal;
-
-    uniformData[offset+10] = currentScrollParams.strength;
-    uniformData[offset+11] = currentScrollParams.speed;
-    
-    uniformData[offset+12] = currentTextureScale.x;
-    uniformData[offset+13] = currentTextureScale.y;
-
-    uniformData[offset+14] = currentTextureOffset.x;
-    uniformData[offset+15] = currentTextureOffset.y;
-
-    device.queue.writeBuffer(uniformBuffer, 0, uniformData);
-
-    device.pushErrorScope('validation');
-
-    const commandEncoder = device.createCommandEncoder();
-    const textureView = context.getCurrentTexture().createView();
-    const renderPass = commandEncoder.beginRenderPass({ colorAttachments: [{ view: textureView, clearValue: { r: 0, g: 0, b: 0, a: 1 }, loadOp: 'clear', storeOp: 'store' }] });
-    renderPass.setPipeline(pipeline);
-    renderPass.setBindGroup(0, bindGroup);
-    renderPass.draw(6);
-    renderPass.end();
-    device.queue.submit([commandEncoder.finish()]);
-
-    device.popErrorScope().then((error: any) => {
-        if (error && !hasReportedErrorRef.current) {
-            hasReportedErrorRef.current = true;
-            if (requestRef.current) cancelAnimationFrame(requestRef.current);
-            requestRef.current = null;
-            onError({ type: 'validation', message: error.message || "Unknown validation error." });
-        }
-    }).catch((e: any) => console.error("Error scope failure", e));
-
-    if (isRecordingRef.current && streamTrackRef.current && (streamTrackRef.current as any).requestFrame) {
-        (streamTrackRef.current as any).requestFrame();
-    }
-
-    if (capturePendingRef.current > 0) {
-        const link = document.createElement('a');
-        const modeLabel = capturePendingRef.current === 2 ? 'ultra' : 'standard';
-        link.download = `render_4k_${modeLabel}_${Date.now()}.png`;
-        link.href = canvas.toDataURL('image/png', 1.0);
-        link.click();
-        capturePendingRef.current = 0;
-    }
-
-    if (!hasReportedErrorRef.current) {
-        requestRef.current = requestAnimationFrame(render);
-    }
-  };
-
-  const handlePointerDown = (e: React.PointerEvent) => { 
-      if (isRecordingRef.current) return; 
-      canvasRef.current?.setPointerCapture(e.pointerId); 
-      cameraState.current.isDragging = true; 
-      cameraState.current.lastX = e.clientX; 
-      cameraState.current.lastY = e.clientY; 
-      mouseState.current.isDown = 1.0; 
-  };
-  const handlePointerMove = (e: React.PointerEvent) => {
-    const rect = canvasRef.current?.getBoundingClientRect();
-    if(rect) { mouseState.current.x = e.clientX - rect.left; mouseState.current.y = e.clientY - rect.top; }
-    if (cameraState.current.isDragging) {
-      const dx = e.clientX - cameraState.current.lastX; const dy = e.clientY - cameraState.current.lastY;
-      cameraState.current.lastX = e.clientX; cameraState.current.lastY = e.clientY;
-      cameraState.current.theta -= dx * 0.005; // SLOWER ROTATION FOR PRODUCT SHOWCASE
-      cameraState.current.phi += dy * 0.005;
-      cameraState.current.phi = Math.max(-1.5, Math.min(1.5, cameraState.current.phi));
-    }
-  };
-  const handlePointerUp = (e: React.PointerEvent) => { canvasRef.current?.releasePointerCapture(e.pointerId); cameraState.current.isDragging = false; mouseState.current.isDown = 0.0; };
-  const handleWheel = (e: React.WheelEvent) => { cameraState.current.radius = Math.max(1.0, Math.min(50.0, cameraState.current.radius + e.deltaY * 0.005)); };
-
   if (!isSupported) return <div className="w-full h-full flex items-center justify-center bg-black text-red-500 font-mono"><p>WebGPU not supported.</p></div>;
 
+  // Pointer and wheel input are attached by the runtime
   return (
-        <canvas ref={canvasRef} className="w-full h-full block cursor-crosshair touch-none" onPointerDown={handlePointerDown} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp} onPointerLeave={handlePointerUp} onWheel={handleWheel} />
+        <canvas ref={canvasRef} className="w-full h-full block cursor-crosshair touch-none" />
   );
 });
 
-export default WebGPURenderer;
\ No newline at end of file
+export default WebGPURenderer;
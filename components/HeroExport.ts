@@ -0,0 +1,796 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { zipSync, strToU8, Zippable } from 'fflate';
+import { BufferPass, CameraPose, ComputeSetup, LayoutMode, Modulation, PostSettings, ResolutionSettings, ScrollEffectType, ScrollParams, ShaderParam, TextureChannel, ChannelSampler, Timeline } from '../types';
+import { LayoutOverlay } from '../layouts';
+import { calculateUniformLayout, createUniformData, writeUniform, writeParamsToBuffer, SCROLL_EFFECT_INDEX } from './ShaderParams';
+import { getModulationRange, getNoiseSeed } from './Modulation';
+import { DEFAULT_CAMERA, MIN_CAMERA_RADIUS, MAX_CAMERA_RADIUS, MAX_CAMERA_PHI } from './Camera';
+import { BUFFER_SLOTS, FEEDBACK_FORMAT } from './RenderGraph';
+import { MAX_STORAGE_BUFFERS, MAX_STORAGE_TEXTURES, STORAGE_TEXTURE_FORMAT } from './StorageResources';
+import { hasKeyframes } from './Timeline';
+import { DOWNSCALE_THRESHOLD, UPSCALE_THRESHOLD, MAX_STEP_DOWN, MAX_STEP_UP, RESOLUTION_WINDOW_MS } from './AdaptiveResolution';
+import { LutGrade, LUT_FORMAT } from './ColorLut';
+import { AUDIO_TEXTURE_BINDING, AUDIO_TEXTURE_FORMAT, AUDIO_TEXTURE_WIDTH } from './AudioSources';
+import { MAX_CHANNELS, MIPMAP_SHADER_WGSL, DEFAULT_CHANNELS, getChannelSampler } from './TextureChannels';
+import { HDR_FORMAT, POST_SHADER_WGSL, POST_ENTRY_POINTS, PASSTHROUGH_POST, SCROLL_CHROMATIC_STRENGTH, POST_UNIFORM_INDEX, PostStage, getPostStages, getChromaticStrength, createPostUniforms } from './PostStack';
+
+// --- Standalone Hero Export ---
+// Packs the current scene into a zip that runs without React or Monaco:
+// index.html with the static layout markup, a small WebGPU runtime, the WGSL
+// modules, scene.json and the channel textures. Params are baked into the initial
+// uniform bytes; the runtime only rewrites what changes per frame.
+
+export interface HeroExportInput {
+  name: string;
+  shaderCode: string;
+  passes: BufferPass[];
+  compute?: ComputeSetup;
+  params: ShaderParam[];
+  modulations?: Modulation[];
+  seed: number; // u.seed
+  layout: LayoutMode;
+  scrollEffect: ScrollEffectType;
+  scrollParams: ScrollParams;
+  textureScale: { x: number, y: number };
+  textureOffset: { x: number, y: number };
+  camera?: CameraPose;
+  timeline?: Timeline; // Only when the preview plays it
+  resolution: ResolutionSettings;
+  post?: PostSettings;
+  grade?: LutGrade | null;
+  channels?: TextureChannel[];
+  textures: (Blob | null)[]; // PNG per channel, null where the placeholder is bound
+  videos?: (File | null)[]; // Video file per channel, played in place of the image
+  poster: Blob | null; // JPEG shown when WebGPU is missing
+}
+
+// A timeline track resolved to the uniform field it writes
+interface SceneTrack {
+  target: string; // 'camera.<key>' or a uniform field name
+  convert?: 'int' | 'bool' | 'enum';
+  max?: number; // Highest enum index
+  keyframes: Timeline['tracks'][number]['keyframes'];
+}
+
+// A modulated param resolved to the uniform field it writes
+interface SceneModulation {
+  target: string;
+  convert?: 'int' | 'bool' | 'enum';
+  max?: number; // Highest enum index
+  value: number[]; // From the controls; a timeline track on the param replaces it
+  range: ReturnType<typeof getModulationRange>;
+  bindings: (Omit<Modulation, 'id' | 'target'> & { seed: number })[];
+}
+
+interface HeroScene {
+  version: 1;
+  image: string;
+  passes: { id: string, entryPoint: string, file: string }[];
+  compute: { file: string, stages: ComputeSetup['stages'], buffers: ComputeSetup['buffers'], textures: ComputeSetup['textures'] } | null;
+  uniforms: { size: number, data: string, fields: Record<string, { offset: number, scalar: string, components: number }> };
+  camera: CameraPose;
+  channels: { file: string | null, video: boolean, sampler: ChannelSampler }[]; // Every slot, by index
+  timeline: { duration: number, loop: boolean, tracks: SceneTrack[] } | null;
+  modulations: SceneModulation[];
+  resolution: ResolutionSettings;
+  // Stages include chromatic whenever scrolling can add it; `uniforms` is the
+  // Post struct for a full frame, with frame size, chromatic and seed set per
+  // frame. `lut` holds the grade's RGBA float texels (size^3, red fastest).
+  post: { stages: PostStage[], uniforms: number[], chromatic: number, scrollChromatic: number, lut: { file: string, size: number } | null };
+}
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const getHeroFileName = (name: string) => `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'hero'}-hero.zip`;
+
+// --- Scene ---
+const resolveTrack = (track: Timeline['tracks'][number], params: ShaderParam[]): SceneTrack | null => {
+  const [group, key] = track.target.split(/\.(.+)/);
+  if (group === 'camera') return { target: track.target, keyframes: track.keyframes };
+  if (track.target === 'scroll.strength') return { target: 'scrollParam1', keyframes: track.keyframes };
+  if (track.target === 'scroll.speed') return { target: 'scrollParam2', keyframes: track.keyframes };
+  if (track.target === 'texture.scale') return { target: 'textureScale', keyframes: track.keyframes };
+  if (track.target === 'texture.offset') return { target: 'textureOffset', keyframes: track.keyframes };
+  const param = params.find(p => p.id === key);
+  if (group !== 'param' || !param) return null;
+  if (param.type === 'enum') return { target: param.id, convert: 'enum', max: param.options.length - 1, keyframes: track.keyframes };
+  if (param.type === 'int' || param.type === 'bool') return { target: param.id, convert: param.type, keyframes: track.keyframes };
+  return { target: param.id, keyframes: track.keyframes };
+};
+
+const resolveModulations = (params: ShaderParam[], modulations: Modulation[]): SceneModulation[] => params.flatMap(param => {
+  const bindings = modulations.filter(m => m.target === param.id);
+  if (bindings.length === 0) return [];
+  const value = typeof param.value === 'boolean' ? [param.value ? 1 : 0] : typeof param.value === 'number' ? [param.value] : [...param.value];
+  const convert = param.type === 'enum' || param.type === 'int' || param.type === 'bool' ? param.type : undefined;
+  return [{
+    target: param.id, convert, max: param.type === 'enum' ? param.options.length - 1 : undefined, value, range: getModulationRange(param),
+    bindings: bindings.map(({ id, target, ...binding }) => ({ ...binding, seed: getNoiseSeed(id) })),
+  }];
+});
+
+// Path of a channel's image or video inside the bundle
+const getChannelFile = (input: HeroExportInput, index: number) => {
+  const video = input.videos?.[index];
+  if (video) return `textures/channel${index}.${video.name.split('.').pop()?.toLowerCase() || 'mp4'}`;
+  return input.textures[index] ? `textures/channel${index}.png` : null;
+};
+
+const buildScene = (input: HeroExportInput): HeroScene => {
+  const layout = calculateUniformLayout(input.shaderCode);
+  const data = createUniformData(layout);
+  writeParamsToBuffer(data, input.params, layout);
+  writeUniform(data, layout, 'lightAz', 0.1);
+  writeUniform(data, layout, 'lightEl', 0.6);
+  writeUniform(data, layout, 'seed', input.seed);
+  writeUniform(data, layout, 'scrollType', SCROLL_EFFECT_INDEX[input.scrollEffect]);
+  writeUniform(data, layout, 'scrollParam1', input.scrollParams.strength);
+  writeUniform(data, layout, 'scrollParam2', input.scrollParams.speed);
+  writeUniform(data, layout, 'textureScale', [input.textureScale.x, input.textureScale.y]);
+  writeUniform(data, layout, 'textureOffset', [input.textureOffset.x, input.textureOffset.y]);
+
+  const fields: HeroScene['uniforms']['fields'] = {};
+  Object.values(layout.fields).forEach(f => {
+    if (f.scalar && f.scalar !== 'f16') fields[f.name] = { offset: f.offset, scalar: f.scalar, components: f.components };
+  });
+
+  const timeline = input.timeline && hasKeyframes(input.timeline) ? input.timeline : null;
+  const post = input.post || PASSTHROUGH_POST;
+  const chromatic = getChromaticStrength(post);
+  const scrollChromatic = input.scrollEffect === 'chromatic' ? input.scrollParams.strength * SCROLL_CHROMATIC_STRENGTH : 0;
+  const frame = { x: 0, y: 0, width: 1, height: 1 };
+  return {
+    version: 1,
+    image: 'shaders/image.wgsl',
+    passes: input.passes.map(p => ({ id: p.id, entryPoint: p.entryPoint, file: `shaders/${p.id}.wgsl` })),
+    compute: input.compute ? { file: 'shaders/compute.wgsl', stages: input.compute.stages, buffers: input.compute.buffers, textures: input.compute.textures } : null,
+    uniforms: { size: layout.size, data: toBase64(data.buffer), fields },
+    camera: input.camera || DEFAULT_CAMERA,
+    channels: Array.from({ length: MAX_CHANNELS }, (_, i) => ({ file: getChannelFile(input, i), video: !!input.videos?.[i], sampler: getChannelSampler(input.channels || DEFAULT_CHANNELS, i) })),
+    timeline: timeline && {
+      duration: timeline.duration,
+      loop: timeline.loop,
+      tracks: timeline.tracks.map(t => resolveTrack(t, input.params)).filter((t): t is SceneTrack => t !== null),
+    },
+    modulations: resolveModulations(input.params, input.modulations || []),
+    resolution: input.resolution,
+    post: {
+      stages: getPostStages(post, chromatic + scrollChromatic, input.grade),
+      uniforms: Array.from(createPostUniforms(post, chromatic, { frameWidth: 1, frameHeight: 1, ...frame }, frame, 0, input.grade)),
+      chromatic,
+      scrollChromatic,
+      lut: input.grade ? { file: 'lut.bin', size: input.grade.lut.size } : null,
+    },
+  };
+};
+
+// --- Page ---
+const PAGE_STYLES = `
+  html, body { margin: 0; padding: 0; height: 100%; overflow: hidden; background: #030303; color: white; }
+  #hero { position: relative; width: 100vw; height: 100vh; overflow: hidden; }
+  #hero-canvas, #hero-poster { position: absolute; inset: 0; width: 100%; height: 100%; display: block; }
+  #hero-canvas { touch-action: none; cursor: crosshair; }
+  #hero-poster { object-fit: cover; display: none; }
+  .custom-scrollbar::-webkit-scrollbar { width: 4px; }
+  .custom-scrollbar::-webkit-scrollbar-track { background: transparent; }
+  .custom-scrollbar::-webkit-scrollbar-thumb { background: rgba(255,255,255,0.2); }
+  ::selection { background: #ccff00; color: black; }
+`;
+
+const createPage = (input: HeroExportInput): string => {
+  const markup = renderToStaticMarkup(createElement(LayoutOverlay, { mode: input.layout, scrollRef: { current: null } }));
+  // Same theme as the designer, so the layout classes resolve identically
+  const tailwindConfig = JSON.stringify((window as any).tailwind?.config || {});
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHtml(input.name)}</title>
+    <script src="https://cdn.tailwindcss.com"></script>
+    <script>tailwind.config = ${tailwindConfig};</script>
+    <link href="https://fonts.googleapis.com/css2?family=Space+Grotesk:wght@300;400;500;600;700&family=JetBrains+Mono:wght@300;400&display=swap" rel="stylesheet">
+    <style>${PAGE_STYLES}</style>
+  </head>
+  <body class="font-sans antialiased">
+    <div id="hero">
+      <canvas id="hero-canvas"></canvas>
+      ${input.poster ? '<img id="hero-poster" src="poster.jpg" alt="" />' : '<div id="hero-poster"></div>'}
+      ${markup}
+    </div>
+    <script src="hero-runtime.js"></script>
+  </body>
+</html>
+`;
+};
+
+// --- Runtime ---
+// Plain script, no modules, so it runs from any static host. Mirrors the frame
+// loop of HeroRuntime: compute stages, buffer passes, the Image pass, then the post stack.
+const createRuntime = () => `// WebGPU hero runtime, exported from the Hero Section Designer
+(function () {
+  'use strict';
+
+  var BUFFER_SLOTS = ${JSON.stringify(BUFFER_SLOTS)};
+  var FEEDBACK_FORMAT = '${FEEDBACK_FORMAT}';
+  var MAX_STORAGE_BUFFERS = ${MAX_STORAGE_BUFFERS};
+  var MAX_STORAGE_TEXTURES = ${MAX_STORAGE_TEXTURES};
+  var STORAGE_FORMAT = '${STORAGE_TEXTURE_FORMAT}';
+  var MIN_RADIUS = ${MIN_CAMERA_RADIUS}, MAX_RADIUS = ${MAX_CAMERA_RADIUS}, MAX_PHI = ${MAX_CAMERA_PHI};
+  var HDR_FORMAT = '${HDR_FORMAT}';
+  var POST_SHADER = ${JSON.stringify(POST_SHADER_WGSL)};
+  var POST_ENTRY_POINTS = ${JSON.stringify(POST_ENTRY_POINTS)};
+  var POST_INDEX = ${JSON.stringify(POST_UNIFORM_INDEX)};
+  var LUT_FORMAT = '${LUT_FORMAT}';
+  var MIPMAP_SHADER = ${JSON.stringify(MIPMAP_SHADER_WGSL)};
+  var AUDIO_BINDING = ${AUDIO_TEXTURE_BINDING}, AUDIO_WIDTH = ${AUDIO_TEXTURE_WIDTH};
+
+  var EASINGS = {
+    linear: function (t) { return t; },
+    easeIn: function (t) { return t * t * t; },
+    easeOut: function (t) { return 1 - Math.pow(1 - t, 3); },
+    easeInOut: function (t) { return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2; },
+    step: function () { return 0; }
+  };
+
+  var canvas = document.getElementById('hero-canvas');
+  var poster = document.getElementById('hero-poster');
+
+  function showPoster(reason) {
+    if (reason) console.warn('Hero: ' + reason);
+    canvas.style.display = 'none';
+    poster.style.display = 'block';
+  }
+
+  function loadText(file) {
+    return fetch(file).then(function (r) {
+      if (!r.ok) throw new Error('Could not load ' + file);
+      return r.text();
+    });
+  }
+
+  // --- Camera (see components/Camera.ts) ---
+  function cameraFrame(pose, theta, phi, radius, fov, rollDeg) {
+    var t = pose.target;
+    var p = [t[0] + radius * Math.cos(phi) * Math.sin(theta), t[1] + radius * Math.sin(phi), t[2] + radius * Math.cos(phi) * Math.cos(theta)];
+    var f = normalize([t[0] - p[0], t[1] - p[1], t[2] - p[2]]);
+    var r = normalize([-f[2], 0, f[0]]); // cross(forward, up)
+    var u = [r[1] * f[2] - r[2] * f[1], r[2] * f[0] - r[0] * f[2], r[0] * f[1] - r[1] * f[0]];
+    var roll = rollDeg * Math.PI / 180, c = Math.cos(roll), s = Math.sin(roll);
+    return {
+      position: p,
+      target: t,
+      up: [u[0] * c + r[0] * s, u[1] * c + r[1] * s, u[2] * c + r[2] * s],
+      fov: Math.max(1, Math.min(179, fov)) * Math.PI / 180,
+      roll: roll
+    };
+  }
+  function normalize(a) {
+    var len = Math.hypot(a[0], a[1], a[2]) || 1;
+    return [a[0] / len, a[1] / len, a[2] / len];
+  }
+
+  // --- Timeline (see components/Timeline.ts) ---
+  function wrapTime(timeline, time) {
+    if (timeline.duration <= 0) return 0;
+    if (!timeline.loop) return Math.max(0, Math.min(timeline.duration, time));
+    return ((time % timeline.duration) + timeline.duration) % timeline.duration;
+  }
+  function evaluateTrack(keys, time) {
+    if (keys.length === 0) return null;
+    if (time <= keys[0].time) return keys[0].value;
+    var last = keys[keys.length - 1];
+    if (time >= last.time) return last.value;
+    var next = keys.findIndex(function (k) { return k.time > time; });
+    var a = keys[next - 1], b = keys[next];
+    var t = EASINGS[a.easing]((time - a.time) / (b.time - a.time));
+    return a.value.map(function (v, i) { return v + ((b.value[i] === undefined ? v : b.value[i]) - v) * t; });
+  }
+  function convertValue(track, value) {
+    if (track.convert === 'bool') return [value[0] >= 0.5 ? 1 : 0];
+    if (track.convert === 'int') return [Math.round(value[0])];
+    if (track.convert === 'enum') return [Math.max(0, Math.min(track.max, Math.round(value[0])))];
+    return value;
+  }
+
+  // --- Modulation (see components/Modulation.ts); there is no audio here, so audio sources read 0 ---
+  var CURVES = {
+    linear: function (f) { return f; },
+    easeIn: function (f) { return f * f; },
+    easeOut: function (f) { return 1 - (1 - f) * (1 - f); },
+    smooth: function (f) { return f * f * (3 - 2 * f); },
+    step: function (f) { return f >= 0.5 ? 1 : 0; }
+  };
+  function noiseHash(n) {
+    var x = Math.sin(n) * 43758.5453;
+    return x - Math.floor(x);
+  }
+  function readSource(m, time, inputs) {
+    var phase = time * m.rate;
+    if (m.source === 'sine') return 0.5 - 0.5 * Math.cos(phase * Math.PI * 2);
+    if (m.source === 'saw') return phase - Math.floor(phase);
+    if (m.source === 'noise') {
+      var i = Math.floor(phase), f = phase - i, t = f * f * (3 - 2 * f);
+      return noiseHash(i + m.seed * 57) * (1 - t) + noiseHash(i + 1 + m.seed * 57) * t;
+    }
+    if (m.source === 'mouseX') return inputs.mouseX;
+    if (m.source === 'mouseY') return inputs.mouseY;
+    if (m.source === 'scroll') return inputs.scroll;
+    if (m.source === 'time') return phase;
+    return 0;
+  }
+  function modulate(target, base, time, inputs) {
+    var values = base.slice(), range = target.range;
+    target.bindings.forEach(function (m) {
+      var s = readSource(m, time, inputs), whole = Math.floor(s);
+      var amount = ((whole + CURVES[m.curve](s - whole)) * m.depth + m.offset) * range.span;
+      for (var i = 0; i < values.length; i++) if (m.component == null || m.component === i) values[i] += amount;
+    });
+    return convertValue(target, values.map(function (v) {
+      if (range.min !== null) v = Math.max(range.min, v);
+      if (range.max !== null) v = Math.min(range.max, v);
+      return v;
+    }));
+  }
+  function clamp01(v) { return Math.max(0, Math.min(1, v)); }
+
+  // --- Adaptive resolution (see components/AdaptiveResolution.ts) ---
+  function stepScale(scale, frameTime, settings) {
+    var load = frameTime / (1000 / settings.targetFps);
+    var next = scale;
+    if (load > ${DOWNSCALE_THRESHOLD}) next = scale * Math.max(${MAX_STEP_DOWN}, Math.sqrt(1 / load));
+    else if (load < ${UPSCALE_THRESHOLD}) next = scale * Math.min(${MAX_STEP_UP}, Math.sqrt(${UPSCALE_THRESHOLD} / load));
+    return Math.max(settings.minScale, Math.min(settings.maxScale, Math.round(next * 20) / 20));
+  }
+
+  async function start() {
+    if (!navigator.gpu) return showPoster('WebGPU is not available in this browser.');
+    var scene = await (await fetch('scene.json')).json();
+    var adapter = await navigator.gpu.requestAdapter();
+    if (!adapter) return showPoster('No GPU adapter.');
+    var device = await adapter.requestDevice();
+    device.lost.then(function (info) { showPoster(info.message); });
+
+    var context = canvas.getContext('webgpu');
+    var format = navigator.gpu.getPreferredCanvasFormat();
+    context.configure({ device: device, format: format, alphaMode: 'opaque' });
+
+    // --- Uniforms ---
+    var bytes = Uint8Array.from(atob(scene.uniforms.data), function (c) { return c.charCodeAt(0); });
+    var views = { f32: new Float32Array(bytes.buffer), i32: new Int32Array(bytes.buffer), u32: new Uint32Array(bytes.buffer) };
+    function write(name, value) {
+      var field = scene.uniforms.fields[name];
+      if (!field) return;
+      var values = typeof value === 'number' ? [value] : value;
+      for (var i = 0; i < Math.min(field.components, values.length); i++) views[field.scalar][field.offset / 4 + i] = values[i];
+    }
+    var uniformBuffer = device.createBuffer({ size: scene.uniforms.size, usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST });
+
+    // --- Channels (see components/TextureChannels.ts) ---
+    var linear = { magFilter: 'linear', minFilter: 'linear', addressModeU: 'clamp-to-edge', addressModeV: 'clamp-to-edge' };
+    var mipmapModule = device.createShaderModule({ code: MIPMAP_SHADER });
+    var mipmapPipelines = {};
+    function generateMipmaps(texture, format, levels) {
+      var pipeline = mipmapPipelines[format] || (mipmapPipelines[format] = device.createRenderPipeline({ layout: 'auto', vertex: { module: mipmapModule, entryPoint: 'vs_main' },
+        fragment: { module: mipmapModule, entryPoint: 'fs_main', targets: [{ format: format }] }, primitive: { topology: 'triangle-list' } }));
+      var encoder = device.createCommandEncoder();
+      for (var level = 1; level < levels; level++) {
+        var pass = encoder.beginRenderPass({ colorAttachments: [{ view: texture.createView({ baseMipLevel: level, mipLevelCount: 1 }), loadOp: 'clear', storeOp: 'store' }] });
+        pass.setPipeline(pipeline);
+        pass.setBindGroup(0, device.createBindGroup({ layout: pipeline.getBindGroupLayout(0), entries: [
+          { binding: 0, resource: texture.createView({ baseMipLevel: level - 1, mipLevelCount: 1 }) },
+          { binding: 1, resource: device.createSampler(linear) }
+        ] }));
+        pass.draw(3);
+        pass.end();
+      }
+      device.queue.submit([encoder.finish()]);
+    }
+    function uploadChannel(source, texture) {
+      device.queue.copyExternalImageToTexture({ source: source }, { texture: texture }, [texture.width, texture.height]);
+      if (texture.mipLevelCount > 1) generateMipmaps(texture, texture.format, texture.mipLevelCount);
+    }
+    // Videos loop muted and are copied again every frame
+    var videoChannels = [];
+    async function loadVideo(file) {
+      var video = document.createElement('video');
+      video.muted = true; video.loop = true; video.playsInline = true; video.src = file;
+      await new Promise(function (resolve, reject) {
+        video.addEventListener('loadeddata', resolve, { once: true });
+        video.addEventListener('error', function () { reject(new Error('Could not play ' + file)); }, { once: true });
+      });
+      video.play().catch(function () {});
+      return video;
+    }
+    var channelEntries = await Promise.all(scene.channels.map(async function (channel, i) {
+      var s = channel.sampler;
+      var texture;
+      if (channel.file) {
+        var source = channel.video ? await loadVideo(channel.file) : await createImageBitmap(await (await fetch(channel.file)).blob());
+        var width = channel.video ? source.videoWidth : source.width, height = channel.video ? source.videoHeight : source.height;
+        var levels = s.mipmaps ? Math.floor(Math.log2(Math.max(width, height, 1))) + 1 : 1;
+        texture = device.createTexture({ size: [width, height, 1], format: s.srgb ? 'rgba8unorm-srgb' : 'rgba8unorm', mipLevelCount: levels, usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST | GPUTextureUsage.RENDER_ATTACHMENT });
+        uploadChannel(source, texture);
+        if (channel.video) videoChannels.push({ video: source, texture: texture });
+      } else {
+        texture = device.createTexture({ size: [1, 1, 1], format: 'rgba8unorm', usage: GPUTextureUsage.TEXTURE_BINDING });
+      }
+      var sampler = device.createSampler({ magFilter: s.filter, minFilter: s.filter, mipmapFilter: s.mipmaps ? s.filter : 'nearest', addressModeU: s.address, addressModeV: s.address });
+      write('channel' + i + 'Size', [texture.width, texture.height]);
+      return [{ binding: 1 + i * 2, resource: texture.createView() }, { binding: 2 + i * 2, resource: sampler }];
+    }));
+
+    // --- Layouts (same slots as the designer) ---
+    var ALL = GPUShaderStage.FRAGMENT | GPUShaderStage.COMPUTE;
+    var mainLayout = device.createBindGroupLayout({ entries: [
+      { binding: 0, visibility: ALL | GPUShaderStage.VERTEX, buffer: { type: 'uniform' } }
+    ].concat(scene.channels.map(function (_, i) {
+      return [{ binding: 1 + i * 2, visibility: ALL, texture: {} }, { binding: 2 + i * 2, visibility: ALL, sampler: {} }];
+    }).flat()).concat([{ binding: AUDIO_BINDING, visibility: ALL, texture: {} }]) });
+    var feedbackLayout = device.createBindGroupLayout({ entries: BUFFER_SLOTS.map(function (_, i) {
+      return { binding: i, visibility: ALL, texture: { sampleType: 'float' } };
+    }).concat([{ binding: BUFFER_SLOTS.length, visibility: ALL, sampler: {} }]) });
+    var storageEntries = function (buffer, tex) {
+      var entries = [];
+      for (var i = 0; i < MAX_STORAGE_BUFFERS; i++) entries.push(Object.assign({ binding: i }, buffer));
+      for (var j = 0; j < MAX_STORAGE_TEXTURES; j++) entries.push(Object.assign({ binding: MAX_STORAGE_BUFFERS + j }, tex));
+      return entries;
+    };
+    var storageCompute = device.createBindGroupLayout({ entries: storageEntries(
+      { visibility: GPUShaderStage.COMPUTE, buffer: { type: 'storage' } },
+      { visibility: GPUShaderStage.COMPUTE, storageTexture: { access: 'write-only', format: STORAGE_FORMAT } }) });
+    var storageRender = device.createBindGroupLayout({ entries: storageEntries(
+      { visibility: GPUShaderStage.FRAGMENT, buffer: { type: 'read-only-storage' } },
+      { visibility: GPUShaderStage.FRAGMENT, texture: { sampleType: 'float' } }) });
+    var renderLayout = device.createPipelineLayout({ bindGroupLayouts: [mainLayout, feedbackLayout, storageRender] });
+    var computeLayout = device.createPipelineLayout({ bindGroupLayouts: [mainLayout, feedbackLayout, storageCompute] });
+
+    // No audio source here: a silent spectrum and a centered waveform
+    var audioTexture = device.createTexture({ size: [AUDIO_WIDTH, 2, 1], format: '${AUDIO_TEXTURE_FORMAT}', usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST });
+    var silence = new Uint8Array(AUDIO_WIDTH * 2).fill(128, AUDIO_WIDTH);
+    device.queue.writeTexture({ texture: audioTexture }, silence, { bytesPerRow: AUDIO_WIDTH }, [AUDIO_WIDTH, 2, 1]);
+
+    var mainGroup = device.createBindGroup({ layout: mainLayout, entries: [
+      { binding: 0, resource: { buffer: uniformBuffer } }
+    ].concat(channelEntries.flat(), [{ binding: AUDIO_BINDING, resource: audioTexture.createView() }]) });
+
+    // --- Storage ---
+    var setup = scene.compute;
+    var storageBuffers = (setup ? setup.buffers : []).map(function (d) {
+      return device.createBuffer({ size: Math.max(16, Math.ceil(d.size / 4) * 4), usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST });
+    });
+    var storageTextures = (setup ? setup.textures : []).map(function (d) {
+      return device.createTexture({ size: [Math.max(1, d.width), Math.max(1, d.height), 1], format: STORAGE_FORMAT, usage: GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.TEXTURE_BINDING });
+    });
+    var placeholderBuffer = device.createBuffer({ size: 16, usage: GPUBufferUsage.STORAGE });
+    var placeholderStorage = device.createTexture({ size: [1, 1, 1], format: STORAGE_FORMAT, usage: GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.TEXTURE_BINDING });
+    var storageResources = function () {
+      var entries = [];
+      for (var i = 0; i < MAX_STORAGE_BUFFERS; i++) entries.push({ binding: i, resource: { buffer: storageBuffers[i] || placeholderBuffer } });
+      for (var j = 0; j < MAX_STORAGE_TEXTURES; j++) entries.push({ binding: MAX_STORAGE_BUFFERS + j, resource: (storageTextures[j] || placeholderStorage).createView() });
+      return entries;
+    };
+    var computeGroup = device.createBindGroup({ layout: storageCompute, entries: storageResources() });
+    var renderGroup = device.createBindGroup({ layout: storageRender, entries: storageResources() });
+
+    // --- Pipelines ---
+    async function createModule(code, label) {
+      var module = device.createShaderModule({ code: code, label: label });
+      var info = await module.getCompilationInfo();
+      var errors = info.messages.filter(function (m) { return m.type === 'error'; });
+      if (errors.length > 0) throw new Error(label + ': ' + errors[0].message);
+      return module;
+    }
+    function renderPipeline(module, entryPoint, targetFormat) {
+      return device.createRenderPipeline({
+        layout: renderLayout,
+        vertex: { module: module, entryPoint: 'vs_main' },
+        fragment: { module: module, entryPoint: entryPoint, targets: [{ format: targetFormat }] },
+        primitive: { topology: 'triangle-list' }
+      });
+    }
+
+    var computePipelines = [];
+    if (setup) {
+      var computeModule = await createModule(await loadText(setup.file), 'Compute');
+      computePipelines = setup.stages.map(function (stage) {
+        return { pipeline: device.createComputePipeline({ layout: computeLayout, compute: { module: computeModule, entryPoint: stage.entryPoint } }), workgroups: stage.workgroups };
+      });
+    }
+    var passes = [];
+    for (var p = 0; p < scene.passes.length; p++) {
+      var pass = scene.passes[p];
+      passes.push({ id: pass.id, pipeline: renderPipeline(await createModule(await loadText(pass.file), pass.id), pass.entryPoint, FEEDBACK_FORMAT) });
+    }
+    var imagePipeline = renderPipeline(await createModule(await loadText(scene.image), 'Image'), 'fs_main', HDR_FORMAT);
+
+    // --- Feedback targets ---
+    var targets = {};
+    var feedbackSampler = device.createSampler(linear);
+    var placeholder = device.createTexture({ size: [1, 1, 1], format: FEEDBACK_FORMAT, usage: GPUTextureUsage.TEXTURE_BINDING });
+    function syncTargets(width, height) {
+      passes.forEach(function (pass) {
+        var t = targets[pass.id];
+        if (t && t.width === width && t.height === height) return;
+        if (t) { t.textures[0].destroy(); t.textures[1].destroy(); }
+        var create = function () {
+          return device.createTexture({ size: [width, height, 1], format: FEEDBACK_FORMAT, usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING });
+        };
+        targets[pass.id] = { textures: [create(), create()], read: 0, width: width, height: height };
+      });
+    }
+    function feedbackGroup() {
+      return device.createBindGroup({ layout: feedbackLayout, entries: BUFFER_SLOTS.map(function (id, i) {
+        var t = targets[id];
+        return { binding: i, resource: t ? t.textures[t.read].createView() : placeholder.createView() };
+      }).concat([{ binding: BUFFER_SLOTS.length, resource: feedbackSampler }]) });
+    }
+
+    // --- Post stack (see components/PostStack.ts) ---
+    // The Image pass renders HDR into ping[0]; stages ping-pong between the
+    // targets and fs_output copies the result to the canvas, upscaling it
+    var postLayout = device.createBindGroupLayout({ entries: [
+      { binding: 0, visibility: GPUShaderStage.FRAGMENT, texture: {} },
+      { binding: 1, visibility: GPUShaderStage.FRAGMENT, sampler: {} },
+      { binding: 2, visibility: GPUShaderStage.FRAGMENT, buffer: { type: 'uniform' } },
+      { binding: 3, visibility: GPUShaderStage.FRAGMENT, texture: {} },
+      { binding: 4, visibility: GPUShaderStage.FRAGMENT, texture: { sampleType: 'unfilterable-float', viewDimension: '3d' } }
+    ] });
+    var postPipelineLayout = device.createPipelineLayout({ bindGroupLayouts: [postLayout] });
+    var postModule = await createModule(POST_SHADER, 'Post');
+    function postPipeline(entryPoint, targetFormat) {
+      return device.createRenderPipeline({
+        layout: postPipelineLayout,
+        vertex: { module: postModule, entryPoint: 'vs_main' },
+        fragment: { module: postModule, entryPoint: entryPoint, targets: [{ format: targetFormat }] },
+        primitive: { topology: 'triangle-list' }
+      });
+    }
+    var postStages = scene.post.stages.map(function (id) { return { id: id, pipeline: postPipeline(POST_ENTRY_POINTS[id], HDR_FORMAT) }; });
+    var outputPipeline = postPipeline('fs_output', format);
+    var postSampler = device.createSampler(linear);
+    var postUniforms = new Float32Array(scene.post.uniforms);
+    var postBuffer = device.createBuffer({ size: postUniforms.byteLength, usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST });
+    var lutSize = scene.post.lut ? scene.post.lut.size : 1;
+    var lut = device.createTexture({ size: [lutSize, lutSize, lutSize], dimension: '3d', format: LUT_FORMAT, usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST });
+    if (scene.post.lut) {
+      var texels = new Float32Array(await (await fetch(scene.post.lut.file)).arrayBuffer());
+      device.queue.writeTexture({ texture: lut }, texels, { bytesPerRow: lutSize * 16, rowsPerImage: lutSize }, [lutSize, lutSize, lutSize]);
+    }
+    var lutView = lut.createView();
+    var postTargets = null;
+    function getPostTargets(width, height) {
+      if (postTargets && postTargets.width === width && postTargets.height === height) return postTargets;
+      if (postTargets) postTargets.ping.concat(postTargets.bloom).forEach(function (t) { t.destroy(); });
+      var create = function (w, h) {
+        return device.createTexture({ size: [w, h, 1], format: HDR_FORMAT, usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING });
+      };
+      var halfWidth = Math.max(1, Math.ceil(width / 2)), halfHeight = Math.max(1, Math.ceil(height / 2));
+      postTargets = { width: width, height: height, ping: [create(width, height), create(width, height)], bloom: [create(halfWidth, halfHeight), create(halfWidth, halfHeight)] };
+      return postTargets;
+    }
+    function postPass(encoder, pipeline, source, target, aux) {
+      var pass = encoder.beginRenderPass({ colorAttachments: [{ view: target, clearValue: { r: 0, g: 0, b: 0, a: 1 }, loadOp: 'clear', storeOp: 'store' }] });
+      pass.setPipeline(pipeline);
+      pass.setBindGroup(0, device.createBindGroup({ layout: postLayout, entries: [
+        { binding: 0, resource: source },
+        { binding: 1, resource: postSampler },
+        { binding: 2, resource: { buffer: postBuffer } },
+        { binding: 3, resource: aux || source },
+        { binding: 4, resource: lutView }
+      ] }));
+      pass.draw(3);
+      pass.end();
+    }
+    function encodePost(encoder, targets, canvasView) {
+      var ping = targets.ping.map(function (t) { return t.createView(); });
+      var bloom = targets.bloom.map(function (t) { return t.createView(); });
+      var current = 0;
+      postStages.forEach(function (stage) {
+        if (stage.id === 'bright') postPass(encoder, stage.pipeline, ping[current], bloom[0]);
+        else if (stage.id === 'blurH') postPass(encoder, stage.pipeline, bloom[0], bloom[1]);
+        else if (stage.id === 'blurV') postPass(encoder, stage.pipeline, bloom[1], bloom[0]);
+        else {
+          postPass(encoder, stage.pipeline, ping[current], ping[1 - current], stage.id === 'bloom' ? bloom[0] : null);
+          current = 1 - current;
+        }
+      });
+      postPass(encoder, outputPipeline, ping[current], canvasView);
+    }
+
+    // --- Resolution ---
+    var resolution = scene.resolution;
+    var scale = resolution.maxScale;
+    var timing = { total: 0, samples: 0, start: performance.now(), pending: false };
+    // Submit-to-completion time of one frame at a time, averaged per window
+    function measure(submittedAt) {
+      if (!resolution.enabled || timing.pending) return;
+      timing.pending = true;
+      device.queue.onSubmittedWorkDone().then(function () {
+        var now = performance.now();
+        timing.pending = false;
+        timing.total += now - submittedAt;
+        timing.samples++;
+        if (now - timing.start < ${RESOLUTION_WINDOW_MS}) return;
+        scale = stepScale(scale, timing.total / timing.samples, resolution);
+        timing.total = 0; timing.samples = 0; timing.start = now;
+      });
+    }
+
+    // --- Input ---
+    var pose = scene.camera;
+    var orbit = { theta: pose.theta, phi: pose.phi, radius: pose.radius, dragging: false, lastX: 0, lastY: 0 };
+    var mouse = { x: 0, y: 0, down: 0 };
+    var scrollY = 0;
+    var modulated = {};
+    scene.modulations.forEach(function (target) { modulated[target.target] = true; });
+
+    canvas.addEventListener('pointerdown', function (e) {
+      canvas.setPointerCapture(e.pointerId);
+      orbit.dragging = true; orbit.lastX = e.clientX; orbit.lastY = e.clientY; mouse.down = 1;
+    });
+    canvas.addEventListener('pointermove', function (e) {
+      var rect = canvas.getBoundingClientRect();
+      mouse.x = e.clientX - rect.left; mouse.y = e.clientY - rect.top;
+      if (!orbit.dragging) return;
+      orbit.theta -= (e.clientX - orbit.lastX) * 0.005;
+      orbit.phi = Math.max(-MAX_PHI, Math.min(MAX_PHI, orbit.phi + (e.clientY - orbit.lastY) * 0.005));
+      orbit.lastX = e.clientX; orbit.lastY = e.clientY;
+    });
+    var release = function () { orbit.dragging = false; mouse.down = 0; };
+    canvas.addEventListener('pointerup', release);
+    canvas.addEventListener('pointerleave', release);
+    canvas.addEventListener('wheel', function (e) {
+      orbit.radius = Math.max(MIN_RADIUS, Math.min(MAX_RADIUS, orbit.radius + e.deltaY * 0.005));
+    }, { passive: true });
+
+    var scroller = document.querySelector('[data-hero-scroll]');
+    var progress = document.querySelector('[data-hero-progress]');
+    if (scroller) scroller.addEventListener('scroll', function () {
+      scrollY = scroller.scrollTop * 0.001;
+      var total = scroller.scrollHeight - scroller.clientHeight;
+      if (progress && total > 0) progress.style.width = (scroller.scrollTop / total * 100) + '%';
+    });
+
+    // --- Frame loop ---
+    var startTime = performance.now();
+    var lastTime = 0, frameCount = 0;
+    function frame(now) {
+      var dpr = window.devicePixelRatio || 1;
+      var canvasWidth = Math.floor(canvas.clientWidth * dpr), canvasHeight = Math.floor(canvas.clientHeight * dpr);
+      if (canvasWidth === 0 || canvasHeight === 0) { requestAnimationFrame(frame); return; }
+      if (canvas.width !== canvasWidth || canvas.height !== canvasHeight) { canvas.width = canvasWidth; canvas.height = canvasHeight; }
+      var width = Math.max(1, Math.round(canvasWidth * scale)), height = Math.max(1, Math.round(canvasHeight * scale));
+
+      var time = (now - startTime) * 0.001;
+      var theta = orbit.theta + pose.autoOrbit * time, phi = orbit.phi, radius = orbit.radius, fov = pose.fov, roll = pose.roll;
+      var trackValues = {}; // Timeline values of modulated params, written after modulation
+      if (scene.timeline) {
+        var t = wrapTime(scene.timeline, time);
+        scene.timeline.tracks.forEach(function (track) {
+          var value = evaluateTrack(track.keyframes, t);
+          if (!value) return;
+          if (track.target === 'camera.theta') theta = value[0];
+          else if (track.target === 'camera.phi') phi = value[0];
+          else if (track.target === 'camera.radius') radius = value[0];
+          else if (track.target === 'camera.fov') fov = value[0];
+          else if (track.target === 'camera.roll') roll = value[0];
+          else if (modulated[track.target]) trackValues[track.target] = value;
+          else write(track.target, convertValue(track, value));
+        });
+      }
+      var inputs = { mouseX: clamp01(mouse.x / canvasWidth), mouseY: clamp01(mouse.y / canvasHeight), scroll: clamp01(scrollY) };
+      scene.modulations.forEach(function (target) {
+        write(target.target, modulate(target, trackValues[target.target] || target.value, time, inputs));
+      });
+      var cam = cameraFrame(pose, theta, phi, radius, fov, roll);
+
+      write('resolution', [width, height]);
+      write('time', time);
+      write('dt', frameCount === 0 ? 0 : time - lastTime);
+      write('frame', frameCount);
+      lastTime = time;
+      frameCount++;
+      write('cameraPos', cam.position.concat([cam.fov]));
+      write('cameraTarget', cam.target.concat([cam.roll]));
+      write('cameraUp', cam.up.concat([0]));
+      write('mouse', [mouse.x / canvasWidth, mouse.y / canvasHeight, mouse.down, scrollY]);
+      write('scrollY', scrollY);
+      device.queue.writeBuffer(uniformBuffer, 0, bytes.buffer);
+      videoChannels.forEach(function (v) { if (v.video.readyState >= 2) uploadChannel(v.video, v.texture); });
+      postUniforms[POST_INDEX.frameWidth] = width; postUniforms[POST_INDEX.frameHeight] = height;
+      postUniforms[POST_INDEX.chromatic] = scene.post.chromatic + Math.max(0, Math.min(1, scrollY)) * scene.post.scrollChromatic;
+      postUniforms[POST_INDEX.grainSeed] = Math.floor(time * 60);
+      device.queue.writeBuffer(postBuffer, 0, postUniforms);
+
+      var encoder = device.createCommandEncoder();
+      syncTargets(width, height);
+      if (computePipelines.length > 0) {
+        var cp = encoder.beginComputePass();
+        computePipelines.forEach(function (stage) {
+          cp.setPipeline(stage.pipeline);
+          cp.setBindGroup(0, mainGroup);
+          cp.setBindGroup(1, feedbackGroup());
+          cp.setBindGroup(2, computeGroup);
+          cp.dispatchWorkgroups(stage.workgroups[0], stage.workgroups[1], stage.workgroups[2]);
+        });
+        cp.end();
+      }
+      passes.forEach(function (pass) {
+        var target = targets[pass.id];
+        var rp = encoder.beginRenderPass({ colorAttachments: [{ view: target.textures[1 - target.read].createView(), clearValue: { r: 0, g: 0, b: 0, a: 1 }, loadOp: 'clear', storeOp: 'store' }] });
+        rp.setPipeline(pass.pipeline);
+        rp.setBindGroup(0, mainGroup);
+        rp.setBindGroup(1, feedbackGroup());
+        rp.setBindGroup(2, renderGroup);
+        rp.draw(6);
+        rp.end();
+        target.read = 1 - target.read;
+      });
+      var postTarget = getPostTargets(width, height);
+      var main = encoder.beginRenderPass({ colorAttachments: [{ view: postTarget.ping[0].createView(), clearValue: { r: 0, g: 0, b: 0, a: 1 }, loadOp: 'clear', storeOp: 'store' }] });
+      main.setPipeline(imagePipeline);
+      main.setBindGroup(0, mainGroup);
+      main.setBindGroup(1, feedbackGroup());
+      main.setBindGroup(2, renderGroup);
+      main.draw(6);
+      main.end();
+      encodePost(encoder, postTarget, context.getCurrentTexture().createView());
+      device.queue.submit([encoder.finish()]);
+      measure(performance.now());
+      requestAnimationFrame(frame);
+    }
+    requestAnimationFrame(frame);
+  }
+
+  start().catch(function (e) { showPoster(e && e.message ? e.message : String(e)); });
+})();
+`;
+
+const README = (input: HeroExportInput) => `${input.name}
+${'='.repeat(input.name.length)}
+
+Exported from the Hero Section Designer.
+
+Serve this folder from any static host (WebGPU needs https or localhost) and
+open index.html. Browsers without WebGPU show poster.jpg instead.
+
+  index.html       Layout markup (${input.layout}) and the canvas
+  hero-runtime.js  WebGPU runtime, no dependencies
+  scene.json       Uniform layout, baked params, camera, scroll, timeline,
+                   post stack and adaptive resolution (edit "resolution" to
+                   tune it)
+  shaders/         WGSL modules
+  textures/        Channel images (channelN.png) and videos (channelN.mp4 / .webm)
+${input.grade ? `  lut.bin          Color grade: ${input.grade.lut.size}^3 RGBA float32 texels, red fastest
+` : ''}`;
+
+// Throws when the Image pass has no valid Uniforms struct. Images are already
+// compressed, so they are stored as-is.
+export const createHeroBundle = async (input: HeroExportInput): Promise<Blob> => {
+  const scene = buildScene(input);
+  const files: Zippable = {
+    'index.html': strToU8(createPage(input)),
+    'hero-runtime.js': strToU8(createRuntime()),
+    'scene.json': strToU8(JSON.stringify(scene, null, 2)),
+    'README.txt': strToU8(README(input)),
+    'shaders/image.wgsl': strToU8(input.shaderCode),
+  };
+  input.passes.forEach(p => { files[`shaders/${p.id}.wgsl`] = strToU8(p.code); });
+  if (input.compute) files['shaders/compute.wgsl'] = strToU8(input.compute.code);
+  if (input.grade) files['lut.bin'] = new Uint8Array(input.grade.lut.data.buffer, input.grade.lut.data.byteOffset, input.grade.lut.data.byteLength);
+  await Promise.all(scene.channels.map(async (channel, i) => {
+    const blob = channel.video ? input.videos?.[i] : input.textures[i];
+    if (channel.file && blob) files[channel.file] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+  }));
+  if (input.poster) files['poster.jpg'] = [new Uint8Array(await input.poster.arrayBuffer()), { level: 0 }];
+  return new Blob([zipSync(files, { level: 6 })], { type: 'application/zip' });
+};
@@ -0,0 +1,1543 @@
+import { ShaderError, ShaderParam, VideoConfig, ScrollEffectType, ScrollParams, BufferPass, ComputeSetup, PassId, UniformLayout, Timeline, TimelinePlayback, CameraPose, ResolutionSettings, StillConfig, PostSettings, TextureChannel, TextureImportOptions, AudioSettings, Modulation, TransportSettings } from '../types';
+import { calculateUniformLayout, validateUniformLayout, createUniformData, writeUniform, writeParamsToBuffer, SCROLL_EFFECT_INDEX } from './ShaderParams';
+import { reflectStruct, describeStructMismatch } from './WgslReflection';
+import { StorageLayouts, StorageResources, StorageBindGroups, createStorageLayouts, createStorageResources, createStoragePlaceholders, createStorageBindGroups, destroyStorageResources, getStorageKey } from './StorageResources';
+import { DEFAULT_CAMERA, MIN_CAMERA_RADIUS, MAX_CAMERA_RADIUS, MAX_CAMERA_PHI, getCameraFrame } from './Camera';
+import { createTimeline, hasKeyframes, sampleTimeline, applyTimelineToParams, wrapTimelineTime } from './Timeline';
+import { EXPORT_WIDTH, EXPORT_HEIGHT, VideoExporter, createVideoExporter } from './VideoExport';
+import { StillTile, STILL_TILE_SIZE, MAX_STILL_SIZE, planTiles, getTileRegion, getTileRect, createReadbackBuffer, copyTileToBuffer, readTile, createPngWriter, getSampleJitter, getSampleTimeOffset, createAccumulator, destroyAccumulator, clearAccumulator, accumulateSample, readAccumulatedTile } from './TiledCapture';
+import { FrameProfile, GpuProfiler, BenchmarkScene, BenchmarkOptions, BenchmarkReport, BenchmarkResult, TIMESTAMP_FEATURE, BENCHMARK_WARMUP_FRAMES, createGpuProfiler, destroyGpuProfiler, getTimestampWrites, resolveTimestamps, readTimestamps, summarizeBenchmark } from './Profiler';
+import { createResolutionController, configureResolution, addFrameTime, getRenderSize, DEFAULT_RESOLUTION } from './AdaptiveResolution';
+import { HDR_FORMAT, PASSTHROUGH_POST, SCROLL_CHROMATIC_STRENGTH, PostPipelines, PostTargets, createPostPipelines, destroyPostPipelines, createPostTargets, destroyPostTargets, getPostStages, getChromaticStrength, getPostMargin, createPostUniforms, encodePostStack, setPostLut } from './PostStack';
+import { LutGrade } from './ColorLut';
+import { TextureSource, DEFAULT_TEXTURE_IMPORT, prepareTextureCanvas } from './TextureImport';
+import { MAX_CHANNELS, DEFAULT_CHANNELS, getChannelBindings, getChannelSampler, getChannelFormat, getSourceSize, createChannelLayoutEntries, createChannelSampler, createChannelTexture, updateChannelTexture } from './TextureChannels';
+import { isVideoReady, releaseVideo, seekVideo } from './VideoSources';
+import { applyModulations } from './Modulation';
+import { FrameStep, DEFAULT_TRANSPORT, STEP_FPS, createClock, readClock, seekClock, advanceClock, wrapLoopTime } from './Transport';
+import { AudioSource, AudioEnvelope, AudioFrame, AUDIO_TEXTURE_BINDING, AUDIO_TEXTURE_FORMAT, AUDIO_TEXTURE_WIDTH, DEFAULT_AUDIO_SETTINGS, createAudioAnalyzer, createSilentFrame, readAudioSource, renderAudioTrack, analyzeAudio, sampleAudioEnvelope } from './AudioSources';
+import { FEEDBACK_FORMAT, BUFFER_SLOTS, FeedbackTargets, createFeedbackBindGroupLayout, createPlaceholderTexture, syncFeedbackTargets, destroyFeedbackTarget, getWriteView, swapFeedbackTarget, createFeedbackBindGroup } from './RenderGraph';
+
+// --- WebGPU Type Stubs ---
+type GPUDevice = any;
+type GPUCanvasContext = any;
+type GPURenderPipeline = any;
+type GPUBuffer = any;
+type GPUBindGroup = any;
+type GPUBindGroupLayout = any;
+type GPUPipelineLayout = any;
+type GPUComputePipeline = any;
+type GPUTexture = any;
+type GPUTextureView = any;
+type GPUSampler = any;
+declare const GPUBufferUsage: any;
+declare const GPUShaderStage: any;
+declare const GPUTextureUsage: any;
+
+// --- Hero Runtime ---
+// Owns the whole GPU lifecycle of one canvas: device, pipelines, buffers,
+// textures and the frame loop. No React; the designer's WebGPURenderer is a
+// thin wrapper and other sites can embed it directly:
+//
+//   const hero = new HeroRuntime();
+//   hero.setParams(params);
+//   await hero.setShader(code);
+//   await hero.mount(canvas);
+//   hero.play();
+
+export const getErrorMessage = (err: any): string => {
+  if (err === undefined) return "Undefined Error";
+  if (err === null) return "Null Error";
+  if (typeof err === 'string') return err;
+  if (err.reason !== undefined && err.message !== undefined) return `Device Lost (${err.reason}): ${err.message}`;
+  if (err.message !== undefined) return String(err.message);
+  if (err instanceof Error) return `${err.name}: ${err.message}`;
+  try { const json = JSON.stringify(err); if (json !== '{}') return json; } catch (e) {}
+  return String(err);
+};
+
+export const TEXTURE_SIZE = 1024; // Side of the placeholder texture
+const EXPORT_ABERRATION_SCALE = 0.05; // Chromatic strength at the export dialog's full aberration
+export const MAX_RECOVERY_ATTEMPTS = 3;
+const RECOVERY_DELAY_MS = 1000; // Multiplied by the attempt number
+const RECOVERY_RESET_MS = 60000;
+const MAX_AUDIO_STEP_MS = 100; // Longest gap between live audio frames the smoothing sees
+
+export interface FrameStats {
+  time: number; // Shader time of the frame, seconds
+  cpuTime: number; // Milliseconds spent recording and submitting it
+  fps: number; // Frames presented over the last second
+  width: number; // Internal render size, before the upscale to the canvas
+  height: number;
+  scale: number; // Adaptive resolution scale of the preview
+}
+
+export interface CameraReading {
+  theta: number;
+  phi: number;
+  radius: number;
+  fov: number;
+  roll: number;
+}
+
+export interface HeroRuntimeEvents {
+  error: ShaderError;
+  clearError: PassId; // That pass compiled again, or is gone; its errors are stale
+  frame: FrameStats;
+  recovered: number; // A lost device was replaced; payload is the attempt that succeeded
+  profile: FrameProfile; // Emitted only while someone listens; timing every frame has a cost
+}
+
+type Listener<T> = (payload: T) => void;
+
+// --- Textures ---
+// Placeholder bound to every channel without an image
+export const createDefaultTextureCanvas = (): HTMLCanvasElement => {
+  const size = TEXTURE_SIZE;
+  const canvas = document.createElement('canvas');
+  canvas.width = size; canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    // Smooth, High-End Gradient - Less Noisy
+    const grd = ctx.createLinearGradient(0, 0, size, size);
+    grd.addColorStop(0, '#0a0a0a');
+    grd.addColorStop(1, '#1f1f1f');
+    ctx.fillStyle = grd;
+    ctx.fillRect(0, 0, size, size);
+
+    // Soft Glow
+    const rad = ctx.createRadialGradient(size/2, size/2, 0, size/2, size/2, size/2);
+    rad.addColorStop(0, 'rgba(255, 255, 255, 0.05)');
+    rad.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    ctx.fillStyle = rad;
+    ctx.fillRect(0, 0, size, size);
+
+    // Minimal Tech Lines (Clean)
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.03)';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(0, size/2); ctx.lineTo(size, size/2);
+    ctx.moveTo(size/2, 0); ctx.lineTo(size/2, size);
+    ctx.stroke();
+
+    // Placeholder Text
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.15)';
+    ctx.font = 'bold 80px "Inter", sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('NO TEXTURE', size/2, size/2);
+  }
+  return canvas;
+};
+
+// GPU copy of one channel and what it was built from
+interface ChannelTexture {
+  texture: GPUTexture;
+  source: HTMLCanvasElement | HTMLVideoElement;
+  format: string;
+  mipmaps: boolean;
+}
+
+// --- Runtime ---
+export class HeroRuntime {
+  // Scene state, settable before or after mount
+  private shaderCode = '';
+  private passes: BufferPass[] = [];
+  private compute?: ComputeSetup;
+  private params: ShaderParam[] = [];
+  private modulations: Modulation[] = [];
+  private scrollY = 0;
+  private scrollEffect: ScrollEffectType = 'none';
+  private scrollParams: ScrollParams = { strength: 0.5, speed: 0.5 };
+  private textureScale = { x: 1, y: 1 };
+  private textureOffset = { x: 0, y: 0 };
+  private timeline: Timeline = createTimeline();
+  private timelinePlayback: TimelinePlayback = { enabled: false, playing: true, time: 0 };
+  private playbackStart = 0; // Transport time when `timelinePlayback.time` was last set
+  private timelineTime = 0;
+  private audio: AudioSource | null = null;
+  private audioAnalyzer = createAudioAnalyzer(DEFAULT_AUDIO_SETTINGS);
+  private audioFrame: AudioFrame = createSilentFrame(); // Advanced by live frames only, so stills keep it
+  private audioReadAt = 0;
+  private audioOverride: ((time: number) => AudioFrame) | null = null; // Exports play the offline analysis
+  private post: PostSettings | null = null; // Null for shaders that tone map themselves
+  private grade: LutGrade | null = null;
+
+  // Camera: orbit starts at the pose; drag and wheel move it from there
+  private pose: CameraPose = DEFAULT_CAMERA;
+  private orbit = { theta: DEFAULT_CAMERA.theta, phi: DEFAULT_CAMERA.phi, radius: DEFAULT_CAMERA.radius, isDragging: false, lastX: 0, lastY: 0 };
+  private mouse = { x: 0, y: 0, isDown: 0 };
+  private lastCamera: CameraReading = { theta: 0.0, phi: 0.0, radius: 4.5, fov: 60, roll: 0 };
+
+  // GPU state
+  private canvas: HTMLCanvasElement | null = null;
+  private device: GPUDevice | null = null;
+  private context: GPUCanvasContext | null = null;
+  private pipeline: GPURenderPipeline | null = null;
+  private uniformBuffer: GPUBuffer | null = null;
+  private uniformLayout: UniformLayout | null = null; // Reflected from the Image pass
+  private uniformLayoutCode = '';
+  private bindGroup: GPUBindGroup | null = null;
+  private channels: TextureChannel[] = DEFAULT_CHANNELS;
+  private channelSources: (HTMLCanvasElement | HTMLVideoElement | null)[] = new Array(MAX_CHANNELS).fill(null); // CPU copies or videos, null = placeholder
+  private channelTextures: (ChannelTexture | null)[] = [];
+  private channelSamplers: GPUSampler[] = [];
+  private channelPlaceholder: GPUTexture | null = null;
+  private audioTexture: GPUTexture | null = null;
+  private uploadedAudio: AudioFrame | null = null; // Frame the audio texture holds
+  private bindGroupLayout: GPUBindGroupLayout | null = null;
+  private pipelineLayout: GPUPipelineLayout | null = null;
+
+  // Render Graph State (offscreen buffer passes)
+  private passPipelines: Record<string, GPURenderPipeline> = {};
+  private compiledPasses: Record<string, string> = {}; // Source each pass pipeline was built from
+  private feedbackTargets: FeedbackTargets = {};
+  private feedbackLayout: GPUBindGroupLayout | null = null;
+  private feedbackSampler: GPUSampler | null = null;
+  private placeholderTexture: GPUTexture | null = null;
+
+  // Compute State (dispatched before every render pass)
+  private computePipelines: (GPUComputePipeline | null)[] = [];
+  private compiledCompute = '';
+  private computePipelineLayout: GPUPipelineLayout | null = null;
+  private storageLayouts: StorageLayouts | null = null;
+  private storageResources: StorageResources | null = null;
+  private storageBindGroups: StorageBindGroups | null = null;
+  private storagePlaceholders: ReturnType<typeof createStoragePlaceholders> | null = null;
+
+  // Adaptive Resolution State (preview only; stills and exports render at full size)
+  private resolution = createResolutionController(DEFAULT_RESOLUTION);
+  // Post Stack State (the Image pass renders HDR into postTargets)
+  private postPipelines: PostPipelines | null = null;
+  private postTargets: PostTargets | null = null;
+
+  // Profiling State
+  private profiler: GpuProfiler | null = null; // Null without timestamp-query
+  private adapterInfo = { vendor: '', architecture: '', description: '' };
+  private gpuTimingPending = false; // One frame is timed at a time
+  private lastDraw = { cpuTime: 0, uploadTime: 0 };
+  private lastFrameAt = 0;
+  private benchmarking = false;
+  private benchmarkCancelled = false;
+
+  // Loop State
+  private playing = false;
+  private frameRequest: number | null = null;
+  private transport: TransportSettings = { ...DEFAULT_TRANSPORT, playing: false };
+  private clock = createClock();
+  private dirty = true; // A paused runtime draws one frame when set
+  private lastStep: FrameStep = { time: 0, dt: 0, frame: 0 }; // Of the last preview frame; stills reuse it
+  private simulationReset = true; // Storage or feedback buffers were recreated and not stepped since
+  private hasError = false;
+  private supported = true;
+  private disposed = false;
+
+  // Device Recovery State
+  private recoveryAttempts = 0;
+  private recoveredAt = 0; // performance.now() of the last successful recovery
+  private recoveryTimer: number | null = null;
+  private fpsWindow = { start: performance.now(), frames: 0, fps: 0 };
+
+  // Capture and export State
+  private stillQuality = 0; // Non-zero while a still renders
+  private capturing = false; // A still drives frames itself while set
+  private stillClock: { time: number, timeline: number | null } | null = null; // Playhead frozen for a still
+  private captureCancelled = false;
+  private frameReaders: ((canvas: HTMLCanvasElement | null) => void)[] = [];
+  private recordingConfig: VideoConfig | null = null; // Exports drive frames themselves while set
+  private exportCancelled = false;
+
+  private listeners: Partial<Record<keyof HeroRuntimeEvents, Set<Listener<any>>>> = {};
+  private detachInput: (() => void) | null = null;
+
+  // --- Events ---
+  on<K extends keyof HeroRuntimeEvents>(event: K, listener: Listener<HeroRuntimeEvents[K]>): () => void {
+    const set = (this.listeners[event] ||= new Set());
+    set.add(listener);
+    return () => { set.delete(listener); };
+  }
+
+  private emit<K extends keyof HeroRuntimeEvents>(event: K, payload: HeroRuntimeEvents[K]) {
+    if (this.disposed) return;
+    this.listeners[event]?.forEach(listener => listener(payload));
+  }
+
+  // --- Lifecycle ---
+  // Resolves false when the runtime could not start; the reason is emitted as
+  // an error and `isSupported` tells a missing WebGPU from a failed setup
+  async mount(canvas: HTMLCanvasElement): Promise<boolean> {
+    const gpu = (navigator as any).gpu;
+    if (!gpu) { this.supported = false; this.emit('error', { type: 'compilation', message: "WebGPU not supported." }); return false; }
+
+    try {
+      const adapter = await gpu.requestAdapter();
+      if (!adapter) { this.supported = false; this.emit('error', { type: 'compilation', message: "No GPU adapter." }); return false; }
+      this.canvas = canvas;
+      this.detachInput = this.attachInput(canvas);
+      return await this.createResources(adapter);
+    } catch (err: any) {
+      this.emit('error', { type: 'compilation', message: getErrorMessage(err) });
+      return false;
+    }
+  }
+
+  get isSupported() { return this.supported; }
+
+  dispose() {
+    this.disposed = true;
+    this.stopLoop();
+    this.exportCancelled = true;
+    if (this.recoveryTimer !== null) clearTimeout(this.recoveryTimer);
+    this.detachInput?.();
+    this.detachInput = null;
+    this.releaseResources();
+    this.channelSources.forEach(source => { if (source instanceof HTMLVideoElement) releaseVideo(source); });
+    this.frameReaders.splice(0).forEach(read => read(null));
+    this.device?.destroy();
+    this.device = null;
+  }
+
+  // Creates the device and every GPU object from the retained CPU-side scene
+  // (shader code, passes, params, texture canvas), so the same path serves
+  // the first mount and device-lost recovery. Resolves false if disposed meanwhile.
+  private async createResources(adapter: any): Promise<boolean> {
+    const canvas = this.canvas!;
+    // Timestamp queries are opt-in; without them the profiler falls back to CPU timing
+    const requiredFeatures = adapter.features.has(TIMESTAMP_FEATURE) ? [TIMESTAMP_FEATURE] : [];
+    const device = await adapter.requestDevice({ requiredFeatures });
+    if (this.disposed) { device.destroy(); return false; }
+    this.device = device;
+    const info = adapter.info || {};
+    this.adapterInfo = { vendor: info.vendor || '', architecture: info.architecture || '', description: info.description || '' };
+    this.profiler = createGpuProfiler(device);
+
+    device.lost.then((info: any) => this.handleDeviceLost(device, info));
+    device.addEventListener('uncapturederror', (e: any) => { if (device === this.device) this.emit('error', { type: 'runtime', message: getErrorMessage(e.error) }); });
+
+    const context = canvas.getContext('webgpu') as any;
+    this.context = context;
+    context.configure({ device, format: (navigator as any).gpu.getPreferredCanvasFormat(), alphaMode: 'opaque' });
+
+    this.uniformBuffer = device.createBuffer({ size: 512, usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST });
+    this.channelPlaceholder = createChannelTexture(device, createDefaultTextureCanvas(), getChannelSampler([], 0));
+    this.audioTexture = device.createTexture({ size: [AUDIO_TEXTURE_WIDTH, 2], format: AUDIO_TEXTURE_FORMAT, usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST });
+
+    // Layouts are shared by every pass pipeline so one set of bind groups fits all
+    this.bindGroupLayout = device.createBindGroupLayout({
+      entries: [
+        { binding: 0, visibility: GPUShaderStage.FRAGMENT | GPUShaderStage.VERTEX | GPUShaderStage.COMPUTE, buffer: { type: 'uniform' }},
+        ...createChannelLayoutEntries(GPUShaderStage.FRAGMENT | GPUShaderStage.COMPUTE),
+        { binding: AUDIO_TEXTURE_BINDING, visibility: GPUShaderStage.FRAGMENT | GPUShaderStage.COMPUTE, texture: {} }
+      ]
+    });
+    this.syncChannels();
+    this.feedbackLayout = createFeedbackBindGroupLayout(device);
+    this.storageLayouts = createStorageLayouts(device);
+    this.pipelineLayout = device.createPipelineLayout({ bindGroupLayouts: [this.bindGroupLayout, this.feedbackLayout, this.storageLayouts.render] });
+    this.computePipelineLayout = device.createPipelineLayout({ bindGroupLayouts: [this.bindGroupLayout, this.feedbackLayout, this.storageLayouts.compute] });
+    this.feedbackSampler = device.createSampler({ magFilter: 'linear', minFilter: 'linear', addressModeU: 'clamp-to-edge', addressModeV: 'clamp-to-edge' });
+    this.placeholderTexture = createPlaceholderTexture(device);
+    this.storagePlaceholders = createStoragePlaceholders(device);
+
+    this.postPipelines = createPostPipelines(device);
+    if (this.grade) setPostLut(device, this.postPipelines, this.grade.lut);
+
+    await this.compileCompute();
+    await this.compilePasses();
+    await this.compilePipeline();
+    this.invalidate();
+    return true;
+  }
+
+  // Drops every object that belongs to the current device. Compile caches go
+  // too, so the next device rebuilds each pass from source.
+  private releaseResources() {
+    BUFFER_SLOTS.forEach(id => { const t = this.feedbackTargets[id]; if (t) destroyFeedbackTarget(t); });
+    this.feedbackTargets = {};
+    if (this.storageResources) destroyStorageResources(this.storageResources);
+    this.storageResources = null;
+    this.storageBindGroups = null;
+    if (this.postTargets) destroyPostTargets(this.postTargets);
+    this.postTargets = null;
+    if (this.postPipelines) destroyPostPipelines(this.postPipelines);
+    this.postPipelines = null;
+    if (this.profiler) destroyGpuProfiler(this.profiler);
+    this.profiler = null;
+    this.gpuTimingPending = false;
+    this.pipeline = null;
+    this.bindGroup = null;
+    this.channelTextures = [];
+    this.uploadedAudio = null;
+    this.passPipelines = {};
+    this.compiledPasses = {};
+    this.computePipelines = [];
+    this.compiledCompute = '';
+  }
+
+  // --- Device Recovery ---
+  // Lost devices (driver reset, GPU switch, tab sleep) are replaced with a new
+  // one after a short delay. Params, camera and texture live on the CPU side
+  // and carry over; simulation state and feedback history start fresh.
+  private handleDeviceLost(device: GPUDevice, info: any) {
+    if (this.disposed || device !== this.device) return;
+    this.device = null;
+    this.hasError = true;
+    this.exportCancelled = true;
+    this.stopLoop();
+    this.releaseResources();
+    this.frameReaders.splice(0).forEach(read => read(null));
+
+    // A device that stayed up for a while starts a fresh retry budget
+    if (performance.now() - this.recoveredAt > RECOVERY_RESET_MS) this.recoveryAttempts = 0;
+    this.scheduleRecovery(getErrorMessage(info));
+  }
+
+  private scheduleRecovery(reason: string) {
+    if (this.recoveryAttempts >= MAX_RECOVERY_ATTEMPTS) {
+      this.emit('error', { type: 'runtime', message: `${reason}\nGave up after ${MAX_RECOVERY_ATTEMPTS} recovery attempts. Reload the page to try again.` });
+      return;
+    }
+    const attempt = ++this.recoveryAttempts;
+    this.emit('error', { type: 'runtime', message: `${reason}\nRecovering GPU device (attempt ${attempt} of ${MAX_RECOVERY_ATTEMPTS})...` });
+    this.recoveryTimer = window.setTimeout(() => this.recover(), RECOVERY_DELAY_MS * attempt);
+  }
+
+  private async recover() {
+    this.recoveryTimer = null;
+    if (this.disposed) return;
+    try {
+      const adapter = await (navigator as any).gpu.requestAdapter();
+      if (!adapter) throw new Error("No GPU adapter.");
+      if (!(await this.createResources(adapter))) return;
+      this.recoveredAt = performance.now();
+      this.emit('recovered', this.recoveryAttempts);
+    } catch (err: any) {
+      if (!this.disposed) this.scheduleRecovery(getErrorMessage(err));
+    }
+  }
+
+  // --- Scene ---
+  async setShader(code: string) {
+    if (code === this.shaderCode && this.pipeline) return;
+    this.shaderCode = code;
+    if (this.device) await this.compilePipeline();
+  }
+
+  async setPasses(passes: BufferPass[]) {
+    this.passes = passes;
+    if (this.device) await this.compilePasses();
+  }
+
+  async setCompute(setup?: ComputeSetup) {
+    this.compute = setup;
+    if (this.device) await this.compileCompute();
+  }
+
+  setParams(params: ShaderParam[]) {
+    const signature = (list: ShaderParam[]) => list.map(p => `${p.id}:${p.type}`).join('|');
+    const reshaped = signature(params) !== signature(this.params);
+    this.params = params;
+    this.invalidate();
+    // While a new shader is still compiling the layout is stale, and compilePipeline validates it instead
+    if (reshaped && this.uniformLayout && this.uniformLayoutCode === this.shaderCode) this.reportLayoutIssues(this.uniformLayout);
+  }
+
+  // Applied on top of the params (and timeline) every frame
+  setModulations(modulations: Modulation[]) {
+    this.modulations = modulations;
+    this.invalidate();
+  }
+
+  // `progress` is the value shaders read from u.scrollY (the designer passes scrollTop / 1000)
+  setScroll(progress: number) {
+    this.scrollY = progress;
+    this.invalidate();
+  }
+
+  setScrollEffect(effect: ScrollEffectType, params: ScrollParams) {
+    this.scrollEffect = effect;
+    this.scrollParams = params;
+    this.invalidate();
+  }
+
+  setTextureTransform(scale: { x: number, y: number }, offset: { x: number, y: number }) {
+    this.textureScale = scale;
+    this.textureOffset = offset;
+    this.invalidate();
+  }
+
+  // Null restores the placeholder texture. The size is capped at the device's limit.
+  async setTexture(source: TextureSource | null, channel = 0, options: TextureImportOptions = DEFAULT_TEXTURE_IMPORT) {
+    const maxSize = Math.min(options.maxSize, this.device?.limits.maxTextureDimension2D ?? options.maxSize);
+    this.setChannelSource(channel, source ? await prepareTextureCanvas(source, { ...options, maxSize }) : null);
+  }
+
+  // Plays `video` in the channel, copied into its texture every frame. The
+  // runtime owns the element from here and releases it when it is replaced.
+  setVideo(video: HTMLVideoElement | null, channel = 0) {
+    this.setChannelSource(channel, video);
+  }
+
+  // Sampler settings per slot; undefined means channel 0 with the default sampler
+  setChannels(channels?: TextureChannel[]) {
+    this.channels = channels || DEFAULT_CHANNELS;
+    this.syncChannels();
+  }
+
+  setTimeline(timeline: Timeline) {
+    this.timeline = timeline;
+    this.invalidate();
+  }
+
+  // A playing timeline runs on from `playback.time`, counted in transport time from this call
+  setTimelinePlayback(playback: TimelinePlayback) {
+    this.timelinePlayback = playback;
+    this.playbackStart = this.getTime();
+    this.invalidate();
+  }
+
+  // Only a new pose resets the orbit; FOV, roll and auto-orbit edits keep it
+  setCamera(pose?: CameraPose) {
+    const next = pose || DEFAULT_CAMERA;
+    const key = (p: CameraPose) => JSON.stringify([p.target, p.theta, p.phi, p.radius]);
+    const moved = key(next) !== key(this.pose);
+    this.pose = next;
+    if (moved) this.resetCamera();
+    this.invalidate();
+  }
+
+  resetCamera() {
+    this.orbit.theta = this.pose.theta;
+    this.orbit.phi = this.pose.phi;
+    this.orbit.radius = this.pose.radius;
+    this.invalidate();
+  }
+
+  setResolution(settings: ResolutionSettings) {
+    configureResolution(this.resolution, settings);
+    this.invalidate();
+  }
+
+  // Undefined for shaders that tone map themselves: their output passes through untouched
+  setPost(settings?: PostSettings) {
+    this.post = settings || null;
+    this.invalidate();
+  }
+
+  // The LUT is uploaded again only when a different one is passed
+  setGrade(grade?: LutGrade | null) {
+    const changed = grade?.lut !== this.grade?.lut;
+    this.grade = grade || null;
+    if (changed && this.device && this.postPipelines) setPostLut(this.device, this.postPipelines, this.grade?.lut || null);
+    this.invalidate();
+  }
+
+  // Drives u.audio, u.audioBeat and the audio texture; the caller keeps
+  // ownership and releases the source
+  setAudioSource(source: AudioSource | null) {
+    this.audio = source;
+    this.audioAnalyzer = createAudioAnalyzer(this.audioAnalyzer.settings);
+    this.audioFrame = createSilentFrame();
+  }
+
+  // Bands, smoothing and beat tracking keep their state across changes
+  setAudioSettings(settings: AudioSettings) {
+    this.audioAnalyzer.settings = settings;
+  }
+
+  // --- Readback ---
+  getCamera(): CameraReading { return { ...this.lastCamera }; } // As last rendered
+  getTimelineTime() { return this.timelineTime; } // Playhead of the last rendered frame
+  getAudioFrame() { return this.audioFrame; } // As last analyzed live
+  // Image channels only; null for videos and the placeholder
+  getTextureSource(channel = 0) {
+    const source = this.channelSources[channel];
+    return source instanceof HTMLCanvasElement ? source : null;
+  }
+
+  getVideo(channel = 0) {
+    const source = this.channelSources[channel];
+    return source instanceof HTMLVideoElement ? source : null;
+  }
+
+  // Runs `read` on the next rendered frame, in the task that submitted it, while
+  // the canvas still holds the image. Resolves null while the shader has errors.
+  readNextFrame<T>(read: (canvas: HTMLCanvasElement) => T): Promise<T | null> {
+    return new Promise(resolve => {
+      if (this.hasError || this.disposed) { resolve(null); return; }
+      this.frameReaders.push(canvas => resolve(canvas && read(canvas)));
+      this.resumeLoop();
+    });
+  }
+
+  // Renders `frames` frames at STEP_FPS from a fresh simulation, at the canvas
+  // size, and runs `read` on the last one in the task that submitted it. For
+  // runtimes on a canvas that is not shown, whose preview loop never draws,
+  // such as thumbnail renderers. Resolves null while busy or when the Image
+  // pass of the current scene has not compiled.
+  async renderSteps<T>(frames: number, read: (canvas: HTMLCanvasElement) => T): Promise<T | null> {
+    const { device, canvas } = this;
+    if (!device || !canvas || !this.pipeline || this.uniformLayoutCode !== this.shaderCode || this.hasError || this.isDriven) return null;
+    this.stopLoop();
+    this.capturing = true;
+    try {
+      this.resetSimulationState();
+      for (let f = 0; f < frames; f++) {
+        if (this.hasError || this.disposed || device !== this.device) return null;
+        if (!this.drawScene({ time: f / STEP_FPS, dt: f === 0 ? 0 : 1 / STEP_FPS, frame: f }, canvas.width, canvas.height)) return null;
+        // Keeps the queue short; the last frame is read before any await
+        if (f < frames - 1 && f % 10 === 9) await device.queue.onSubmittedWorkDone();
+      }
+      return read(canvas);
+    } finally {
+      this.capturing = false;
+      this.resumeLoop();
+    }
+  }
+
+  // PNG of the current frame at any size. It renders offscreen in tiles, so
+  // the canvas keeps showing the preview. With more than one sample, each
+  // tile is rendered that many times with sub-pixel jitter (and, with a
+  // shutter, jittered time for motion blur) and averaged. Quality 2 asks
+  // shaders for their expensive path through u.isRendering. Resolves null
+  // when cancelled or when the shader has errors; throws when the size or
+  // sample count cannot be rendered.
+  async captureStill(config: StillConfig, onProgress?: (progress: number) => void): Promise<Blob | null> {
+    const { device, uniformLayout } = this;
+    if (!device || !uniformLayout || !this.pipeline || this.hasError || this.isDriven) return null;
+    const { width, height } = config;
+    if (!(width >= 1 && height >= 1 && width <= MAX_STILL_SIZE && height <= MAX_STILL_SIZE)) {
+      throw new Error(`Stills must be between 1 and ${MAX_STILL_SIZE} pixels per side.`);
+    }
+    // Shaders without the tile uniform can only render the frame in one piece, unjittered
+    const tiled = !!uniformLayout.fields.tile;
+    const samples = Math.max(1, Math.round(config.samples));
+    if (samples > 1 && !tiled) throw new Error('Supersampling needs `tile: vec4f` in struct Uniforms (see COMMON_HEADER) to jitter the frame.');
+    const maxSize = device.limits.maxTextureDimension2D;
+    // Tiles render with a margin around them so bloom and aberration reach across tile edges
+    const post = this.post || PASSTHROUGH_POST;
+    const margin = tiled ? getPostMargin(post, this.getFrameChromatic(post, this.scrollParams.strength), width, height) : 0;
+    const tileSize = tiled ? Math.min(STILL_TILE_SIZE, maxSize - 2 * margin) : Math.max(width, height);
+    if (tiled && tileSize < 1) throw new Error('The post stack reaches too far for this still size; lower the bloom radius or aberration.');
+    if (tileSize > maxSize) {
+      throw new Error(`This GPU renders at most ${maxSize}px in one piece. Add \`tile: vec4f\` to struct Uniforms (see COMMON_HEADER) to render ${width}x${height} in tiles.`);
+    }
+
+    const tileWidth = Math.min(tileSize, width);
+    const tileHeight = Math.min(tileSize, height);
+    const time = this.getTime();
+    const canvasFormat = (navigator as any).gpu.getPreferredCanvasFormat();
+    // Samples stay in float so averaging happens before quantizing to 8 bits
+    const format = samples > 1 ? HDR_FORMAT : canvasFormat;
+
+    const rows = planTiles(width, height, tileSize);
+    const total = rows.length * rows[0].length * samples;
+    const texture = device.createTexture({
+      size: [tileWidth, tileHeight],
+      format,
+      usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.COPY_SRC | GPUTextureUsage.TEXTURE_BINDING,
+    });
+    const view = texture.createView();
+    const accumulator = samples > 1 ? createAccumulator(device, texture, tileWidth, tileHeight) : null;
+    const buffer = accumulator ? null : createReadbackBuffer(device, tileWidth, tileHeight);
+    const png = createPngWriter(width, height);
+
+    this.stopLoop();
+    const resumeMedia = this.holdMedia();
+    this.updateVideoChannels();
+    this.capturing = true;
+    this.captureCancelled = false;
+    this.stillQuality = config.quality;
+    // Freeze the timeline playhead so every tile and sample sees the same frame
+    this.stillClock = { time, timeline: this.getTimelineClock(time) };
+    try {
+      let rendered = 0;
+      for (const row of rows) {
+        const strip = new Uint8Array(width * row[0].height * 3);
+        for (const tile of row) {
+          const region = getTileRegion(tile, margin, width, height);
+          const crop = { x: tile.x - region.x, y: tile.y - region.y, width: tile.width, height: tile.height };
+          if (accumulator) {
+            const encoder = device.createCommandEncoder();
+            clearAccumulator(encoder, accumulator);
+            device.queue.submit([encoder.finish()]);
+          }
+          for (let i = 0; i < samples; i++) {
+            if (this.captureCancelled || this.hasError) return null;
+            if (device !== this.device) throw new Error('The GPU device was lost during the capture.');
+            const jitter = samples > 1 ? getSampleJitter(i) : [0, 0] as [number, number];
+            const t = time + getSampleTimeOffset(i, samples, config.shutter);
+            this.drawScene({ ...this.lastStep, time: t }, width, height, { region, crop, view, format, jitter });
+            const encoder = device.createCommandEncoder();
+            if (accumulator) accumulateSample(encoder, accumulator);
+            else if (buffer) copyTileToBuffer(encoder, texture, buffer, tile);
+            device.queue.submit([encoder.finish()]);
+            // One sample in flight keeps progress honest and the UI responsive
+            if (accumulator) await device.queue.onSubmittedWorkDone();
+            onProgress?.(++rendered / total);
+          }
+          if (accumulator) await readAccumulatedTile(device, accumulator, tile, samples, strip, width);
+          else if (buffer) await readTile(buffer, tile, strip, width, canvasFormat === 'bgra8unorm');
+        }
+        await png.writeRows(strip, row[0].height);
+      }
+      return await png.finish();
+    } finally {
+      texture.destroy();
+      buffer?.destroy();
+      if (accumulator) destroyAccumulator(accumulator);
+      this.stillQuality = 0;
+      this.stillClock = null;
+      this.capturing = false;
+      resumeMedia();
+      this.resumeLoop();
+    }
+  }
+
+  cancelCapture() {
+    this.captureCancelled = true;
+  }
+
+  get isCapturing() { return this.capturing; }
+
+  // --- Loop ---
+  play() {
+    if (this.playing) return;
+    this.playing = true;
+    seekClock(this.clock, this.clock.time, performance.now());
+    this.resumeLoop();
+  }
+
+  pause() {
+    if (!this.playing) return;
+    const now = performance.now();
+    seekClock(this.clock, readClock(this.clock, now, true, this.transport), now);
+    this.playing = false;
+    this.stopLoop();
+  }
+
+  get isPlaying() { return this.playing; }
+
+  // Time scale, loop range and seed; `playing` plays or pauses
+  setTransport(settings: TransportSettings) {
+    const now = performance.now();
+    // Rebase first so a new scale or range only applies from here on
+    seekClock(this.clock, readClock(this.clock, now, this.playing, this.transport), now);
+    this.transport = settings;
+    if (settings.playing) this.play();
+    else this.pause();
+    this.invalidate();
+  }
+
+  // Shader time now, before the timeline takes over
+  getTime() { return readClock(this.clock, performance.now(), this.playing, this.transport); }
+
+  seek(time: number) {
+    seekClock(this.clock, time, performance.now());
+    this.invalidate();
+  }
+
+  // Pauses, then moves by whole frames at STEP_FPS; negative steps go back
+  step(frames: number) {
+    this.pause();
+    this.seek(wrapLoopTime(this.getTime() + frames / STEP_FPS, this.transport));
+  }
+
+  // Paused runtimes draw one frame per change, so edits still show without a running loop
+  private invalidate() {
+    if (!this.playing) this.dirty = true;
+    this.resumeLoop();
+  }
+
+  private stopLoop() {
+    if (this.frameRequest !== null) cancelAnimationFrame(this.frameRequest);
+    this.frameRequest = null;
+  }
+
+  // Paused runtimes only draw when dirty or to serve one-off frame reads
+  private resumeLoop() {
+    if (this.frameRequest !== null || this.isDriven || this.disposed || !this.device) return;
+    if (this.playing || this.dirty || this.frameReaders.length > 0) this.frameRequest = requestAnimationFrame(this.tick);
+  }
+
+  // Exports, benchmarks and stills draw their own frames
+  private get isDriven() { return this.recordingConfig !== null || this.benchmarking || this.capturing; }
+
+  private tick = (now: number) => {
+    this.frameRequest = null;
+    if (this.isDriven || this.disposed) return;
+    if (this.hasError) {
+      this.frameReaders.splice(0).forEach(read => read(null));
+      return;
+    }
+    if (this.drawStep(advanceClock(this.clock, now, this.playing, this.transport))) this.dirty = false;
+    if (!this.hasError && (this.playing || this.dirty)) this.frameRequest = requestAnimationFrame(this.tick);
+  };
+
+  // Renders one frame at shader time `t` (seconds), for embedders that drive
+  // time themselves. u.dt is measured from the previous frame and u.frame
+  // counts on; the transport clock stays where it is.
+  renderFrame(t: number): boolean {
+    const step = { time: t, dt: this.clock.frames === 0 ? 0 : t - this.clock.last, frame: this.clock.frames };
+    this.clock.last = t;
+    this.clock.frames++;
+    return this.drawStep(step);
+  }
+
+  // Renders one preview frame at the step's time, sized to the canvas times
+  // the adaptive scale. Returns false while resources are still being created.
+  private drawStep(step: FrameStep): boolean {
+    const canvas = this.canvas;
+    if (!canvas) return false;
+
+    const dpr = window.devicePixelRatio || 1;
+    const canvasWidth = Math.floor(canvas.clientWidth * dpr);
+    const canvasHeight = Math.floor(canvas.clientHeight * dpr);
+    if (canvasWidth === 0 || canvasHeight === 0) return false;
+    if (canvas.width !== canvasWidth || canvas.height !== canvasHeight) { canvas.width = canvasWidth; canvas.height = canvasHeight; }
+    const [width, height] = getRenderSize(canvasWidth, canvasHeight, this.resolution.scale);
+
+    const start = performance.now();
+    this.updateVideoChannels();
+    this.updateAudio(start);
+    if (!this.drawScene(step, width, height)) return false;
+    this.lastStep = step;
+    this.measureFrame(step.time, start, this.lastFrameAt ? start - this.lastFrameAt : 0);
+    this.lastFrameAt = start;
+
+    // Read back in the same task as the submit, before the canvas is presented
+    this.frameReaders.splice(0).forEach(read => read(canvas));
+
+    const now = performance.now();
+    this.fpsWindow.frames++;
+    if (now - this.fpsWindow.start >= 1000) {
+      this.fpsWindow.fps = this.fpsWindow.frames;
+      this.fpsWindow.frames = 0;
+      this.fpsWindow.start = now;
+    }
+    this.emit('frame', { time: step.time, cpuTime: now - start, fps: this.fpsWindow.fps, width, height, scale: this.resolution.scale });
+    return true;
+  }
+
+  private get isProfiling() { return this.benchmarking || (this.listeners.profile?.size ?? 0) > 0; }
+
+  // Times the frame drawScene just submitted: per-pass timestamps when they
+  // were written, otherwise submit to queue completion. Unlike rAF intervals
+  // this still shows headroom under vsync, so it also feeds the resolution
+  // controller. Resolves null for frames that were not timed.
+  private async measureFrame(time: number, submittedAt: number, frameInterval: number): Promise<FrameProfile | null> {
+    const device = this.device;
+    if (!device || this.gpuTimingPending) return null;
+    if (!this.isProfiling && !this.resolution.settings.enabled) return null;
+    const draw = this.lastDraw;
+    const profiler = this.profiler;
+    this.gpuTimingPending = true;
+    const [, passes] = await Promise.all([device.queue.onSubmittedWorkDone(), profiler ? readTimestamps(profiler) : null]);
+    if (device !== this.device) return null;
+    this.gpuTimingPending = false;
+
+    const done = performance.now();
+    const gpuTime = passes ? passes.reduce((sum, pass) => sum + pass.ms, 0) : done - submittedAt;
+    if (!this.isDriven) addFrameTime(this.resolution, gpuTime, done);
+    const profile: FrameProfile = { time, frameInterval, cpuTime: draw.cpuTime, uploadTime: draw.uploadTime, gpuTime, passes: passes || [], source: passes ? 'timestamp' : 'cpu' };
+    if (!this.benchmarking) this.emit('profile', profile);
+    return profile;
+  }
+
+  // HDR targets sized to the rendered region: the canvas times the adaptive
+  // scale, or one padded tile of a still
+  private getPostTargets(device: GPUDevice, width: number, height: number): PostTargets {
+    const current = this.postTargets;
+    if (current && current.width === width && current.height === height) return current;
+    if (current) destroyPostTargets(current);
+    this.postTargets = createPostTargets(device, width, height);
+    return this.postTargets;
+  }
+
+  // The preset's post stack; exports replace its grain and chromatic aberration
+  // with their own settings. Shaders without a stack get PASSTHROUGH_POST.
+  private getFramePost(): PostSettings {
+    const post = this.post || PASSTHROUGH_POST;
+    const config = this.recordingConfig;
+    if (!config || !this.post) return post;
+    const { grain, aberration } = config.postProcess;
+    return { ...post, grain: { enabled: grain > 0, strength: grain }, chromatic: { enabled: aberration > 0, strength: aberration * EXPORT_ABERRATION_SCALE } };
+  }
+
+  // Chromatic strength of this frame, including the 'chromatic' scroll effect
+  private getFrameChromatic(post: PostSettings, scrollStrength: number) {
+    const scroll = this.scrollEffect === 'chromatic' ? Math.max(0, Math.min(1, this.scrollY)) * scrollStrength * SCROLL_CHROMATIC_STRENGTH : 0;
+    return getChromaticStrength(post) + scroll;
+  }
+
+  // --- Video Export ---
+  // Renders frame N at exactly N / fps and waits for the GPU and the encoder
+  // before moving on, so the file never drops or repeats a frame. Resolves
+  // null when cancelled; the frames encoded so far are discarded.
+  async exportVideo(config: VideoConfig, onProgress: (timeLeft: number, progress: number) => void): Promise<Blob | null> {
+    const device = this.device;
+    const canvas = this.canvas;
+    if (!device || !canvas || this.isDriven) return null;
+
+    // Claimed before the first await, so a second export is turned away and
+    // the preview loop stays stopped while audio and codecs are prepared
+    this.stopLoop();
+    this.recordingConfig = config;
+    this.exportCancelled = false;
+    let exporter: VideoExporter | null = null;
+    let resumeMedia: (() => void) | null = null;
+    let encoded = 0;
+    try {
+      // An audio file is analyzed offline and muxed in; the microphone stays live
+      const audioTrack = this.audio?.buffer ? await renderAudioTrack(this.audio.buffer, config.duration) : null;
+      if (this.exportCancelled || this.disposed) return null;
+      exporter = await createVideoExporter(config, EXPORT_WIDTH, EXPORT_HEIGHT, audioTrack);
+      if (this.exportCancelled || this.disposed) {
+        exporter.cancel();
+        return null;
+      }
+      const envelope: AudioEnvelope | null = audioTrack && analyzeAudio(audioTrack, config.fps, exporter.frameCount, this.audioAnalyzer.settings);
+
+      canvas.width = EXPORT_WIDTH;
+      canvas.height = EXPORT_HEIGHT;
+      this.resetSimulationState();
+      resumeMedia = this.holdMedia();
+      if (envelope) this.audioOverride = time => sampleAudioEnvelope(envelope, time);
+
+      for (let i = 0; i < exporter.frameCount; i++) {
+        if (this.exportCancelled || this.hasError || this.disposed) break;
+        // Videos show the frame at the render time, not wherever playback was
+        await this.seekVideos(i / config.fps);
+        this.updateVideoChannels();
+        if (!this.drawScene({ time: i / config.fps, dt: i === 0 ? 0 : 1 / config.fps, frame: i }, EXPORT_WIDTH, EXPORT_HEIGHT)) break;
+        // The VideoFrame snapshots the canvas synchronously, in the task that submitted it
+        const encoding = exporter.encodeFrame(canvas, i);
+        await device.queue.onSubmittedWorkDone();
+        await encoding;
+        encoded++;
+        onProgress(Math.max(0, config.duration - encoded / config.fps), encoded / exporter.frameCount);
+      }
+      if (encoded === 0 || this.exportCancelled) {
+        exporter.cancel();
+        return null;
+      }
+      return await exporter.finish();
+    } catch (e) {
+      exporter?.cancel();
+      throw e;
+    } finally {
+      this.recordingConfig = null;
+      this.audioOverride = null;
+      resumeMedia?.();
+      this.invalidate();
+    }
+  }
+
+  cancelExport() {
+    this.exportCancelled = true;
+  }
+
+  get isExporting() { return this.recordingConfig !== null; }
+
+  // --- Benchmark ---
+  // Renders every scene at a fixed size, one frame at a time, and reports GPU
+  // and CPU frame times. The current scene comes back afterwards. Resolves
+  // null when the runtime is busy or not mounted.
+  async benchmark(scenes: BenchmarkScene[], options: BenchmarkOptions, onProgress?: (progress: number, scene: BenchmarkScene) => void): Promise<BenchmarkReport | null> {
+    const canvas = this.canvas;
+    if (!this.device || !canvas || this.isDriven) return null;
+
+    const saved: BenchmarkScene = { id: '', name: '', shaderCode: this.shaderCode, passes: this.passes, compute: this.compute, params: this.params, camera: this.pose, post: this.post || undefined };
+    const savedOrbit = { ...this.orbit };
+    const savedPlayback = this.timelinePlayback;
+    const savedModulations = this.modulations;
+    this.stopLoop();
+    this.benchmarking = true;
+    this.benchmarkCancelled = false;
+    this.timelinePlayback = { ...savedPlayback, enabled: false };
+    this.modulations = [];
+
+    const total = scenes.length * (BENCHMARK_WARMUP_FRAMES + options.frames);
+    const results: BenchmarkResult[] = [];
+    try {
+      for (let i = 0; i < scenes.length && !this.benchmarkCancelled && !this.disposed; i++) {
+        const scene = scenes[i];
+        const errors: string[] = [];
+        const unsubscribe = this.on('error', error => errors.push(error.message));
+        await this.applyScene(scene);
+        this.resetSimulationState();
+
+        const profiles: FrameProfile[] = [];
+        const compiled = this.pipeline && this.uniformLayoutCode === scene.shaderCode;
+        for (let f = 0; compiled && errors.length === 0 && f < BENCHMARK_WARMUP_FRAMES + options.frames; f++) {
+          if (this.benchmarkCancelled || !this.device) break;
+          canvas.width = options.width;
+          canvas.height = options.height;
+          const t = f / 60;
+          const start = performance.now();
+          if (!this.drawScene({ time: t, dt: f === 0 ? 0 : 1 / 60, frame: f }, options.width, options.height)) break;
+          const profile = await this.measureFrame(t, start, 0);
+          if (profile && f >= BENCHMARK_WARMUP_FRAMES) profiles.push(profile);
+          onProgress?.((i * (BENCHMARK_WARMUP_FRAMES + options.frames) + f + 1) / total, scene);
+        }
+        unsubscribe();
+        results.push(summarizeBenchmark(scene, profiles, errors[0] || (compiled ? undefined : 'Image pass did not compile.')));
+      }
+    } finally {
+      await this.applyScene(saved);
+      Object.assign(this.orbit, savedOrbit);
+      this.timelinePlayback = savedPlayback;
+      this.modulations = savedModulations;
+      this.resetSimulationState();
+      this.benchmarking = false;
+      this.hasError = false; // The restored scene reports its own errors again on its first frame
+      this.invalidate();
+    }
+
+    return {
+      format: 'webgpu-hero-benchmark',
+      version: 1,
+      createdAt: new Date().toISOString(),
+      userAgent: navigator.userAgent,
+      adapter: this.adapterInfo,
+      source: this.profiler ? 'timestamp' : 'cpu',
+      options,
+      results,
+    };
+  }
+
+  cancelBenchmark() {
+    this.benchmarkCancelled = true;
+  }
+
+  get isBenchmarking() { return this.benchmarking; }
+
+  private async applyScene(scene: BenchmarkScene) {
+    this.setParams(scene.params);
+    this.setCamera(scene.camera);
+    this.setPost(scene.post);
+    await this.setCompute(scene.compute);
+    await this.setPasses(scene.passes || []);
+    await this.setShader(scene.shaderCode);
+  }
+
+  // --- Input ---
+  private attachInput(canvas: HTMLCanvasElement) {
+    const down = (e: PointerEvent) => {
+      if (this.isDriven) return;
+      canvas.setPointerCapture(e.pointerId);
+      this.orbit.isDragging = true;
+      this.orbit.lastX = e.clientX;
+      this.orbit.lastY = e.clientY;
+      this.mouse.isDown = 1.0;
+      this.invalidate();
+    };
+    const move = (e: PointerEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      this.mouse.x = e.clientX - rect.left;
+      this.mouse.y = e.clientY - rect.top;
+      if (!this.orbit.isDragging) return;
+      const dx = e.clientX - this.orbit.lastX;
+      const dy = e.clientY - this.orbit.lastY;
+      this.orbit.lastX = e.clientX;
+      this.orbit.lastY = e.clientY;
+      this.orbit.theta -= dx * 0.005; // SLOWER ROTATION FOR PRODUCT SHOWCASE
+      this.orbit.phi = Math.max(-MAX_CAMERA_PHI, Math.min(MAX_CAMERA_PHI, this.orbit.phi + dy * 0.005));
+      this.invalidate();
+    };
+    const up = (e: PointerEvent) => {
+      if (canvas.hasPointerCapture(e.pointerId)) canvas.releasePointerCapture(e.pointerId);
+      this.orbit.isDragging = false;
+      this.mouse.isDown = 0.0;
+      this.invalidate();
+    };
+    const wheel = (e: WheelEvent) => {
+      this.orbit.radius = Math.max(MIN_CAMERA_RADIUS, Math.min(MAX_CAMERA_RADIUS, this.orbit.radius + e.deltaY * 0.005));
+      this.invalidate();
+    };
+    canvas.addEventListener('pointerdown', down);
+    canvas.addEventListener('pointermove', move);
+    canvas.addEventListener('pointerup', up);
+    canvas.addEventListener('pointerleave', up);
+    canvas.addEventListener('wheel', wheel, { passive: true });
+    return () => {
+      canvas.removeEventListener('pointerdown', down);
+      canvas.removeEventListener('pointermove', move);
+      canvas.removeEventListener('pointerup', up);
+      canvas.removeEventListener('pointerleave', up);
+      canvas.removeEventListener('wheel', wheel);
+    };
+  }
+
+  // --- Compilation ---
+  private setError(error: ShaderError) {
+    this.emit('error', error);
+  }
+
+  // A pass compiled again: clear only its reported errors and restart the loop
+  private clearError(passId: PassId) {
+    this.emit('clearError', passId);
+    this.hasError = false;
+  }
+
+  // Uploads channels whose image, format or mip setting changed, then rebinds
+  // with fresh samplers
+  private syncChannels() {
+    const device = this.device;
+    if (!device) return;
+    for (let i = 0; i < MAX_CHANNELS; i++) {
+      const sampler = getChannelSampler(this.channels, i);
+      const source = this.channelSources[i];
+      const current = this.channelTextures[i];
+      if (current && current.source === source && current.format === getChannelFormat(sampler) && current.mipmaps === sampler.mipmaps) continue;
+      current?.texture.destroy();
+      // Videos without a frame yet stay on the placeholder until updateVideoChannels sees one
+      const ready = source && !(source instanceof HTMLVideoElement && !isVideoReady(source));
+      this.channelTextures[i] = ready ? { texture: createChannelTexture(device, source, sampler), source, format: getChannelFormat(sampler), mipmaps: sampler.mipmaps } : null;
+    }
+    this.channelSamplers = Array.from({ length: MAX_CHANNELS }, (_, i) => createChannelSampler(device, getChannelSampler(this.channels, i)));
+    this.rebind();
+    this.invalidate();
+  }
+
+  private setChannelSource(channel: number, source: HTMLCanvasElement | HTMLVideoElement | null) {
+    const previous = this.channelSources[channel];
+    if (previous instanceof HTMLVideoElement && previous !== source) releaseVideo(previous);
+    this.channelSources[channel] = source;
+    this.syncChannels();
+  }
+
+  // Copies the current frame of every video channel. A video that became
+  // ready or changed size (cameras can) gets a new texture and a rebind.
+  private updateVideoChannels() {
+    const device = this.device;
+    if (!device) return;
+    let rebind = false;
+    this.channelSources.forEach((source, i) => {
+      if (!(source instanceof HTMLVideoElement) || !isVideoReady(source)) return;
+      const current = this.channelTextures[i];
+      const { width, height } = getSourceSize(source);
+      if (current && current.source === source && current.texture.width === width && current.texture.height === height) {
+        updateChannelTexture(device, current.texture, source);
+        return;
+      }
+      current?.texture.destroy();
+      const sampler = getChannelSampler(this.channels, i);
+      this.channelTextures[i] = { texture: createChannelTexture(device, source, sampler), source, format: getChannelFormat(sampler), mipmaps: sampler.mipmaps };
+      rebind = true;
+    });
+    if (rebind) this.rebind();
+  }
+
+  // Pauses playing videos and the audio file so offline renders choose their
+  // frames; the returned function resumes them
+  private holdMedia() {
+    const media: HTMLMediaElement[] = this.channelSources.filter((s): s is HTMLVideoElement => s instanceof HTMLVideoElement);
+    if (this.audio?.element) media.push(this.audio.element);
+    const playing = media.filter(element => !element.paused);
+    playing.forEach(element => element.pause());
+    return () => playing.forEach(element => { element.play().catch(() => {}); });
+  }
+
+  // Analyzes the live source once per rendered frame; long gaps (paused
+  // loop, hidden tab) are shortened so smoothing and beats do not jump
+  private updateAudio(now: number) {
+    const dt = this.audioReadAt ? Math.min(now - this.audioReadAt, MAX_AUDIO_STEP_MS) * 0.001 : 0;
+    this.audioReadAt = now;
+    if (this.audio) this.audioFrame = readAudioSource(this.audio, this.audioAnalyzer, dt);
+  }
+
+  private uploadAudio(device: GPUDevice, frame: AudioFrame) {
+    if (!this.audioTexture || frame === this.uploadedAudio) return;
+    device.queue.writeTexture({ texture: this.audioTexture }, frame.texture, { bytesPerRow: AUDIO_TEXTURE_WIDTH }, [AUDIO_TEXTURE_WIDTH, 2]);
+    this.uploadedAudio = frame;
+  }
+
+  private async seekVideos(time: number) {
+    await Promise.all(this.channelSources.map(source => source instanceof HTMLVideoElement ? seekVideo(source, time) : null));
+  }
+
+  private rebind() {
+    if (!this.device || !this.bindGroupLayout || !this.uniformBuffer || !this.channelPlaceholder || !this.audioTexture) return;
+    const channelEntries = Array.from({ length: MAX_CHANNELS }, (_, i) => [
+      { binding: getChannelBindings(i).texture, resource: (this.channelTextures[i]?.texture || this.channelPlaceholder).createView() },
+      { binding: getChannelBindings(i).sampler, resource: this.channelSamplers[i] },
+    ]).flat();
+    this.bindGroup = this.device.createBindGroup({
+      layout: this.bindGroupLayout,
+      entries: [
+        { binding: 0, resource: { buffer: this.uniformBuffer } },
+        ...channelEntries,
+        { binding: AUDIO_TEXTURE_BINDING, resource: this.audioTexture.createView() }
+      ]
+    });
+  }
+
+  // Compiles one pass module. Reports errors and returns null so callers keep
+  // running the previous pipeline of that pass.
+  // Null too when the device was lost meanwhile.
+  private async createCheckedModule(device: GPUDevice, code: string, label: string, passId?: PassId) {
+    const shaderModule = device.createShaderModule({ label, code });
+    const compilationInfo = await shaderModule.getCompilationInfo();
+    if (device !== this.device) return null;
+    let hasError = false;
+    for (const msg of compilationInfo.messages) {
+      if (msg.type === 'error') {
+        hasError = true;
+        this.setError({ type: 'compilation', message: getErrorMessage(msg.message), lineNum: msg.lineNum, linePos: msg.linePos, passId });
+      }
+    }
+    return hasError ? null : shaderModule;
+  }
+
+  private async createPassPipeline(device: GPUDevice, code: string, entryPoint: string, format: string, label: string, passId?: PassId) {
+    const shaderModule = await this.createCheckedModule(device, code, label, passId);
+    if (!shaderModule) return null;
+    return device.createRenderPipeline({
+      label,
+      layout: this.pipelineLayout,
+      vertex: { module: shaderModule, entryPoint: 'vs_main' },
+      fragment: { module: shaderModule, entryPoint, targets: [{ format }] },
+      primitive: { topology: 'triangle-list' },
+    });
+  }
+
+  private async compilePipeline() {
+    const device = this.device;
+    if (!device) return;
+    const code = this.shaderCode;
+    const pipeline = await this.createPassPipeline(device, code, 'fs_main', HDR_FORMAT, 'Main');
+    if (!pipeline || code !== this.shaderCode) return;
+
+    let layout: UniformLayout;
+    try {
+      layout = calculateUniformLayout(code);
+    } catch (err) {
+      this.setError({ type: 'validation', message: `struct Uniforms: ${getErrorMessage(err)}` });
+      return;
+    }
+
+    this.clearError('image');
+    this.pipeline = pipeline;
+    this.uniformLayout = layout;
+    this.uniformLayoutCode = code;
+
+    // Grow the uniform buffer when the struct outgrows it
+    if (this.uniformBuffer && this.uniformBuffer.size < layout.size) {
+      this.uniformBuffer.destroy();
+      this.uniformBuffer = device.createBuffer({ size: layout.size, usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST });
+    }
+
+    this.rebind();
+    this.reportLayoutIssues(layout);
+    this.invalidate();
+  }
+
+  private reportLayoutIssues(layout: UniformLayout) {
+    const issues = validateUniformLayout(layout, this.params);
+    if (issues.length > 0) this.setError({ type: 'validation', message: issues.join('\n') });
+  }
+
+  // Every pass shares one uniform buffer, so its struct must match the Image pass
+  private checkSharedUniforms(code: string, passId: PassId) {
+    try {
+      const mismatch = describeStructMismatch(reflectStruct(this.shaderCode), reflectStruct(code));
+      if (mismatch) this.setError({ type: 'validation', message: `struct Uniforms differs from the Image pass: ${mismatch}`, passId });
+    } catch (err) {
+      this.setError({ type: 'validation', message: `struct Uniforms: ${getErrorMessage(err)}`, passId });
+    }
+  }
+
+  // Only rebuilds passes whose source changed, so the other passes keep their
+  // pipelines and feedback history.
+  private async compilePasses() {
+    const device = this.device;
+    if (!device) return;
+    const nextPasses = this.passes;
+    BUFFER_SLOTS.forEach(id => {
+      if (nextPasses.some(p => p.id === id)) return;
+      delete this.passPipelines[id];
+      delete this.compiledPasses[id];
+      this.emit('clearError', id);
+    });
+
+    for (const pass of nextPasses) {
+      const source = `${pass.entryPoint}\n${pass.code}`;
+      if (this.compiledPasses[pass.id] === source) continue;
+
+      // A failed source is not recorded, so the next compile retries and reports it again
+      const pipeline = await this.createPassPipeline(device, pass.code, pass.entryPoint, FEEDBACK_FORMAT, pass.label, pass.id);
+      if (device !== this.device) return;
+      if (!pipeline) continue;
+      this.passPipelines[pass.id] = pipeline;
+      this.compiledPasses[pass.id] = source;
+      this.clearError(pass.id);
+      this.checkSharedUniforms(pass.code, pass.id);
+    }
+    this.invalidate();
+  }
+
+  // Storage is only recreated when its declarations change; editing the
+  // compute code alone keeps the simulation state.
+  private async compileCompute() {
+    const setup = this.compute;
+    const device = this.device;
+    if (!device) return;
+    const storageKey = getStorageKey(setup);
+    if (!this.storageResources || this.storageResources.key !== storageKey) {
+      if (this.storageResources) destroyStorageResources(this.storageResources);
+      this.storageResources = createStorageResources(device, setup);
+      this.storageBindGroups = createStorageBindGroups(device, this.storageLayouts!, this.storageResources, this.storagePlaceholders!);
+      this.simulationReset = true;
+    }
+
+    const source = setup ? JSON.stringify({ code: setup.code, entries: setup.stages.map(s => s.entryPoint) }) : '';
+    if (this.compiledCompute === source) return;
+    if (!setup || setup.stages.length === 0) {
+      this.computePipelines = [];
+      this.compiledCompute = source;
+      this.emit('clearError', 'compute');
+      return;
+    }
+
+    // Recorded only once built, like the buffer passes, so a failed module is retried
+    const shaderModule = await this.createCheckedModule(device, setup.code, 'Compute', 'compute');
+    if (!shaderModule || setup !== this.compute) return;
+    this.computePipelines = setup.stages.map(stage => device.createComputePipeline({
+      label: stage.entryPoint,
+      layout: this.computePipelineLayout,
+      compute: { module: shaderModule, entryPoint: stage.entryPoint },
+    }));
+    this.compiledCompute = source;
+    this.clearError('compute');
+    this.checkSharedUniforms(setup.code, 'compute');
+    this.invalidate();
+  }
+
+  // Clears buffer-pass history and storage contents so an export starts from
+  // the same state every time
+  private resetSimulationState() {
+    BUFFER_SLOTS.forEach(id => { const t = this.feedbackTargets[id]; if (t) destroyFeedbackTarget(t); });
+    this.feedbackTargets = {};
+    if (this.device && this.storageResources && this.storageLayouts && this.storagePlaceholders) {
+      destroyStorageResources(this.storageResources);
+      this.storageResources = createStorageResources(this.device, this.compute);
+      this.storageBindGroups = createStorageBindGroups(this.device, this.storageLayouts, this.storageResources, this.storagePlaceholders);
+      this.simulationReset = true;
+    }
+  }
+
+  // --- Frame ---
+  // Seconds into the timeline for this frame, or null when it does not drive it.
+  // Exports only follow it for 'timeline' shots; the preview only when enabled.
+  private getTimelineClock(elapsedTime: number): number | null {
+    if (!hasKeyframes(this.timeline)) return null;
+    if (this.stillClock) return this.stillClock.timeline === null ? null : this.stillClock.timeline + elapsedTime - this.stillClock.time;
+    if (this.recordingConfig) return this.recordingConfig.shotType === 'timeline' ? elapsedTime : null;
+    const playback = this.timelinePlayback;
+    if (!playback.enabled) return null;
+    if (!playback.playing) return playback.time;
+    return playback.time + elapsedTime - this.playbackStart;
+  }
+
+  // Writes the uniforms for `step` and submits every pass of one frame.
+  // Held steps skip the compute stages and buffer passes, so the Image pass
+  // shows the simulation state of the last frame again. With a tile, only
+  // the Image pass and the post stack run too, for the tile's region of the
+  // frame; the crop lands in the top-left corner of the tile's view. Returns
+  // false while GPU resources are still being created.
+  private drawScene(step: FrameStep, width: number, height: number, tile?: { region: StillTile, crop: StillTile, view: GPUTextureView, format: string, jitter: [number, number] }): boolean {
+    const { device, context, canvas, pipeline, uniformBuffer, uniformLayout, bindGroup, postPipelines } = this;
+    if (!device || !context || !canvas || !pipeline || !uniformBuffer || !uniformLayout || !bindGroup || !postPipelines) return false;
+    const drawStart = performance.now();
+    let elapsedTime = step.time;
+
+    const pose = this.pose;
+    let cameraTheta = this.orbit.theta + pose.autoOrbit * elapsedTime;
+    let cameraPhi = this.orbit.phi;
+    let cameraRadius = this.orbit.radius;
+    let cameraFov = pose.fov;
+    let cameraRoll = pose.roll;
+
+    let currentParams = [...this.params];
+    let currentScrollParams = this.scrollParams;
+    let currentTextureScale = this.textureScale;
+    let currentTextureOffset = this.textureOffset;
+
+    const recordingConfig = this.recordingConfig;
+    const timelineClock = this.getTimelineClock(elapsedTime);
+    if (timelineClock !== null) {
+      // Shader time follows the playhead so a paused preview matches the exported frame
+      elapsedTime = timelineClock;
+      this.timelineTime = wrapTimelineTime(this.timeline, timelineClock);
+      const sample = sampleTimeline(this.timeline, timelineClock);
+      cameraTheta = sample.camera.theta ?? cameraTheta;
+      cameraPhi = sample.camera.phi ?? cameraPhi;
+      cameraRadius = sample.camera.radius ?? cameraRadius;
+      cameraFov = sample.camera.fov ?? cameraFov;
+      cameraRoll = sample.camera.roll ?? cameraRoll;
+      currentParams = applyTimelineToParams(currentParams, sample);
+      currentScrollParams = { strength: sample.scroll.strength ?? currentScrollParams.strength, speed: sample.scroll.speed ?? currentScrollParams.speed };
+      currentTextureScale = sample.textureScale ?? currentTextureScale;
+      currentTextureOffset = sample.textureOffset ?? currentTextureOffset;
+    } else if (recordingConfig) {
+      const progress = Math.min(1.0, elapsedTime / recordingConfig.duration);
+
+      const shot = recordingConfig.shotType;
+      // Distances scale with the current orbit radius so every preset pose frames the same way
+      const base = cameraRadius / 4.5;
+      if (shot === 'orbit') { cameraTheta += elapsedTime * 0.5; }
+      else if (shot === 'sweep') { cameraTheta += elapsedTime * 0.3; cameraPhi = 0.1; cameraRadius = 6.0 * base; }
+      else if (shot === 'dolly') { cameraRadius = (6.0 - (progress * 2.0)) * base; cameraTheta += elapsedTime * 0.1; }
+      else if (shot === 'breathing') { cameraRadius = (5.0 + Math.sin(elapsedTime * 0.8) * 0.5) * base; cameraTheta += elapsedTime * 0.2; }
+      else if (shot === 'chaos') { cameraTheta += elapsedTime * 0.5; cameraPhi = Math.sin(elapsedTime * 2.0) * 0.5; cameraRadius = (4.0 + Math.cos(elapsedTime * 3.0) * 0.5) * base; }
+
+      if (recordingConfig.orchestrate) {
+        const firstFloat = currentParams.findIndex(p => p.type === 'float');
+        if (firstFloat !== -1) {
+          const p = { ...currentParams[firstFloat] } as any;
+          p.value = p.min + (p.max - p.min) * (0.5 + 0.5 * Math.sin(elapsedTime));
+          currentParams[firstFloat] = p;
+        }
+      }
+    }
+
+    const audio = this.audioOverride ? this.audioOverride(elapsedTime) : this.audioFrame;
+    const mouse: [number, number] = [Math.max(0, Math.min(1, this.mouse.x / canvas.width)), Math.max(0, Math.min(1, this.mouse.y / canvas.height))];
+    currentParams = applyModulations(currentParams, this.modulations, { time: elapsedTime, audio, mouse, scroll: Math.max(0, Math.min(1, this.scrollY)) });
+
+    this.lastCamera = { theta: cameraTheta, phi: cameraPhi, radius: cameraRadius, fov: cameraFov, roll: cameraRoll };
+    const frame = getCameraFrame({ ...pose, theta: cameraTheta, phi: cameraPhi, radius: cameraRadius, fov: cameraFov, roll: cameraRoll });
+
+    const uploadStart = performance.now();
+    const uniformData = createUniformData(uniformLayout);
+    writeUniform(uniformData, uniformLayout, 'resolution', [width, height]);
+    writeUniform(uniformData, uniformLayout, 'time', elapsedTime);
+    writeUniform(uniformData, uniformLayout, 'dt', step.dt);
+    writeUniform(uniformData, uniformLayout, 'frame', step.frame);
+    writeUniform(uniformData, uniformLayout, 'seed', this.transport.seed);
+    writeUniform(uniformData, uniformLayout, 'cameraPos', [...frame.position, frame.fov]);
+    writeUniform(uniformData, uniformLayout, 'cameraTarget', [...frame.target, frame.roll]);
+    writeUniform(uniformData, uniformLayout, 'cameraUp', [...frame.up, 0]);
+
+    // NORMALIZE MOUSE INPUT (0.0 - 1.0), against the canvas so scaling does not move it
+    writeUniform(uniformData, uniformLayout, 'mouse', [this.mouse.x / canvas.width, this.mouse.y / canvas.height, this.mouse.isDown, this.scrollY]);
+    if (tile) writeUniform(uniformData, uniformLayout, 'tile', getTileRect(tile.region, width, height, tile.jitter));
+
+    writeParamsToBuffer(uniformData, currentParams, uniformLayout);
+    // Shaders without a post stack take the export grain in place of their own
+    if (recordingConfig && !this.post) writeUniform(uniformData, uniformLayout, 'grainStrength', recordingConfig.postProcess.grain);
+
+    writeUniform(uniformData, uniformLayout, 'lightAz', 0.1);
+    writeUniform(uniformData, uniformLayout, 'lightEl', 0.6);
+
+    let renderQuality = 0.0;
+    if (this.stillQuality > 0) renderQuality = this.stillQuality;
+    else if (recordingConfig) renderQuality = 2.0;
+    writeUniform(uniformData, uniformLayout, 'isRendering', renderQuality);
+
+    writeUniform(uniformData, uniformLayout, 'aberrationStrength', recordingConfig?.postProcess.aberration || 0.0);
+
+    writeUniform(uniformData, uniformLayout, 'audio', audio.bands);
+    writeUniform(uniformData, uniformLayout, 'audioBeat', audio.beat);
+    this.uploadAudio(device, audio);
+
+    writeUniform(uniformData, uniformLayout, 'scrollY', this.scrollY);
+    writeUniform(uniformData, uniformLayout, 'scrollType', SCROLL_EFFECT_INDEX[this.scrollEffect]);
+    writeUniform(uniformData, uniformLayout, 'scrollParam1', currentScrollParams.strength);
+    writeUniform(uniformData, uniformLayout, 'scrollParam2', currentScrollParams.speed);
+
+    writeUniform(uniformData, uniformLayout, 'textureScale', [currentTextureScale.x, currentTextureScale.y]);
+    writeUniform(uniformData, uniformLayout, 'textureOffset', [currentTextureOffset.x, currentTextureOffset.y]);
+    for (let i = 0; i < MAX_CHANNELS; i++) {
+      const texture = this.channelTextures[i]?.texture;
+      writeUniform(uniformData, uniformLayout, `channel${i}Size`, texture ? [texture.width, texture.height] : [TEXTURE_SIZE, TEXTURE_SIZE]);
+    }
+
+    device.queue.writeBuffer(uniformBuffer, 0, uniformData.buffer);
+    const uploadTime = performance.now() - uploadStart;
+
+    device.pushErrorScope('validation');
+
+    // Timestamps are only written while a profile is wanted and the last one has been read
+    const profiler = this.isProfiling && !this.gpuTimingPending && !tile ? this.profiler : null;
+    if (profiler) profiler.labels = []; // Drops passes of frames that were drawn but never measured (stills, exports)
+    const commandEncoder = device.createCommandEncoder();
+    const feedbackTargets = this.feedbackTargets;
+    if (!tile) {
+      const previous = { ...feedbackTargets };
+      syncFeedbackTargets(device, feedbackTargets, this.passes, width, height);
+      if (BUFFER_SLOTS.some(id => feedbackTargets[id] && feedbackTargets[id] !== previous[id])) this.simulationReset = true;
+    }
+    // New, cleared state still gets its first step, or a held redraw would show it empty
+    const simulate = !tile && (!step.held || this.simulationReset);
+    if (simulate) this.simulationReset = false;
+    const feedbackGroup = () => createFeedbackBindGroup(device, this.feedbackLayout, feedbackTargets, this.placeholderTexture, this.feedbackSampler);
+
+    // Compute stages first so every render pass sees this frame's simulation
+    const storageGroups = this.storageBindGroups;
+    const computeStages = this.compute?.stages || [];
+    if (simulate && storageGroups && this.computePipelines.length > 0) {
+      const computePass = commandEncoder.beginComputePass({ timestampWrites: getTimestampWrites(profiler, 'compute') });
+      computeStages.forEach((stage, i) => {
+        const computePipeline = this.computePipelines[i];
+        if (!computePipeline) return;
+        computePass.setPipeline(computePipeline);
+        computePass.setBindGroup(0, bindGroup);
+        computePass.setBindGroup(1, feedbackGroup());
+        computePass.setBindGroup(2, storageGroups.compute);
+        computePass.dispatchWorkgroups(...stage.workgroups);
+      });
+      computePass.end();
+    }
+
+    // Buffer passes in declaration order; each swap makes its output visible to later passes
+    for (const pass of simulate ? this.passes : []) {
+      const passPipeline = this.passPipelines[pass.id];
+      const target = feedbackTargets[pass.id];
+      if (!passPipeline || !target) continue;
+      const bufferPass = commandEncoder.beginRenderPass({ colorAttachments: [{ view: getWriteView(target), clearValue: { r: 0, g: 0, b: 0, a: 1 }, loadOp: 'clear', storeOp: 'store' }], timestampWrites: getTimestampWrites(profiler, pass.id) });
+      bufferPass.setPipeline(passPipeline);
+      bufferPass.setBindGroup(0, bindGroup);
+      bufferPass.setBindGroup(1, feedbackGroup());
+      bufferPass.setBindGroup(2, storageGroups?.render);
+      bufferPass.draw(6);
+      bufferPass.end();
+      swapFeedbackTarget(target);
+    }
+
+    // The Image pass renders HDR offscreen; the post stack's output pass takes
+    // it to the canvas (upscaling a scaled frame) or to the tile
+    const region = tile ? tile.region : { x: 0, y: 0, width, height };
+    const postTargets = this.getPostTargets(device, region.width, region.height);
+    const renderPass = commandEncoder.beginRenderPass({ colorAttachments: [{ view: postTargets.ping[0].createView(), clearValue: { r: 0, g: 0, b: 0, a: 1 }, loadOp: 'clear', storeOp: 'store' }], timestampWrites: getTimestampWrites(profiler, 'image') });
+    renderPass.setPipeline(pipeline);
+    renderPass.setBindGroup(0, bindGroup);
+    renderPass.setBindGroup(1, feedbackGroup());
+    renderPass.setBindGroup(2, storageGroups?.render);
+    renderPass.draw(6);
+    renderPass.end();
+
+    const post = this.getFramePost();
+    const chromatic = this.getFrameChromatic(post, currentScrollParams.strength);
+    const crop = tile ? tile.crop : region;
+    device.queue.writeBuffer(postPipelines.uniformBuffer, 0, createPostUniforms(post, chromatic, { frameWidth: width, frameHeight: height, ...region }, crop, elapsedTime, this.grade));
+    const output = tile
+      ? { view: tile.view, format: tile.format, width: crop.width, height: crop.height }
+      : { view: context.getCurrentTexture().createView(), format: (navigator as any).gpu.getPreferredCanvasFormat(), width: canvas.width, height: canvas.height };
+    encodePostStack(device, commandEncoder, postPipelines, postTargets, getPostStages(post, chromatic, this.grade), output, label => getTimestampWrites(profiler, label));
+    if (profiler) resolveTimestamps(profiler, commandEncoder);
+    device.queue.submit([commandEncoder.finish()]);
+    this.lastDraw = { cpuTime: performance.now() - drawStart, uploadTime };
+
+    device.popErrorScope().then((error: any) => {
+      if (error && !this.hasError) {
+        this.hasError = true;
+        this.stopLoop();
+        this.setError({ type: 'validation', message: error.message || "Unknown validation error." });
+      }
+    }).catch((e: any) => console.error("Error scope failure", e));
+
+    return true;
+  }
+}
@@ -0,0 +1,141 @@
+import { Modulation, ModulationCurve, ModulationSource, ShaderParam } from '../types';
+import { AudioFrame } from './AudioSources';
+
+// --- Modulation ---
+// Bindings that move ShaderParams every frame. They add to the value from
+// the controls (and the timeline), so removing them restores it. Several
+// bindings on one param add up. The hero export runtime ports the same
+// evaluation, without audio.
+
+export const MODULATION_SOURCES: { id: ModulationSource, label: string, rate?: boolean }[] = [
+  { id: 'sine', label: 'Sine LFO', rate: true },
+  { id: 'saw', label: 'Saw LFO', rate: true },
+  { id: 'noise', label: 'Noise LFO', rate: true },
+  { id: 'audioLow', label: 'Audio Low' },
+  { id: 'audioMid', label: 'Audio Mid' },
+  { id: 'audioHigh', label: 'Audio High' },
+  { id: 'audioVolume', label: 'Audio Volume' },
+  { id: 'beat', label: 'Beat Pulse' },
+  { id: 'mouseX', label: 'Mouse X' },
+  { id: 'mouseY', label: 'Mouse Y' },
+  { id: 'scroll', label: 'Scroll' },
+  { id: 'time', label: 'Time', rate: true },
+];
+
+export const MODULATION_CURVES: { id: ModulationCurve, label: string }[] = [
+  { id: 'linear', label: 'Linear' },
+  { id: 'easeIn', label: 'Ease In' },
+  { id: 'easeOut', label: 'Ease Out' },
+  { id: 'smooth', label: 'Smooth' },
+  { id: 'step', label: 'Step' },
+];
+
+// What the sources read on one frame
+export interface ModulationInputs {
+  time: number; // Seconds
+  audio: Pick<AudioFrame, 'bands' | 'beat'>;
+  mouse: [number, number]; // 0-1 across the canvas
+  scroll: number; // 0-1
+}
+
+export const createModulation = (target: string, component?: number): Modulation => ({
+  id: `mod-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  target, component, source: 'sine', rate: 0.25, depth: 0.25, offset: 0, curve: 'linear',
+});
+
+// Component labels of vector params; empty for scalars
+export const getParamComponents = (param: ShaderParam): string[] => {
+  switch (param.type) {
+    case 'vec2': return ['X', 'Y'];
+    case 'vec3': return ['X', 'Y', 'Z'];
+    case 'vec4': return ['X', 'Y', 'Z', 'W'];
+    case 'color': return ['R', 'G', 'B'];
+    case 'rgba': return ['R', 'G', 'B', 'A'];
+    default: return [];
+  }
+};
+
+// The span depth and offset are fractions of, and the limits the result is
+// clamped to (null where the param has none)
+export const getModulationRange = (param: ShaderParam): { span: number, min: number | null, max: number | null } => {
+  switch (param.type) {
+    case 'float':
+    case 'int':
+    case 'vec2':
+    case 'vec4': return { span: param.max - param.min, min: param.min, max: param.max };
+    case 'enum': return { span: Math.max(1, param.options.length - 1), min: 0, max: param.options.length - 1 };
+    case 'angle': return { span: Math.PI * 2, min: null, max: null };
+    case 'vec3': return { span: 1, min: null, max: null };
+    default: return { span: 1, min: 0, max: 1 }; // color, rgba, bool
+  }
+};
+
+// Seeds each noise binding's own stream
+export const getNoiseSeed = (id: string) => {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  return Math.abs(hash) % 1000;
+};
+
+const hash = (n: number) => {
+  const x = Math.sin(n) * 43758.5453;
+  return x - Math.floor(x);
+};
+
+// Smooth value noise in 0-1 with one new value per unit
+const valueNoise = (x: number, seed: number) => {
+  const i = Math.floor(x);
+  const f = x - i;
+  const t = f * f * (3 - 2 * f);
+  return hash(i + seed * 57) * (1 - t) + hash(i + 1 + seed * 57) * t;
+};
+
+export const readModulationSource = (modulation: Modulation, inputs: ModulationInputs): number => {
+  const phase = inputs.time * modulation.rate;
+  switch (modulation.source) {
+    case 'sine': return 0.5 - 0.5 * Math.cos(phase * Math.PI * 2); // Starts at 0 like the others
+    case 'saw': return phase - Math.floor(phase);
+    case 'noise': return valueNoise(phase, getNoiseSeed(modulation.id));
+    case 'audioLow': return inputs.audio.bands[0];
+    case 'audioMid': return inputs.audio.bands[1];
+    case 'audioHigh': return inputs.audio.bands[2];
+    case 'audioVolume': return inputs.audio.bands[3];
+    case 'beat': return inputs.audio.beat[0];
+    case 'mouseX': return inputs.mouse[0];
+    case 'mouseY': return inputs.mouse[1];
+    case 'scroll': return inputs.scroll;
+    case 'time': return phase;
+  }
+};
+
+// Shapes each whole unit, so time eases or steps once per cycle
+export const applyModulationCurve = (value: number, curve: ModulationCurve) => {
+  const whole = Math.floor(value);
+  const f = value - whole;
+  switch (curve) {
+    case 'linear': return value;
+    case 'easeIn': return whole + f * f;
+    case 'easeOut': return whole + 1 - (1 - f) * (1 - f);
+    case 'smooth': return whole + f * f * (3 - 2 * f);
+    case 'step': return whole + (f >= 0.5 ? 1 : 0);
+  }
+};
+
+// Params with every binding applied; int and enum values are rounded when written
+export const applyModulations = (params: ShaderParam[], modulations: Modulation[], inputs: ModulationInputs): ShaderParam[] => {
+  if (modulations.length === 0) return params;
+  return params.map(param => {
+    const bindings = modulations.filter(m => m.target === param.id);
+    if (bindings.length === 0) return param;
+    const { span, min, max } = getModulationRange(param);
+    const values = typeof param.value === 'boolean' ? [param.value ? 1 : 0] : typeof param.value === 'number' ? [param.value] : [...param.value];
+    bindings.forEach(m => {
+      const amount = (applyModulationCurve(readModulationSource(m, inputs), m.curve) * m.depth + m.offset) * span;
+      values.forEach((_, i) => { if (m.component === undefined || m.component === i) values[i] += amount; });
+    });
+    const limited = values.map(v => Math.min(max ?? Infinity, Math.max(min ?? -Infinity, v)));
+    if (param.type === 'bool') return { ...param, value: limited[0] >= 0.5 };
+    if (typeof param.value === 'number') return { ...param, value: limited[0] } as ShaderParam;
+    return { ...param, value: limited } as ShaderParam;
+  });
+};
@@ -0,0 +1,397 @@
+import { PostSettings, TonemapOperator } from '../types';
+import { ColorLut, LutGrade, LUT_FORMAT, createLutTexture } from './ColorLut';
+
+// --- WebGPU Type Stubs ---
+type GPUDevice = any;
+type GPUTexture = any;
+type GPUTextureView = any;
+type GPUBuffer = any;
+type GPUSampler = any;
+type GPUShaderModule = any;
+type GPURenderPipeline = any;
+type GPUBindGroupLayout = any;
+type GPUPipelineLayout = any;
+type GPUCommandEncoder = any;
+declare const GPUBufferUsage: any;
+declare const GPUShaderStage: any;
+declare const GPUTextureUsage: any;
+
+// --- Post Stack ---
+// The Image pass renders linear HDR into an rgba16float target. Each enabled
+// effect is then one fullscreen pass, ping-ponging between two HDR targets,
+// and an output pass copies the result to the canvas (upscaling a scaled
+// preview) or a capture tile. Presets without `post` tone map in their own
+// shader and get PASSTHROUGH_POST, which leaves their output untouched. A
+// LUT grade, when one is chosen, runs last on the display values.
+
+export const HDR_FORMAT = 'rgba16float';
+
+export const TONEMAP_OPERATORS: { id: TonemapOperator, label: string }[] = [
+  { id: 'aces', label: 'ACES' },
+  { id: 'reinhard', label: 'Reinhard' },
+  { id: 'hable', label: 'Hable (Filmic)' },
+  { id: 'linear', label: 'Linear (Clip)' },
+];
+
+const TONEMAP_INDEX: Record<TonemapOperator, number> = { aces: 0, reinhard: 1, hable: 2, linear: 3 };
+
+export const DEFAULT_POST: PostSettings = {
+  bloom: { enabled: true, threshold: 1.0, intensity: 0.3, radius: 0.03 },
+  chromatic: { enabled: false, strength: 0.01 },
+  vignette: { enabled: false, strength: 0.4, softness: 0.6 },
+  tonemap: { enabled: true, operator: 'aces', exposure: 1.0 },
+  grain: { enabled: true, strength: 0.03 },
+};
+
+export const PASSTHROUGH_POST: PostSettings = {
+  bloom: { ...DEFAULT_POST.bloom, enabled: false },
+  chromatic: { ...DEFAULT_POST.chromatic, enabled: false },
+  vignette: { ...DEFAULT_POST.vignette, enabled: false },
+  tonemap: { ...DEFAULT_POST.tonemap, enabled: false },
+  grain: { ...DEFAULT_POST.grain, enabled: false },
+};
+
+// Extra chromatic strength of the 'chromatic' scroll effect at full scroll and strength
+export const SCROLL_CHROMATIC_STRENGTH = 0.03;
+
+export const POST_SHADER_WGSL = `
+struct Post {
+  frame: vec4f, // xy = full frame size, zw = offset of this region in it (pixels, top-down)
+  output: vec4f, // Region uv copied by fs_output: xy = offset, zw = scale
+  bloom: vec4f, // threshold, intensity, radius (fraction of frame height)
+  lens: vec4f, // chromatic strength, vignette strength, vignette softness, grain strength
+  tone: vec4f, // exposure, operator (0 ACES, 1 Reinhard, 2 Hable, 3 linear), grain seed
+  lutMin: vec4f, // xyz = LUT domain min, w = grade intensity
+  lutMax: vec4f, // xyz = LUT domain max
+};
+
+@group(0) @binding(0) var source: texture_2d<f32>;
+@group(0) @binding(1) var linearSampler: sampler;
+@group(0) @binding(2) var<uniform> post: Post;
+@group(0) @binding(3) var aux: texture_2d<f32>; // Blurred bloom for fs_bloom_combine
+@group(0) @binding(4) var lut: texture_3d<f32>; // rgba32float, read with textureLoad
+
+struct PostOut {
+  @builtin(position) position: vec4f,
+  @location(0) uv: vec2f, // Top-down, like the textures
+};
+
+@vertex
+fn vs_main(@builtin(vertex_index) index: u32) -> PostOut {
+  let p = vec2f(f32((index << 1u) & 2u), f32(index & 2u));
+  var out: PostOut;
+  out.position = vec4f(p * 2.0 - 1.0, 0.0, 1.0);
+  out.uv = vec2f(p.x, 1.0 - p.y);
+  return out;
+}
+
+// Position in the full frame (0-1) of a region uv, so tiles match the whole image
+fn frameUV(uv: vec2f) -> vec2f {
+  return (post.frame.zw + uv * vec2f(textureDimensions(source))) / post.frame.xy;
+}
+
+// Half-resolution bright pass with a soft knee
+@fragment
+fn fs_bright(in: PostOut) -> @location(0) vec4f {
+  let c = min(textureSample(source, linearSampler, in.uv).rgb, vec3f(64.0));
+  let threshold = post.bloom.x;
+  let knee = max(threshold * 0.5, 1e-4);
+  let b = max(c.r, max(c.g, c.b));
+  var soft = clamp(b - threshold + knee, 0.0, 2.0 * knee);
+  soft = soft * soft / (4.0 * knee);
+  return vec4f(c * max(soft, b - threshold) / max(b, 1e-4), 1.0);
+}
+
+// 9-tap gaussian; 4 taps each side span the bloom radius
+fn blur(uv: vec2f, direction: vec2f) -> vec4f {
+  var weights = array<f32, 5>(0.2270270270, 0.1945945946, 0.1216216216, 0.0540540541, 0.0162162162);
+  let spacing = post.bloom.z * post.frame.y / 8.0; // Half-res texels per tap
+  let stepUV = direction * spacing / vec2f(textureDimensions(source));
+  var sum = textureSample(source, linearSampler, uv).rgb * weights[0];
+  for (var i = 1; i < 5; i++) {
+    let offset = stepUV * f32(i);
+    sum += (textureSample(source, linearSampler, uv + offset).rgb + textureSample(source, linearSampler, uv - offset).rgb) * weights[i];
+  }
+  return vec4f(sum, 1.0);
+}
+
+@fragment
+fn fs_blur_h(in: PostOut) -> @location(0) vec4f { return blur(in.uv, vec2f(1.0, 0.0)); }
+
+@fragment
+fn fs_blur_v(in: PostOut) -> @location(0) vec4f { return blur(in.uv, vec2f(0.0, 1.0)); }
+
+@fragment
+fn fs_bloom_combine(in: PostOut) -> @location(0) vec4f {
+  let c = textureSample(source, linearSampler, in.uv).rgb;
+  return vec4f(c + textureSample(aux, linearSampler, in.uv).rgb * post.bloom.y, 1.0);
+}
+
+// Red and blue pulled apart along the direction from the frame center
+@fragment
+fn fs_chromatic(in: PostOut) -> @location(0) vec4f {
+  let offset = (frameUV(in.uv) - 0.5) * post.lens.x * post.frame.xy / vec2f(textureDimensions(source));
+  let r = textureSample(source, linearSampler, in.uv + offset).r;
+  let g = textureSample(source, linearSampler, in.uv).g;
+  let b = textureSample(source, linearSampler, in.uv - offset).b;
+  return vec4f(r, g, b, 1.0);
+}
+
+@fragment
+fn fs_vignette(in: PostOut) -> @location(0) vec4f {
+  let c = textureSample(source, linearSampler, in.uv).rgb;
+  let d = distance(frameUV(in.uv), vec2f(0.5)) * 1.41421356; // 1 at the corners
+  let fade = smoothstep(1.0 - max(post.lens.z, 0.01), 1.0, d);
+  return vec4f(c * (1.0 - post.lens.y * fade), 1.0);
+}
+
+fn hable(x: vec3f) -> vec3f {
+  let a = 0.15; let b = 0.50; let c = 0.10; let d = 0.20; let e = 0.02; let f = 0.30;
+  return (x * (a * x + c * b) + d * e) / (x * (a * x + b) + d * f) - e / f;
+}
+
+// Exposure, tone curve, then gamma 2.2 for display
+@fragment
+fn fs_tonemap(in: PostOut) -> @location(0) vec4f {
+  var c = max(textureSample(source, linearSampler, in.uv).rgb * post.tone.x, vec3f(0.0));
+  let op = u32(post.tone.y);
+  if (op == 0u) { c = (c * (2.51 * c + 0.03)) / (c * (2.43 * c + 0.59) + 0.14); }
+  else if (op == 1u) { c = c / (1.0 + c); }
+  else if (op == 2u) { c = hable(c * 2.0) / hable(vec3f(11.2)); }
+  return vec4f(pow(clamp(c, vec3f(0.0), vec3f(1.0)), vec3f(1.0 / 2.2)), 1.0);
+}
+
+fn pcg(v: u32) -> u32 {
+  let state = v * 747796405u + 2891336453u;
+  let word = ((state >> ((state >> 28u) + 4u)) ^ state) * 277803737u;
+  return (word >> 22u) ^ word;
+}
+
+// Hashed per frame pixel, so tiles and supersampled stills get the same grain
+@fragment
+fn fs_grain(in: PostOut) -> @location(0) vec4f {
+  let c = textureSample(source, linearSampler, in.uv).rgb;
+  let pixel = vec2u(post.frame.zw + in.position.xy);
+  let noise = f32(pcg(pixel.x + pcg(pixel.y + pcg(u32(post.tone.z))))) / 4294967295.0;
+  return vec4f(c + (noise - 0.5) * post.lens.w, 1.0);
+}
+
+fn lutTexel(base: vec3i, offset: vec3i) -> vec3f {
+  return textureLoad(lut, base + offset, 0).rgb;
+}
+
+// Trilinear lookup by hand, since float32 textures may not be filterable
+@fragment
+fn fs_grade(in: PostOut) -> @location(0) vec4f {
+  let c = textureSample(source, linearSampler, in.uv).rgb;
+  let size = vec3f(textureDimensions(lut));
+  let range = max(post.lutMax.xyz - post.lutMin.xyz, vec3f(1e-6));
+  let p = clamp((c - post.lutMin.xyz) / range, vec3f(0.0), vec3f(1.0)) * (size - 1.0);
+  let base = vec3i(min(floor(p), size - 2.0));
+  let f = p - vec3f(base);
+  let x00 = mix(lutTexel(base, vec3i(0, 0, 0)), lutTexel(base, vec3i(1, 0, 0)), f.x);
+  let x10 = mix(lutTexel(base, vec3i(0, 1, 0)), lutTexel(base, vec3i(1, 1, 0)), f.x);
+  let x01 = mix(lutTexel(base, vec3i(0, 0, 1)), lutTexel(base, vec3i(1, 0, 1)), f.x);
+  let x11 = mix(lutTexel(base, vec3i(0, 1, 1)), lutTexel(base, vec3i(1, 1, 1)), f.x);
+  let graded = mix(mix(x00, x10, f.y), mix(x01, x11, f.y), f.z);
+  return vec4f(mix(c, graded, post.lutMin.w), 1.0);
+}
+
+@fragment
+fn fs_output(in: PostOut) -> @location(0) vec4f {
+  return textureSample(source, linearSampler, post.output.xy + in.uv * post.output.zw);
+}
+`;
+
+export type PostStage = 'bright' | 'blurH' | 'blurV' | 'bloom' | 'chromatic' | 'vignette' | 'tonemap' | 'grain' | 'grade';
+
+export const POST_ENTRY_POINTS: Record<PostStage, string> = {
+  bright: 'fs_bright', blurH: 'fs_blur_h', blurV: 'fs_blur_v', bloom: 'fs_bloom_combine',
+  chromatic: 'fs_chromatic', vignette: 'fs_vignette', tonemap: 'fs_tonemap', grain: 'fs_grain', grade: 'fs_grade',
+};
+
+// Passes one frame runs, in order. `chromatic` is the strength actually applied.
+export const getPostStages = (settings: PostSettings, chromatic: number, grade?: LutGrade | null): PostStage[] => {
+  const stages: PostStage[] = [];
+  if (settings.bloom.enabled && settings.bloom.intensity > 0) stages.push('bright', 'blurH', 'blurV', 'bloom');
+  if (chromatic > 0) stages.push('chromatic');
+  if (settings.vignette.enabled && settings.vignette.strength > 0) stages.push('vignette');
+  if (settings.tonemap.enabled) stages.push('tonemap');
+  if (settings.grain.enabled && settings.grain.strength > 0) stages.push('grain');
+  if (grade && grade.intensity > 0) stages.push('grade');
+  return stages;
+};
+
+export const getChromaticStrength = (settings: PostSettings) => settings.chromatic.enabled ? settings.chromatic.strength : 0;
+
+// Pixels of context a tile needs on each side for bloom and chromatic
+// aberration to match the full frame
+export const getPostMargin = (settings: PostSettings, chromatic: number, width: number, height: number) => {
+  const bloom = settings.bloom.enabled ? settings.bloom.radius * height + 4 : 0;
+  return Math.ceil(Math.max(bloom, chromatic * 0.5 * Math.max(width, height) + 2));
+};
+
+export interface PostRegion {
+  frameWidth: number;
+  frameHeight: number;
+  x: number; // Offset of the rendered region in the frame, pixels
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Float indices into createPostUniforms of the values that change every
+// frame (frame.xy, lens.x, tone.z), for runtimes that patch them in place
+export const POST_UNIFORM_INDEX = { frameWidth: 0, frameHeight: 1, chromatic: 12, grainSeed: 18 };
+
+// Uniform bytes for one frame; `crop` is the part of the region the output pass copies
+export const createPostUniforms = (settings: PostSettings, chromatic: number, region: PostRegion, crop: { x: number, y: number, width: number, height: number }, time: number, grade?: LutGrade | null) => new Float32Array([
+  region.frameWidth, region.frameHeight, region.x, region.y,
+  crop.x / region.width, crop.y / region.height, crop.width / region.width, crop.height / region.height,
+  settings.bloom.threshold, settings.bloom.intensity, settings.bloom.radius, 0,
+  chromatic, settings.vignette.strength, settings.vignette.softness, settings.grain.strength,
+  settings.tonemap.exposure, TONEMAP_INDEX[settings.tonemap.operator], Math.max(0, Math.floor(time * 60)), 0,
+  ...(grade ? grade.lut.domainMin : [0, 0, 0]), grade ? grade.intensity : 0,
+  ...(grade ? grade.lut.domainMax : [1, 1, 1]), 0,
+]);
+
+// --- Resources ---
+export interface PostPipelines {
+  module: GPUShaderModule;
+  layout: GPUPipelineLayout;
+  bindGroupLayout: GPUBindGroupLayout;
+  sampler: GPUSampler;
+  uniformBuffer: GPUBuffer;
+  lut: GPUTexture; // Current grade, or a 1x1x1 placeholder
+  stages: Record<PostStage, GPURenderPipeline>;
+  outputs: Record<string, GPURenderPipeline>; // By target format, built on first use
+}
+
+const createPostPipeline = (device: GPUDevice, post: Omit<PostPipelines, 'lut' | 'stages' | 'outputs'>, entryPoint: string, format: string): GPURenderPipeline =>
+  device.createRenderPipeline({
+    label: `Post ${entryPoint}`,
+    layout: post.layout,
+    vertex: { module: post.module, entryPoint: 'vs_main' },
+    fragment: { module: post.module, entryPoint, targets: [{ format }] },
+    primitive: { topology: 'triangle-list' },
+  });
+
+export const createPostPipelines = (device: GPUDevice): PostPipelines => {
+  const bindGroupLayout = device.createBindGroupLayout({
+    entries: [
+      { binding: 0, visibility: GPUShaderStage.FRAGMENT, texture: {} },
+      { binding: 1, visibility: GPUShaderStage.FRAGMENT, sampler: {} },
+      { binding: 2, visibility: GPUShaderStage.FRAGMENT, buffer: { type: 'uniform' } },
+      { binding: 3, visibility: GPUShaderStage.FRAGMENT, texture: {} },
+      { binding: 4, visibility: GPUShaderStage.FRAGMENT, texture: { sampleType: 'unfilterable-float', viewDimension: '3d' } },
+    ]
+  });
+  const base = {
+    module: device.createShaderModule({ label: 'Post', code: POST_SHADER_WGSL }),
+    layout: device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout] }),
+    bindGroupLayout,
+    sampler: device.createSampler({ magFilter: 'linear', minFilter: 'linear', addressModeU: 'clamp-to-edge', addressModeV: 'clamp-to-edge' }),
+    uniformBuffer: device.createBuffer({ size: 112, usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST }),
+  };
+  const stages = {} as Record<PostStage, GPURenderPipeline>;
+  (Object.keys(POST_ENTRY_POINTS) as PostStage[]).forEach(stage => { stages[stage] = createPostPipeline(device, base, POST_ENTRY_POINTS[stage], HDR_FORMAT); });
+  return { ...base, lut: createLutPlaceholder(device), stages, outputs: {} };
+};
+
+export const destroyPostPipelines = (post: PostPipelines) => {
+  post.uniformBuffer.destroy();
+  post.lut.destroy();
+};
+
+const createLutPlaceholder = (device: GPUDevice): GPUTexture => device.createTexture({
+  label: 'LUT placeholder',
+  size: [1, 1, 1],
+  dimension: '3d',
+  format: LUT_FORMAT,
+  usage: GPUTextureUsage.TEXTURE_BINDING,
+});
+
+// Uploads the LUT the grade stage reads; null frees it
+export const setPostLut = (device: GPUDevice, post: PostPipelines, lut: ColorLut | null) => {
+  post.lut.destroy();
+  post.lut = lut ? createLutTexture(device, lut) : createLutPlaceholder(device);
+};
+
+// HDR targets for one region size: the Image pass renders into ping[0]
+export interface PostTargets {
+  width: number;
+  height: number;
+  ping: [GPUTexture, GPUTexture];
+  bloom: [GPUTexture, GPUTexture]; // Half resolution
+}
+
+export const createPostTargets = (device: GPUDevice, width: number, height: number): PostTargets => {
+  const create = (label: string, w: number, h: number) => device.createTexture({
+    label,
+    size: [w, h, 1],
+    format: HDR_FORMAT,
+    usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
+  });
+  const halfWidth = Math.max(1, Math.ceil(width / 2));
+  const halfHeight = Math.max(1, Math.ceil(height / 2));
+  return {
+    width,
+    height,
+    ping: [create('Scene', width, height), create('Post', width, height)],
+    bloom: [create('Bloom A', halfWidth, halfHeight), create('Bloom B', halfWidth, halfHeight)],
+  };
+};
+
+export const destroyPostTargets = (targets: PostTargets) => {
+  targets.ping.forEach(t => t.destroy());
+  targets.bloom.forEach(t => t.destroy());
+};
+
+export interface PostOutput {
+  view: GPUTextureView;
+  format: string;
+  width: number; // Drawn from the top-left corner of the view
+  height: number;
+}
+
+// Records the stages and the output pass. Uniforms must already be written
+// to `post.uniformBuffer`. `timestampWrites` gets each pass label.
+export const encodePostStack = (device: GPUDevice, encoder: GPUCommandEncoder, post: PostPipelines, targets: PostTargets, stages: PostStage[], output: PostOutput, timestampWrites?: (label: string) => any) => {
+  const views = {
+    ping: targets.ping.map(t => t.createView()),
+    bloom: targets.bloom.map(t => t.createView()),
+    lut: post.lut.createView(),
+  };
+  const draw = (pipeline: GPURenderPipeline, source: GPUTextureView, target: GPUTextureView, label: string, aux = source, size?: [number, number]) => {
+    const pass = encoder.beginRenderPass({ colorAttachments: [{ view: target, clearValue: { r: 0, g: 0, b: 0, a: 1 }, loadOp: 'clear', storeOp: 'store' }], timestampWrites: timestampWrites?.(label) });
+    pass.setPipeline(pipeline);
+    pass.setBindGroup(0, device.createBindGroup({
+      layout: post.bindGroupLayout,
+      entries: [
+        { binding: 0, resource: source },
+        { binding: 1, resource: post.sampler },
+        { binding: 2, resource: { buffer: post.uniformBuffer } },
+        { binding: 3, resource: aux },
+        { binding: 4, resource: views.lut },
+      ]
+    }));
+    if (size) pass.setViewport(0, 0, size[0], size[1], 0, 1);
+    pass.draw(3);
+    pass.end();
+  };
+
+  let current = 0;
+  for (const stage of stages) {
+    const pipeline = post.stages[stage];
+    if (stage === 'bright') draw(pipeline, views.ping[current], views.bloom[0], stage);
+    else if (stage === 'blurH') draw(pipeline, views.bloom[0], views.bloom[1], stage);
+    else if (stage === 'blurV') draw(pipeline, views.bloom[1], views.bloom[0], stage);
+    else {
+      draw(pipeline, views.ping[current], views.ping[1 - current], stage, stage === 'bloom' ? views.bloom[0] : undefined);
+      current = 1 - current;
+    }
+  }
+
+  const outputPipeline = (post.outputs[output.format] ||= createPostPipeline(device, post, 'fs_output', output.format));
+  draw(outputPipeline, views.ping[current], output.view, 'output', undefined, [output.width, output.height]);
+};
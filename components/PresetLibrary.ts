@@ -0,0 +1,143 @@
+import { Preset } from '../types';
+
+// --- User Preset Library ---
+// User presets live in IndexedDB next to the built-in PRESETS. Thumbnails are
+// kept in their own store, keyed by preset id, so built-in presets get one too
+// the first time they are rendered. Imported LUTs are kept as their .cube
+// source in a third store.
+
+const DB_NAME = 'webgpu-hero-library';
+const DB_VERSION = 2;
+const PRESET_STORE = 'presets';
+const THUMBNAIL_STORE = 'thumbnails';
+const LUT_STORE = 'luts';
+
+export const THUMBNAIL_WIDTH = 320;
+export const THUMBNAIL_HEIGHT = 180;
+
+export interface UserPreset extends Preset {
+  createdAt: number; // ms since epoch
+  updatedAt: number;
+}
+
+export interface UserLut {
+  id: string;
+  name: string;
+  source: string; // .cube text, parsed when selected
+  createdAt: number; // ms since epoch
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openLibrary = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PRESET_STORE)) db.createObjectStore(PRESET_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(THUMBNAIL_STORE)) db.createObjectStore(THUMBNAIL_STORE);
+        if (!db.objectStoreNames.contains(LUT_STORE)) db.createObjectStore(LUT_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => { dbPromise = null; reject(request.error); };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs `action` in a transaction and resolves once it has committed
+const transact = async <T>(stores: string[], mode: IDBTransactionMode, action: (tx: IDBTransaction) => IDBRequest<T> | void): Promise<T> => {
+  const db = await openLibrary();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const request = action(tx);
+    tx.oncomplete = () => resolve(request ? request.result : undefined as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// --- Presets ---
+export const loadUserPresets = async (): Promise<UserPreset[]> => {
+  const presets = await transact<UserPreset[]>([PRESET_STORE], 'readonly', tx => tx.objectStore(PRESET_STORE).getAll());
+  return presets.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveUserPreset = (preset: UserPreset) => transact([PRESET_STORE], 'readwrite', tx => { tx.objectStore(PRESET_STORE).put(preset); });
+
+export const deleteUserPreset = (id: string) => transact([PRESET_STORE, THUMBNAIL_STORE], 'readwrite', tx => {
+  tx.objectStore(PRESET_STORE).delete(id);
+  tx.objectStore(THUMBNAIL_STORE).delete(id);
+});
+
+export const createUserPreset = (source: Omit<Preset, 'id'>): UserPreset => {
+  const now = Date.now();
+  return { ...source, id: `user-${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`, createdAt: now, updatedAt: now };
+};
+
+export const isUserPreset = (preset: Preset): preset is UserPreset => 'createdAt' in preset;
+
+// --- LUTs ---
+export const loadUserLuts = async (): Promise<UserLut[]> => {
+  const luts = await transact<UserLut[]>([LUT_STORE], 'readonly', tx => tx.objectStore(LUT_STORE).getAll());
+  return luts.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveUserLut = (lut: UserLut) => transact([LUT_STORE], 'readwrite', tx => { tx.objectStore(LUT_STORE).put(lut); });
+
+export const deleteUserLut = (id: string) => transact([LUT_STORE], 'readwrite', tx => { tx.objectStore(LUT_STORE).delete(id); });
+
+export const createUserLut = (name: string, source: string): UserLut => {
+  const now = Date.now();
+  return { id: `lut-${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`, name, source, createdAt: now };
+};
+
+// --- Thumbnails ---
+export const loadThumbnails = async (): Promise<Record<string, string>> => {
+  const db = await openLibrary();
+  return new Promise((resolve, reject) => {
+    const thumbnails: Record<string, string> = {};
+    const request = db.transaction(THUMBNAIL_STORE, 'readonly').objectStore(THUMBNAIL_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) { resolve(thumbnails); return; }
+      thumbnails[String(cursor.key)] = cursor.value;
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveThumbnail = (id: string, dataUrl: string) => transact([THUMBNAIL_STORE], 'readwrite', tx => { tx.objectStore(THUMBNAIL_STORE).put(dataUrl, id); });
+
+// Center-crops the rendered frame to 16:9 and scales it down to a JPEG data URL
+export const createThumbnail = (source: HTMLCanvasElement): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = THUMBNAIL_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  const aspect = THUMBNAIL_WIDTH / THUMBNAIL_HEIGHT;
+  const sw = Math.min(source.width, source.height * aspect);
+  const sh = sw / aspect;
+  ctx.drawImage(source, (source.width - sw) / 2, (source.height - sh) / 2, sw, sh, 0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
+
+// --- Search ---
+export const parseTags = (text: string) => Array.from(new Set(text.split(',').map(t => t.trim().toLowerCase()).filter(Boolean)));
+
+export const collectTags = (presets: Preset[]) => Array.from(new Set(presets.flatMap(p => p.tags.map(t => t.toLowerCase())))).sort();
+
+// Every word of `query` must appear in the name, description or tags, and
+// the preset must carry every selected tag
+export const filterPresets = <T extends Preset>(presets: T[], query: string, tags: string[]): T[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return presets.filter(p => {
+    const presetTags = p.tags.map(t => t.toLowerCase());
+    if (!tags.every(t => presetTags.includes(t))) return false;
+    const haystack = `${p.name} ${p.description} ${presetTags.join(' ')}`.toLowerCase();
+    return words.every(w => haystack.includes(w));
+  });
+};
@@ -0,0 +1,179 @@
+import { BufferPass, CameraPose, ComputeSetup, PostSettings, ShaderParam } from '../types';
+
+// --- WebGPU Type Stubs ---
+type GPUDevice = any;
+type GPUQuerySet = any;
+type GPUBuffer = any;
+type GPUCommandEncoder = any;
+declare const GPUBufferUsage: any;
+declare const GPUMapMode: any;
+
+// --- GPU Profiler ---
+// Per-pass GPU times from `timestamp-query` when the adapter has it. Without
+// it only the whole frame is timed, from submit until the queue is done.
+// One frame is profiled at a time; frames submitted while a readback is in
+// flight are skipped.
+
+export const TIMESTAMP_FEATURE = 'timestamp-query';
+export const MAX_PROFILED_PASSES = 20; // compute + 3 buffers + image + 9 post stages + output, with room to spare
+
+export type ProfileSource = 'timestamp' | 'cpu';
+
+export interface PassTiming {
+  label: string; // 'compute', a buffer id, 'image', a post stage or 'output'
+  ms: number;
+}
+
+export interface FrameProfile {
+  time: number; // Shader time, seconds
+  frameInterval: number; // ms since the previous presented frame
+  cpuTime: number; // ms to write uniforms, encode and submit
+  uploadTime: number; // ms of that spent building and uploading the uniform buffer
+  gpuTime: number; // Sum of pass times, or submit-to-done with the CPU fallback
+  passes: PassTiming[]; // Empty with the CPU fallback
+  source: ProfileSource;
+}
+
+export interface GpuProfiler {
+  querySet: GPUQuerySet;
+  resolveBuffer: GPUBuffer;
+  readBuffer: GPUBuffer;
+  labels: string[]; // Passes written this frame, in query order
+  busy: boolean; // readBuffer is being mapped
+}
+
+export const createGpuProfiler = (device: GPUDevice): GpuProfiler | null => {
+  if (!device.features.has(TIMESTAMP_FEATURE)) return null;
+  const size = MAX_PROFILED_PASSES * 2 * 8;
+  return {
+    querySet: device.createQuerySet({ type: 'timestamp', count: MAX_PROFILED_PASSES * 2 }),
+    resolveBuffer: device.createBuffer({ size, usage: GPUBufferUsage.QUERY_RESOLVE | GPUBufferUsage.COPY_SRC }),
+    readBuffer: device.createBuffer({ size, usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST }),
+    labels: [],
+    busy: false,
+  };
+};
+
+export const destroyGpuProfiler = (profiler: GpuProfiler) => {
+  profiler.querySet.destroy();
+  profiler.resolveBuffer.destroy();
+  profiler.readBuffer.destroy();
+};
+
+// `timestampWrites` for one pass descriptor; undefined when the frame is not profiled or slots ran out
+export const getTimestampWrites = (profiler: GpuProfiler | null, label: string) => {
+  if (!profiler || profiler.busy || profiler.labels.length >= MAX_PROFILED_PASSES) return undefined;
+  const index = profiler.labels.push(label) - 1;
+  return { querySet: profiler.querySet, beginningOfPassWriteIndex: index * 2, endOfPassWriteIndex: index * 2 + 1 };
+};
+
+// Call after the last pass of the frame, before finishing the encoder
+export const resolveTimestamps = (profiler: GpuProfiler, encoder: GPUCommandEncoder) => {
+  const count = profiler.labels.length * 2;
+  if (profiler.busy || count === 0) return;
+  encoder.resolveQuerySet(profiler.querySet, 0, count, profiler.resolveBuffer, 0);
+  encoder.copyBufferToBuffer(profiler.resolveBuffer, 0, profiler.readBuffer, 0, count * 8);
+};
+
+// Call after submit. Resolves the frame's pass timings, or null when it was skipped.
+export const readTimestamps = async (profiler: GpuProfiler): Promise<PassTiming[] | null> => {
+  const labels = profiler.labels;
+  profiler.labels = [];
+  if (profiler.busy || labels.length === 0) return null;
+  profiler.busy = true;
+  try {
+    await profiler.readBuffer.mapAsync(GPUMapMode.READ, 0, labels.length * 16);
+    const stamps = new BigUint64Array(profiler.readBuffer.getMappedRange(0, labels.length * 16));
+    // Timestamps are nanoseconds; a pass whose end precedes its start was not measured
+    const timings = labels.map((label, i) => ({ label, ms: Math.max(0, Number(stamps[i * 2 + 1] - stamps[i * 2])) / 1e6 }));
+    profiler.readBuffer.unmap();
+    return timings;
+  } catch (e) {
+    return null; // Device lost or destroyed mid-read
+  } finally {
+    profiler.busy = false;
+  }
+};
+
+// --- Statistics ---
+export interface TimingStats {
+  avg: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+export const getTimingStats = (values: number[]): TimingStats => {
+  if (values.length === 0) return { avg: 0, p50: 0, p95: 0, max: 0 };
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+  return { avg: values.reduce((a, b) => a + b, 0) / values.length, p50: at(0.5), p95: at(0.95), max: sorted[sorted.length - 1] };
+};
+
+// Average time of each pass label over several frames
+export const averagePasses = (profiles: FrameProfile[]): PassTiming[] => {
+  const totals = new Map<string, { ms: number, count: number }>();
+  profiles.forEach(p => p.passes.forEach(({ label, ms }) => {
+    const entry = totals.get(label) || { ms: 0, count: 0 };
+    entry.ms += ms;
+    entry.count++;
+    totals.set(label, entry);
+  }));
+  return Array.from(totals, ([label, { ms, count }]) => ({ label, ms: ms / count }));
+};
+
+// --- Benchmark ---
+export interface BenchmarkScene {
+  id: string;
+  name: string;
+  shaderCode: string;
+  passes?: BufferPass[];
+  compute?: ComputeSetup;
+  params: ShaderParam[];
+  camera?: CameraPose;
+  post?: PostSettings;
+}
+
+export interface BenchmarkOptions {
+  frames: number; // Measured frames per scene, after a short warm-up
+  width: number;
+  height: number;
+}
+
+export interface BenchmarkResult {
+  id: string;
+  name: string;
+  frames: number; // Measured frames; fewer than requested when cancelled
+  gpu: TimingStats | null; // Null when the scene failed to compile
+  cpu: TimingStats;
+  fps: number; // 1000 / average GPU time: what the GPU could sustain alone
+  passes: PassTiming[];
+  error?: string;
+}
+
+export interface BenchmarkReport {
+  format: 'webgpu-hero-benchmark';
+  version: 1;
+  createdAt: string; // ISO date
+  userAgent: string;
+  adapter: { vendor: string, architecture: string, description: string };
+  source: ProfileSource;
+  options: BenchmarkOptions;
+  results: BenchmarkResult[];
+}
+
+export const BENCHMARK_WARMUP_FRAMES = 10;
+
+export const summarizeBenchmark = (scene: BenchmarkScene, profiles: FrameProfile[], error?: string): BenchmarkResult => {
+  const gpu = error ? null : getTimingStats(profiles.map(p => p.gpuTime));
+  return {
+    id: scene.id,
+    name: scene.name,
+    frames: profiles.length,
+    gpu,
+    cpu: getTimingStats(profiles.map(p => p.cpuTime)),
+    fps: gpu && gpu.avg > 0 ? Math.round(1000 / gpu.avg * 10) / 10 : 0,
+    passes: averagePasses(profiles),
+    ...(error ? { error } : {}),
+  };
+};
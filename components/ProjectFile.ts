@@ -0,0 +1,437 @@
+import { BufferPass, CameraPose, ChannelAddressMode, ChannelFilter, ColorGrade, ComputeSetup, LayoutMode, Modulation, PostSettings, ScrollEffectType, ScrollParams, ShaderParam, TextureChannel, TextureImportOptions, Timeline } from '../types';
+import { TONEMAP_OPERATORS } from './PostStack';
+import { UserLut } from './PresetLibrary';
+import { MAX_CHANNELS } from './TextureChannels';
+import { ImportedTexture, LEGACY_TEXTURE_IMPORT, TEXTURE_FITS } from './TextureImport';
+import { BUFFER_SLOTS } from './RenderGraph';
+import { MODULATION_SOURCES, MODULATION_CURVES } from './Modulation';
+import { MAX_STORAGE_BUFFERS, MAX_STORAGE_TEXTURES } from './StorageResources';
+
+// --- Project Files ---
+// One JSON document holds the whole scene, including the channel textures as
+// base64 and the graded LUT's .cube source, so a hero can be handed over as a
+// single file.
+
+export const PROJECT_FORMAT = 'webgpu-hero-project';
+export const PROJECT_VERSION = 3;
+export const PROJECT_EXTENSION = '.hero.json';
+
+export interface ProjectState {
+  presetId: string;
+  name: string;
+  shaderCode: string;
+  passes: BufferPass[];
+  compute?: ComputeSetup;
+  params: ShaderParam[];
+  layout: LayoutMode;
+  scrollEffect: ScrollEffectType;
+  scrollParams: ScrollParams;
+  textureScale: { x: number, y: number };
+  textureOffset: { x: number, y: number };
+  camera?: CameraPose;
+  timeline: Timeline;
+  post?: PostSettings;
+  grade?: ColorGrade;
+  channels?: TextureChannel[];
+  modulations?: Modulation[];
+  seed?: number; // u.seed
+}
+
+export interface ProjectTexture {
+  name: string;
+  type: string; // MIME type
+  data: string; // base64
+  options: TextureImportOptions; // Applied again on open
+}
+
+export interface ProjectDocument {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string; // ISO date
+  state: ProjectState;
+  textures: (ProjectTexture | null)[]; // By channel index
+  lut?: UserLut; // The LUT `state.grade` points at
+}
+
+// Thrown by parseProject; `issues` lists every problem found, one per line
+export class ProjectFileError extends Error {
+  issues: string[];
+  constructor(issues: string[]) {
+    super(`Invalid project file:\n${issues.map(i => `• ${i}`).join('\n')}`);
+    this.name = 'ProjectFileError';
+    this.issues = issues;
+  }
+}
+
+const LAYOUT_MODES: LayoutMode[] = ['clean', 'center', 'split', 'cards', 'scroll'];
+const SCROLL_EFFECTS: ScrollEffectType[] = ['none', 'twist', 'fly', 'chromatic', 'liquify', 'glitch', 'blackhole', 'kaleidoscope'];
+const EASING_TYPES = ['linear', 'easeIn', 'easeOut', 'easeInOut', 'step'];
+// Numeric fields of each post effect, besides `enabled`
+const POST_FIELDS: Record<keyof PostSettings, string[]> = {
+  bloom: ['threshold', 'intensity', 'radius'],
+  chromatic: ['strength'],
+  vignette: ['strength', 'softness'],
+  tonemap: ['exposure'],
+  grain: ['strength'],
+};
+const CHANNEL_FILTERS: ChannelFilter[] = ['linear', 'nearest'];
+const CHANNEL_ADDRESS_MODES: ChannelAddressMode[] = ['repeat', 'mirror-repeat', 'clamp-to-edge'];
+const PARAM_COMPONENTS: Record<string, number> = { color: 3, vec3: 3, vec2: 2, vec4: 4, rgba: 4 };
+
+// --- Base64 ---
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  const chunk = 0x8000; // Stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+};
+
+const base64ToBytes = (data: string): Uint8Array => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// --- Validation ---
+// Each check records a readable message with the JSON path instead of throwing,
+// so one load reports every problem at once.
+class Validator {
+  issues: string[] = [];
+
+  check(condition: boolean, path: string, message: string) {
+    if (!condition) this.issues.push(`${path}: ${message}`);
+    return condition;
+  }
+  object(value: unknown, path: string): value is Record<string, any> {
+    return this.check(typeof value === 'object' && value !== null && !Array.isArray(value), path, 'expected an object');
+  }
+  array(value: unknown, path: string): value is any[] {
+    return this.check(Array.isArray(value), path, 'expected an array');
+  }
+  string(value: unknown, path: string) {
+    return this.check(typeof value === 'string', path, 'expected a string');
+  }
+  number(value: unknown, path: string) {
+    return this.check(typeof value === 'number' && Number.isFinite(value), path, 'expected a finite number');
+  }
+  numbers(value: unknown, length: number, path: string) {
+    return this.array(value, path)
+      && this.check(value.length === length, path, `expected ${length} numbers, found ${value.length}`)
+      && value.every((v, i) => this.number(v, `${path}[${i}]`));
+  }
+  oneOf<T extends string>(value: unknown, options: readonly T[], path: string) {
+    return this.check(options.includes(value as T), path, `expected one of ${options.map(o => `'${o}'`).join(', ')}, found ${JSON.stringify(value)}`);
+  }
+  xy(value: unknown, path: string) {
+    if (this.object(value, path)) { this.number(value.x, `${path}.x`); this.number(value.y, `${path}.y`); }
+  }
+}
+
+const validateParam = (v: Validator, p: any, path: string) => {
+  if (!v.object(p, path)) return;
+  v.string(p.id, `${path}.id`);
+  v.string(p.label, `${path}.label`);
+  switch (p.type) {
+    case 'float':
+    case 'int':
+      v.number(p.value, `${path}.value`);
+      v.number(p.min, `${path}.min`);
+      v.number(p.max, `${path}.max`);
+      if (p.step !== undefined) v.number(p.step, `${path}.step`);
+      break;
+    case 'angle':
+      v.number(p.value, `${path}.value`);
+      break;
+    case 'bool':
+      v.check(typeof p.value === 'boolean', `${path}.value`, 'expected true or false');
+      break;
+    case 'enum':
+      v.number(p.value, `${path}.value`);
+      if (v.array(p.options, `${path}.options`)) p.options.forEach((o: unknown, i: number) => v.string(o, `${path}.options[${i}]`));
+      break;
+    case 'vec2':
+    case 'vec4':
+      v.number(p.min, `${path}.min`);
+      v.number(p.max, `${path}.max`);
+      v.numbers(p.value, PARAM_COMPONENTS[p.type], `${path}.value`);
+      break;
+    case 'color':
+    case 'vec3':
+    case 'rgba':
+      v.numbers(p.value, PARAM_COMPONENTS[p.type], `${path}.value`);
+      break;
+    default:
+      v.check(false, `${path}.type`, `unknown param type ${JSON.stringify(p.type)}`);
+  }
+};
+
+const validateState = (v: Validator, s: any) => {
+  if (!v.object(s, 'state')) return;
+  v.string(s.presetId, 'state.presetId');
+  v.string(s.name, 'state.name');
+  v.string(s.shaderCode, 'state.shaderCode');
+
+  if (v.array(s.passes, 'state.passes')) {
+    v.check(s.passes.length <= BUFFER_SLOTS.length, 'state.passes', `at most ${BUFFER_SLOTS.length} buffer passes`);
+    s.passes.forEach((pass: any, i: number) => {
+      const path = `state.passes[${i}]`;
+      if (!v.object(pass, path)) return;
+      v.oneOf(pass.id, BUFFER_SLOTS, `${path}.id`);
+      v.string(pass.label, `${path}.label`);
+      v.string(pass.entryPoint, `${path}.entryPoint`);
+      v.string(pass.code, `${path}.code`);
+    });
+  }
+
+  if (s.compute !== undefined && v.object(s.compute, 'state.compute')) {
+    const c = s.compute;
+    v.string(c.code, 'state.compute.code');
+    if (v.array(c.stages, 'state.compute.stages')) c.stages.forEach((stage: any, i: number) => {
+      if (!v.object(stage, `state.compute.stages[${i}]`)) return;
+      v.string(stage.entryPoint, `state.compute.stages[${i}].entryPoint`);
+      v.numbers(stage.workgroups, 3, `state.compute.stages[${i}].workgroups`);
+    });
+    if (v.array(c.buffers, 'state.compute.buffers')) {
+      v.check(c.buffers.length <= MAX_STORAGE_BUFFERS, 'state.compute.buffers', `at most ${MAX_STORAGE_BUFFERS} storage buffers`);
+      c.buffers.forEach((b: any, i: number) => { if (v.object(b, `state.compute.buffers[${i}]`)) { v.string(b.name, `state.compute.buffers[${i}].name`); v.number(b.size, `state.compute.buffers[${i}].size`); } });
+    }
+    if (v.array(c.textures, 'state.compute.textures')) {
+      v.check(c.textures.length <= MAX_STORAGE_TEXTURES, 'state.compute.textures', `at most ${MAX_STORAGE_TEXTURES} storage textures`);
+      c.textures.forEach((t: any, i: number) => { if (v.object(t, `state.compute.textures[${i}]`)) { v.string(t.name, `state.compute.textures[${i}].name`); v.number(t.width, `state.compute.textures[${i}].width`); v.number(t.height, `state.compute.textures[${i}].height`); } });
+    }
+  }
+
+  if (v.array(s.params, 'state.params')) {
+    s.params.forEach((p: any, i: number) => validateParam(v, p, `state.params[${i}]`));
+    const ids = s.params.map((p: any) => p?.id);
+    v.check(new Set(ids).size === ids.length, 'state.params', 'param ids must be unique');
+  }
+
+  v.oneOf(s.layout, LAYOUT_MODES, 'state.layout');
+  v.oneOf(s.scrollEffect, SCROLL_EFFECTS, 'state.scrollEffect');
+  if (v.object(s.scrollParams, 'state.scrollParams')) {
+    v.number(s.scrollParams.strength, 'state.scrollParams.strength');
+    v.number(s.scrollParams.speed, 'state.scrollParams.speed');
+  }
+  v.xy(s.textureScale, 'state.textureScale');
+  v.xy(s.textureOffset, 'state.textureOffset');
+
+  if (s.camera !== undefined && v.object(s.camera, 'state.camera')) {
+    v.numbers(s.camera.target, 3, 'state.camera.target');
+    ['theta', 'phi', 'radius', 'fov', 'roll', 'autoOrbit'].forEach(key => v.number(s.camera[key], `state.camera.${key}`));
+  }
+
+  if (v.object(s.timeline, 'state.timeline')) {
+    const t = s.timeline;
+    v.number(t.duration, 'state.timeline.duration');
+    v.check(typeof t.loop === 'boolean', 'state.timeline.loop', 'expected true or false');
+    if (v.array(t.tracks, 'state.timeline.tracks')) t.tracks.forEach((track: any, i: number) => {
+      const path = `state.timeline.tracks[${i}]`;
+      if (!v.object(track, path)) return;
+      v.string(track.target, `${path}.target`);
+      if (v.array(track.keyframes, `${path}.keyframes`)) track.keyframes.forEach((k: any, j: number) => {
+        if (!v.object(k, `${path}.keyframes[${j}]`)) return;
+        v.number(k.time, `${path}.keyframes[${j}].time`);
+        if (v.array(k.value, `${path}.keyframes[${j}].value`)) k.value.forEach((n: unknown, c: number) => v.number(n, `${path}.keyframes[${j}].value[${c}]`));
+        v.oneOf(k.easing, EASING_TYPES, `${path}.keyframes[${j}].easing`);
+      });
+    });
+  }
+
+  if (s.post !== undefined && v.object(s.post, 'state.post')) {
+    (Object.keys(POST_FIELDS) as (keyof PostSettings)[]).forEach(effect => {
+      const path = `state.post.${effect}`;
+      if (!v.object(s.post[effect], path)) return;
+      v.check(typeof s.post[effect].enabled === 'boolean', `${path}.enabled`, 'expected true or false');
+      POST_FIELDS[effect].forEach(key => v.number(s.post[effect][key], `${path}.${key}`));
+      if (effect === 'tonemap') v.oneOf(s.post.tonemap.operator, TONEMAP_OPERATORS.map(op => op.id), `${path}.operator`);
+    });
+  }
+
+  if (s.grade !== undefined && v.object(s.grade, 'state.grade')) {
+    v.string(s.grade.lut, 'state.grade.lut');
+    v.number(s.grade.intensity, 'state.grade.intensity');
+  }
+
+  if (s.channels !== undefined && v.array(s.channels, 'state.channels')) {
+    s.channels.forEach((c: any, i: number) => {
+      const path = `state.channels[${i}]`;
+      if (!v.object(c, path)) return;
+      v.check(Number.isInteger(c.index) && c.index >= 0 && c.index < MAX_CHANNELS, `${path}.index`, `expected a channel from 0 to ${MAX_CHANNELS - 1}`);
+      v.string(c.label, `${path}.label`);
+      if (!v.object(c.sampler, `${path}.sampler`)) return;
+      v.oneOf(c.sampler.filter, CHANNEL_FILTERS, `${path}.sampler.filter`);
+      v.oneOf(c.sampler.address, CHANNEL_ADDRESS_MODES, `${path}.sampler.address`);
+      v.check(typeof c.sampler.mipmaps === 'boolean', `${path}.sampler.mipmaps`, 'expected true or false');
+      v.check(typeof c.sampler.srgb === 'boolean', `${path}.sampler.srgb`, 'expected true or false');
+    });
+    const indices = s.channels.map((c: any) => c?.index);
+    v.check(new Set(indices).size === indices.length, 'state.channels', 'channel indices must be unique');
+  }
+
+  if (s.modulations !== undefined && v.array(s.modulations, 'state.modulations')) {
+    s.modulations.forEach((m: any, i: number) => {
+      const path = `state.modulations[${i}]`;
+      if (!v.object(m, path)) return;
+      v.string(m.id, `${path}.id`);
+      v.string(m.target, `${path}.target`);
+      if (m.component !== undefined) v.check(Number.isInteger(m.component) && m.component >= 0 && m.component < 4, `${path}.component`, 'expected a component from 0 to 3');
+      v.oneOf(m.source, MODULATION_SOURCES.map(source => source.id), `${path}.source`);
+      v.oneOf(m.curve, MODULATION_CURVES.map(curve => curve.id), `${path}.curve`);
+      (['rate', 'depth', 'offset'] as const).forEach(key => v.number(m[key], `${path}.${key}`));
+    });
+  }
+
+  if (s.seed !== undefined) v.number(s.seed, 'state.seed');
+};
+
+// Upgrades older documents in place. Add a case per version bump.
+const migrateProject = (doc: any): any => {
+  if (doc.version < 2) {
+    // v1 had a single `texture`, which is channel 0
+    doc.textures = doc.texture ? [doc.texture] : [];
+    delete doc.texture;
+    doc.version = 2;
+  }
+  if (doc.version < 3) {
+    // v2 images were all squashed to 1024 and auto-leveled
+    if (Array.isArray(doc.textures)) doc.textures.forEach((t: any) => { if (t && typeof t === 'object') t.options = LEGACY_TEXTURE_IMPORT; });
+    doc.version = 3;
+  }
+  return doc;
+};
+
+const validateTexture = (v: Validator, t: any, path: string) => {
+  if (t === null || !v.object(t, path)) return;
+  v.string(t.name, `${path}.name`);
+  v.string(t.type, `${path}.type`);
+  v.string(t.data, `${path}.data`);
+  const o = t.options;
+  if (!v.object(o, `${path}.options`)) return;
+  v.check(TEXTURE_FITS.some(f => f.id === o.fit), `${path}.options.fit`, `expected one of ${TEXTURE_FITS.map(f => f.id).join(', ')}`);
+  if (v.number(o.maxSize, `${path}.options.maxSize`)) v.check(o.maxSize >= 1, `${path}.options.maxSize`, 'expected a positive size');
+  if (v.number(o.gamma, `${path}.options.gamma`)) v.check(o.gamma > 0, `${path}.options.gamma`, 'expected a positive number');
+  v.number(o.blur, `${path}.options.blur`);
+  (['powerOfTwo', 'autoLevels', 'invert', 'premultiply'] as const).forEach(key => v.check(typeof o[key] === 'boolean', `${path}.options.${key}`, 'expected true or false'));
+};
+
+// --- Public API ---
+// `textures` is indexed by channel; null entries are left on the placeholder
+export const serializeProject = async (state: ProjectState, textures: (ImportedTexture | null)[], lut?: UserLut | null): Promise<string> => {
+  const doc: ProjectDocument = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    state,
+    textures: await Promise.all(textures.map(async texture => texture ? { name: texture.file.name, type: texture.file.type || 'application/octet-stream', data: await blobToBase64(texture.file), options: texture.options } : null)),
+    lut: lut || undefined,
+  };
+  return JSON.stringify(doc, null, 2);
+};
+
+// Throws ProjectFileError with every schema problem found
+export const parseProject = (text: string): { state: ProjectState, textures: (ImportedTexture | null)[], lut: UserLut | null } => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new ProjectFileError([`not valid JSON (${e instanceof Error ? e.message : String(e)})`]);
+  }
+
+  const v = new Validator();
+  if (!v.object(raw, 'file')) throw new ProjectFileError(v.issues);
+  if (raw.format !== PROJECT_FORMAT) throw new ProjectFileError([`format: expected '${PROJECT_FORMAT}', this is not a project file`]);
+  if (!v.number(raw.version, 'version')) throw new ProjectFileError(v.issues);
+  if (raw.version > PROJECT_VERSION) throw new ProjectFileError([`version: saved by a newer version of the app (v${raw.version}, this app reads up to v${PROJECT_VERSION})`]);
+
+  const doc = migrateProject(raw);
+  validateState(v, doc.state);
+  if (v.array(doc.textures, 'textures')) {
+    v.check(doc.textures.length <= MAX_CHANNELS, 'textures', `at most ${MAX_CHANNELS} channels`);
+    doc.textures.forEach((t: any, i: number) => validateTexture(v, t, `textures[${i}]`));
+  }
+  if (doc.lut !== undefined && v.object(doc.lut, 'lut')) {
+    v.string(doc.lut.id, 'lut.id');
+    v.string(doc.lut.name, 'lut.name');
+    v.string(doc.lut.source, 'lut.source');
+    v.number(doc.lut.createdAt, 'lut.createdAt');
+  }
+  if (v.issues.length > 0) throw new ProjectFileError(v.issues);
+
+  const textures = doc.textures.map((t: ProjectTexture | null, i: number) => {
+    if (!t) return null;
+    try {
+      return { file: new File([base64ToBytes(t.data)], t.name, { type: t.type }), options: t.options };
+    } catch (e) {
+      throw new ProjectFileError([`textures[${i}].data: not valid base64`]);
+    }
+  });
+  return { state: doc.state as ProjectState, textures, lut: doc.lut || null };
+};
+
+// --- File access ---
+// Uses the File System Access API where available so Save can overwrite the
+// opened file; other browsers fall back to a download and an <input type=file>.
+export type ProjectHandle = any; // FileSystemFileHandle
+
+const PICKER_TYPES = [{ description: 'Hero Project', accept: { 'application/json': [PROJECT_EXTENSION, '.json'] } }];
+
+export const openProjectFile = async (): Promise<{ text: string, name: string, handle: ProjectHandle | null } | null> => {
+  const picker = (window as any).showOpenFilePicker;
+  if (picker) {
+    try {
+      const [handle] = await picker({ types: PICKER_TYPES });
+      const file: File = await handle.getFile();
+      return { text: await file.text(), name: file.name, handle };
+    } catch (e: any) {
+      if (e?.name === 'AbortError') return null;
+      throw e;
+    }
+  }
+
+  return new Promise(resolve => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = `${PROJECT_EXTENSION},.json,application/json`;
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      resolve(file ? { text: await file.text(), name: file.name, handle: null } : null);
+    };
+    input.click();
+  });
+};
+
+// Writes to `handle` when given, otherwise asks for a location. Returns the
+// handle to reuse for the next Save, or null when the user cancelled.
+export const saveProjectFile = async (text: string, suggestedName: string, handle: ProjectHandle | null): Promise<ProjectHandle | null | 'downloaded'> => {
+  const picker = (window as any).showSaveFilePicker;
+  if (!handle && picker) {
+    try {
+      handle = await picker({ suggestedName, types: PICKER_TYPES });
+    } catch (e: any) {
+      if (e?.name === 'AbortError') return null;
+      throw e;
+    }
+  }
+
+  if (handle) {
+    const writable = await handle.createWritable();
+    await writable.write(text);
+    await writable.close();
+    return handle;
+  }
+
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = suggestedName;
+  a.click();
+  URL.revokeObjectURL(url);
+  return 'downloaded';
+};
+
+export const getProjectName = (fileName: string) => fileName.replace(/\.hero\.json$|\.json$/i, '');
@@ -0,0 +1,101 @@
+import { BufferPass, BufferPassId } from '../types';
+
+// --- WebGPU Type Stubs ---
+type GPUDevice = any;
+type GPUTexture = any;
+type GPUTextureView = any;
+type GPUBindGroupLayout = any;
+type GPUBindGroup = any;
+type GPUSampler = any;
+declare const GPUTextureUsage: any;
+declare const GPUShaderStage: any;
+
+export const FEEDBACK_FORMAT = 'rgba16float';
+export const BUFFER_SLOTS: BufferPassId[] = ['bufferA', 'bufferB', 'bufferC'];
+
+// Ping-pong pair for one buffer pass. `read` holds the latest finished frame,
+// the pass renders into the other texture and the pair is swapped afterwards.
+export interface FeedbackTarget {
+  textures: [GPUTexture, GPUTexture];
+  read: 0 | 1;
+  width: number;
+  height: number;
+}
+
+export type FeedbackTargets = Partial<Record<BufferPassId, FeedbackTarget>>;
+
+// --- Layout ---
+export const createFeedbackBindGroupLayout = (device: GPUDevice): GPUBindGroupLayout => {
+  return device.createBindGroupLayout({
+    entries: [
+      ...BUFFER_SLOTS.map((_, i) => ({ binding: i, visibility: GPUShaderStage.FRAGMENT | GPUShaderStage.COMPUTE, texture: { sampleType: 'float' } })),
+      { binding: BUFFER_SLOTS.length, visibility: GPUShaderStage.FRAGMENT | GPUShaderStage.COMPUTE, sampler: {} }
+    ]
+  });
+};
+
+// Bound in place of buffers the current preset does not declare
+export const createPlaceholderTexture = (device: GPUDevice): GPUTexture => {
+  return device.createTexture({
+    size: [1, 1, 1],
+    format: FEEDBACK_FORMAT,
+    usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST,
+  });
+};
+
+// --- Targets ---
+const createFeedbackTarget = (device: GPUDevice, id: BufferPassId, width: number, height: number): FeedbackTarget => {
+  const create = (index: number) => device.createTexture({
+    label: `${id}_${index}`,
+    size: [width, height, 1],
+    format: FEEDBACK_FORMAT,
+    usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_SRC,
+  });
+  return { textures: [create(0), create(1)], read: 0, width, height };
+};
+
+export const destroyFeedbackTarget = (target: FeedbackTarget) => {
+  target.textures[0].destroy();
+  target.textures[1].destroy();
+};
+
+// Creates, resizes or drops targets so they match the declared passes. Targets
+// that already have the right size are kept, preserving their history.
+export const syncFeedbackTargets = (device: GPUDevice, targets: FeedbackTargets, passes: BufferPass[], width: number, height: number) => {
+  BUFFER_SLOTS.forEach(id => {
+    const existing = targets[id];
+    const declared = passes.some(p => p.id === id);
+    if (existing && (!declared || existing.width !== width || existing.height !== height)) {
+      destroyFeedbackTarget(existing);
+      delete targets[id];
+    }
+    if (declared && !targets[id]) {
+      targets[id] = createFeedbackTarget(device, id, width, height);
+    }
+  });
+};
+
+export const getWriteView = (target: FeedbackTarget): GPUTextureView => target.textures[1 - target.read].createView();
+
+export const swapFeedbackTarget = (target: FeedbackTarget) => {
+  target.read = target.read === 0 ? 1 : 0;
+};
+
+export const createFeedbackBindGroup = (
+  device: GPUDevice,
+  layout: GPUBindGroupLayout,
+  targets: FeedbackTargets,
+  placeholder: GPUTexture,
+  sampler: GPUSampler
+): GPUBindGroup => {
+  return device.createBindGroup({
+    layout,
+    entries: [
+      ...BUFFER_SLOTS.map((id, i) => {
+        const target = targets[id];
+        return { binding: i, resource: target ? target.textures[target.read].createView() : placeholder.createView() };
+      }),
+      { binding: BUFFER_SLOTS.length, resource: sampler }
+    ]
+  });
+};
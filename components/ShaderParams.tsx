@@ -1,89 +1,411 @@
 
 import React from 'react';
-import { ShaderParam, UniformLayout } from '../types';
+import { ShaderParam, ParamType, UniformLayout, UniformField, ScrollEffectType, Modulation, ModulationSource, ModulationCurve } from '../types';
+import { reflectStruct } from './WgslReflection';
+import { MODULATION_SOURCES, MODULATION_CURVES, createModulation, getParamComponents } from './Modulation';
 
 // --- Logic ---
-export const calculateUniformLayout = (params: ShaderParam[], startOffset: number = 0): UniformLayout => {
-  let currentOffset = startOffset;
+// Fields the engine fills every frame, with the WGSL type it writes
+export const ENGINE_UNIFORMS: Record<string, string> = {
+  resolution: 'vec2<f32>',
+  time: 'f32',
+  dt: 'f32',
+  cameraPos: 'vec4<f32>',
+  cameraTarget: 'vec4<f32>',
+  cameraUp: 'vec4<f32>',
+  mouse: 'vec4<f32>',
+  tile: 'vec4<f32>',
+  frame: 'f32',
+  seed: 'f32',
+  lightAz: 'f32',
+  lightEl: 'f32',
+  isRendering: 'f32',
+  aberrationStrength: 'f32',
+  audio: 'vec4<f32>',
+  audioBeat: 'vec4<f32>',
+  scrollY: 'f32',
+  scrollType: 'f32',
+  scrollParam1: 'f32',
+  scrollParam2: 'f32',
+  textureScale: 'vec2<f32>',
+  textureOffset: 'vec2<f32>',
+  channel0Size: 'vec2<f32>',
+  channel1Size: 'vec2<f32>',
+  channel2Size: 'vec2<f32>',
+  channel3Size: 'vec2<f32>',
+};
+
+// Value of `scrollType` for each scroll effect
+export const SCROLL_EFFECT_INDEX: Record<ScrollEffectType, number> = {
+  none: 0,
+  twist: 1,
+  fly: 2,
+  chromatic: 3,
+  liquify: 4,
+  glitch: 5,
+  blackhole: 6,
+  kaleidoscope: 7,
+};
+
+// WGSL field types each param type can be written into. WGSL bools are not
+// host-shareable, so toggles and enum indices land in a u32, i32 or f32.
+const PARAM_FIELD_TYPES: Record<ParamType, string[]> = {
+  float: ['f32'],
+  color: ['vec3<f32>', 'vec4<f32>'],
+  vec3: ['vec3<f32>', 'vec4<f32>'],
+  vec2: ['vec2<f32>'],
+  vec4: ['vec4<f32>'],
+  rgba: ['vec4<f32>'],
+  int: ['i32', 'u32', 'f32'],
+  bool: ['u32', 'i32', 'f32'],
+  enum: ['u32', 'i32', 'f32'],
+  angle: ['f32'],
+};
+
+// Reflects `struct Uniforms` out of the shader. Throws on a missing or
+// malformed struct.
+export const calculateUniformLayout = (code: string): UniformLayout => {
+  const struct = reflectStruct(code, 'Uniforms');
   const offsetMap: Record<string, number> = {};
+  const fields: Record<string, UniformField> = {};
 
-  params.forEach(param => {
-    let alignment = 4;
-    let size = 4;
+  struct.fields.forEach(({ name, type, offset, scalar, components }) => {
+    offsetMap[name] = offset;
+    fields[name] = { name, type, offset, scalar, components };
+  });
+
+  const totalPadding = (16 - (struct.size % 16)) % 16;
+  return { size: Math.max(16, struct.size + totalPadding), offsetMap, fields };
+};
 
-    if (param.type === 'color' || param.type === 'vec3') {
-      alignment = 16;
-      size = 16;
+// Every mismatch between the struct, the engine uniforms and the param list.
+// Fields starting with '_' are padding and are ignored.
+export const validateUniformLayout = (layout: UniformLayout, params: ShaderParam[]): string[] => {
+  const errors: string[] = [];
+
+  Object.values(layout.fields).forEach(field => {
+    if (field.name.startsWith('_')) return;
+    const engineType = ENGINE_UNIFORMS[field.name];
+    if (engineType) {
+      if (engineType !== field.type) errors.push(`Engine uniform '${field.name}' must be ${engineType}, found ${field.type}.`);
+      return;
+    }
+    const param = params.find(p => p.id === field.name);
+    if (!param) {
+      errors.push(`Uniform field '${field.name}: ${field.type}' has no matching ShaderParam.`);
+    } else if (!PARAM_FIELD_TYPES[param.type].includes(field.type)) {
+      errors.push(`ShaderParam '${param.id}' (${param.type}) cannot be written to '${field.name}: ${field.type}'.`);
     }
+  });
 
-    const padding = (alignment - (currentOffset % alignment)) % alignment;
-    currentOffset += padding;
-    offsetMap[param.id] = currentOffset;
-    currentOffset += size;
+  params.forEach(param => {
+    if (!layout.fields[param.id]) errors.push(`ShaderParam '${param.id}' has no matching field in struct Uniforms.`);
+    if (param.type === 'int' && layout.fields[param.id]?.type === 'u32' && param.min < 0) {
+      errors.push(`ShaderParam '${param.id}' can go negative but is written to a u32.`);
+    }
   });
 
-  const totalPadding = (16 - (currentOffset % 16)) % 16;
-  const totalSize = currentOffset + totalPadding;
+  return errors;
+};
+
+// Typed views over one uniform upload
+export interface UniformData {
+  buffer: ArrayBuffer;
+  f32: Float32Array;
+  i32: Int32Array;
+  u32: Uint32Array;
+}
+
+export const createUniformData = (layout: UniformLayout): UniformData => {
+  const buffer = new ArrayBuffer(layout.size);
+  return { buffer, f32: new Float32Array(buffer), i32: new Int32Array(buffer), u32: new Uint32Array(buffer) };
+};
+
+// Writes a scalar or vector field by name. Missing fields are skipped, so
+// shaders only declare the uniforms they use.
+export const writeUniform = (data: UniformData, layout: UniformLayout, name: string, value: number | readonly number[]) => {
+  const field = layout.fields[name];
+  if (!field || !field.scalar || field.scalar === 'f16') return;
+  const view = data[field.scalar];
+  const index = field.offset / 4;
+  const values = typeof value === 'number' ? [value] : value;
+  for (let i = 0; i < Math.min(field.components, values.length); i++) {
+    view[index + i] = values[i];
+  }
+};
 
-  return { size: totalSize, offsetMap };
+// The numbers a param writes into its field
+export const getParamUniformValue = (param: ShaderParam): number | readonly number[] => {
+  switch (param.type) {
+    case 'bool': return param.value ? 1 : 0;
+    case 'int': return Math.round(param.value);
+    case 'enum': return Math.max(0, Math.min(param.options.length - 1, Math.round(param.value)));
+    default: return param.value;
+  }
 };
 
 export const writeParamsToBuffer = (
-  data: Float32Array, 
+  data: UniformData, 
   params: ShaderParam[], 
   layout: UniformLayout
 ) => {
-  params.forEach(param => {
-    const floatOffset = layout.offsetMap[param.id] / 4;
-    if (param.type === 'float') {
-      data[floatOffset] = param.value;
-    } else if (param.type === 'color' || param.type === 'vec3') {
-      data[floatOffset] = param.value[0];
-      data[floatOffset + 1] = param.value[1];
-      data[floatOffset + 2] = param.value[2];
-    }
-  });
+  params.forEach(param => writeUniform(data, layout, param.id, getParamUniformValue(param)));
 };
 
 // --- UI Component ---
 interface ShaderControlsProps {
   params: ShaderParam[];
   setParams: (newParams: ShaderParam[]) => void;
+  modulations?: Modulation[];
+  setModulations?: (modulations: Modulation[]) => void; // Without it the modulation buttons are hidden
 }
 
-export const ShaderControls: React.FC<ShaderControlsProps> = ({ params, setParams }) => {
+const rgbToHex = (rgb: readonly number[]) => {
+  const toHex = (c: number) => {
+    const hex = Math.round(c * 255).toString(16);
+    return hex.length === 1 ? '0' + hex : hex;
+  };
+  return `#${toHex(rgb[0])}${toHex(rgb[1])}${toHex(rgb[2])}`;
+};
 
-  const handleFloatChange = (id: string, newVal: number) => {
-    const nextParams = params.map(p => {
-      if (p.id === id && p.type === 'float') {
-        return { ...p, value: newVal };
-      }
-      return p;
-    });
-    setParams(nextParams);
+const hexToRgb = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16) / 255,
+  parseInt(hex.slice(3, 5), 16) / 255,
+  parseInt(hex.slice(5, 7), 16) / 255,
+];
+
+const formatParamValue = (param: ShaderParam): string => {
+  switch (param.type) {
+    case 'float': return param.value.toFixed(2);
+    case 'int': return String(Math.round(param.value));
+    case 'angle': return `${Math.round(param.value * 180 / Math.PI)}°`;
+    case 'vec2': return `${param.value[0].toFixed(2)}, ${param.value[1].toFixed(2)}`;
+    case 'bool': return param.value ? 'ON' : 'OFF';
+    case 'rgba': return `α ${param.value[3].toFixed(2)}`;
+    default: return '';
+  }
+};
+
+const ParamSlider: React.FC<{ value: number, min: number, max: number, step: number, onChange: (value: number) => void }> = ({ value, min, max, step, onChange }) => {
+  const percent = max > min ? ((value - min) / (max - min)) * 100 : 0;
+  return (
+    <div className="relative h-4 flex items-center w-full">
+        <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={value}
+            onChange={(e) => onChange(parseFloat(e.target.value))}
+            className="w-full z-10 opacity-0 absolute inset-0 cursor-pointer"
+        />
+        <div className="w-full h-[1px] bg-white/20 relative">
+            <div 
+                className="absolute top-0 bottom-0 bg-white transition-all duration-75"
+                style={{ width: `${percent}%` }}
+            />
+        </div>
+        <div 
+            className="absolute w-2 h-2 bg-acid rotate-45 pointer-events-none transition-all duration-75 shadow-[0_0_5px_rgba(204,255,0,0.5)]"
+            style={{ left: `${percent}%`, transform: 'translateX(-50%) rotate(45deg)' }}
+        />
+    </div>
+  );
+};
+
+// Drag inside the square; +Y points up like UV space
+const XYPad: React.FC<{ value: [number, number], min: number, max: number, onChange: (value: [number, number]) => void }> = ({ value, min, max, onChange }) => {
+  const update = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const nx = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    const ny = Math.max(0, Math.min(1, 1 - (e.clientY - rect.top) / rect.height));
+    onChange([min + nx * (max - min), min + ny * (max - min)]);
+  };
+  const nx = max > min ? (value[0] - min) / (max - min) : 0.5;
+  const ny = max > min ? (value[1] - min) / (max - min) : 0.5;
+  return (
+    <div
+        className="relative w-full aspect-square max-h-40 border border-white/20 hover:border-white bg-white/5 cursor-crosshair touch-none transition-colors"
+        onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); update(e); }}
+        onPointerMove={(e) => { if (e.currentTarget.hasPointerCapture(e.pointerId)) update(e); }}
+    >
+        <div className="absolute left-1/2 top-0 bottom-0 w-[1px] bg-white/10 pointer-events-none" />
+        <div className="absolute top-1/2 left-0 right-0 h-[1px] bg-white/10 pointer-events-none" />
+        <div className="absolute top-0 bottom-0 w-[1px] bg-acid/40 pointer-events-none" style={{ left: `${nx * 100}%` }} />
+        <div className="absolute left-0 right-0 h-[1px] bg-acid/40 pointer-events-none" style={{ top: `${(1 - ny) * 100}%` }} />
+        <div
+            className="absolute w-2 h-2 bg-acid rotate-45 pointer-events-none shadow-[0_0_5px_rgba(204,255,0,0.5)]"
+            style={{ left: `${nx * 100}%`, top: `${(1 - ny) * 100}%`, transform: 'translate(-50%, -50%) rotate(45deg)' }}
+        />
+    </div>
+  );
+};
+
+// 0 rad points right, angles grow counter-clockwise
+const AngleDial: React.FC<{ value: number, onChange: (value: number) => void }> = ({ value, onChange }) => {
+  const update = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const angle = Math.atan2(-(e.clientY - rect.top - rect.height / 2), e.clientX - rect.left - rect.width / 2);
+    onChange(angle < 0 ? angle + Math.PI * 2 : angle);
   };
+  return (
+    <div className="flex items-center gap-4">
+        <div
+            className="relative w-14 h-14 rounded-full border border-white/20 hover:border-white bg-white/5 cursor-pointer touch-none transition-colors"
+            onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); update(e); }}
+            onPointerMove={(e) => { if (e.currentTarget.hasPointerCapture(e.pointerId)) update(e); }}
+        >
+            <div
+                className="absolute left-1/2 top-1/2 h-[1px] w-1/2 bg-acid origin-left pointer-events-none"
+                style={{ transform: `rotate(${-value}rad)` }}
+            />
+            <div className="absolute left-1/2 top-1/2 w-1.5 h-1.5 -translate-x-1/2 -translate-y-1/2 bg-white rounded-full pointer-events-none" />
+        </div>
+        <input
+            type="number"
+            value={Math.round(value * 180 / Math.PI)}
+            onChange={(e) => onChange((parseFloat(e.target.value) || 0) * Math.PI / 180)}
+            className="w-16 bg-transparent border-b border-white/20 focus:border-acid outline-none font-mono text-[10px] text-white py-1"
+        />
+    </div>
+  );
+};
 
-  const handleColorChange = (id: string, hex: string) => {
-    const r = parseInt(hex.slice(1, 3), 16) / 255;
-    const g = parseInt(hex.slice(3, 5), 16) / 255;
-    const b = parseInt(hex.slice(5, 7), 16) / 255;
-    const newColor: [number, number, number] = [r, g, b];
+const ModulationSlider: React.FC<{ label: string, value: number, min: number, max: number, step: number, onChange: (value: number) => void }> = ({ label, value, min, max, step, onChange }) => (
+  <div className="flex items-center gap-3">
+      <span className="w-12 font-mono text-[9px] uppercase text-white/30">{label}</span>
+      <ParamSlider value={value} min={min} max={max} step={step} onChange={onChange} />
+      <span className="w-10 text-right font-mono text-[9px] text-white">{value.toFixed(2)}</span>
+  </div>
+);
 
-    const nextParams = params.map(p => {
-      if (p.id === id && (p.type === 'color' || p.type === 'vec3')) {
-        return { ...p, value: newColor };
-      }
-      return p;
-    });
-    setParams(nextParams);
+const selectClass = "flex-1 min-w-0 bg-black border border-white/20 hover:border-white focus:border-acid outline-none font-mono text-[9px] uppercase text-white px-1 py-1 cursor-pointer transition-colors";
+
+// Bindings of one param, edited in place below its control
+const ModulationEditor: React.FC<{ param: ShaderParam, bindings: Modulation[], onChange: (id: string, patch: Partial<Modulation>) => void, onAdd: () => void, onRemove: (id: string) => void }> = ({ param, bindings, onChange, onAdd, onRemove }) => {
+  const components = getParamComponents(param);
+  return (
+    <div className="mt-3 space-y-3 border-l border-acid/30 pl-3">
+        {bindings.map(m => (
+          <div key={m.id} className="space-y-2">
+              <div className="flex gap-2">
+                  <select value={m.source} onChange={(e) => onChange(m.id, { source: e.target.value as ModulationSource })} className={selectClass}>
+                      {MODULATION_SOURCES.map(source => <option key={source.id} value={source.id}>{source.label}</option>)}
+                  </select>
+                  <select value={m.curve} onChange={(e) => onChange(m.id, { curve: e.target.value as ModulationCurve })} className={selectClass}>
+                      {MODULATION_CURVES.map(curve => <option key={curve.id} value={curve.id}>{curve.label}</option>)}
+                  </select>
+                  {components.length > 0 && (
+                    <select value={m.component ?? -1} onChange={(e) => { const c = parseInt(e.target.value, 10); onChange(m.id, { component: c < 0 ? undefined : c }); }} className={`${selectClass} flex-none w-12`}>
+                        <option value={-1}>All</option>
+                        {components.map((label, i) => <option key={label} value={i}>{label}</option>)}
+                    </select>
+                  )}
+                  <button onClick={() => onRemove(m.id)} className="font-mono text-[10px] text-white/30 hover:text-red-400 px-1" title="Remove binding">✕</button>
+              </div>
+              {MODULATION_SOURCES.find(source => source.id === m.source)?.rate && (
+                <ModulationSlider label="Rate Hz" value={m.rate} min={0.01} max={4} step={0.01} onChange={(rate) => onChange(m.id, { rate })} />
+              )}
+              <ModulationSlider label="Depth" value={m.depth} min={-1} max={1} step={0.01} onChange={(depth) => onChange(m.id, { depth })} />
+              <ModulationSlider label="Offset" value={m.offset} min={-1} max={1} step={0.01} onChange={(offset) => onChange(m.id, { offset })} />
+          </div>
+        ))}
+        <button onClick={onAdd} className="font-mono text-[9px] uppercase tracking-widest text-white/40 hover:text-acid">+ Add Modulation</button>
+    </div>
+  );
+};
+
+export const ShaderControls: React.FC<ShaderControlsProps> = ({ params, setParams, modulations = [], setModulations }) => {
+  const [editing, setEditing] = React.useState<string | null>(null); // Param whose bindings are open
+
+  const handleValueChange = <T extends ShaderParam>(id: string, newVal: T['value']) => {
+    setParams(params.map(p => p.id === id ? { ...p, value: newVal } as ShaderParam : p));
   };
 
-  const rgbToHex = (rgb: [number, number, number]) => {
-    const toHex = (c: number) => {
-      const hex = Math.round(c * 255).toString(16);
-      return hex.length === 1 ? '0' + hex : hex;
-    };
-    return `#${toHex(rgb[0])}${toHex(rgb[1])}${toHex(rgb[2])}`;
+  const modulated = (id: string) => modulations.filter(m => m.target === id).length;
+
+  const renderControl = (param: ShaderParam) => {
+    switch (param.type) {
+      case 'float':
+        return <ParamSlider value={param.value} min={param.min} max={param.max} step={param.step || 0.01} onChange={(v) => handleValueChange(param.id, v)} />;
+
+      case 'int':
+        return <ParamSlider value={param.value} min={param.min} max={param.max} step={Math.max(1, Math.round(param.step || 1))} onChange={(v) => handleValueChange(param.id, Math.round(v))} />;
+
+      case 'vec2':
+        return <XYPad value={param.value} min={param.min} max={param.max} onChange={(v) => handleValueChange(param.id, v)} />;
+
+      case 'vec4':
+        return (
+          <div className="space-y-2">
+              {(['X', 'Y', 'Z', 'W'] as const).map((axis, i) => (
+                <div key={axis} className="flex items-center gap-3">
+                    <span className="w-3 font-mono text-[9px] text-white/30">{axis}</span>
+                    <ParamSlider
+                        value={param.value[i]} min={param.min} max={param.max} step={param.step || 0.01}
+                        onChange={(v) => handleValueChange(param.id, param.value.map((c, j) => j === i ? v : c) as [number, number, number, number])}
+                    />
+                    <span className="w-8 text-right font-mono text-[9px] text-white">{param.value[i].toFixed(2)}</span>
+                </div>
+              ))}
+          </div>
+        );
+
+      case 'color':
+      case 'vec3':
+      case 'rgba': {
+        const hex = rgbToHex(param.value);
+        const alpha = param.type === 'rgba' ? param.value[3] : 1;
+        return (
+          <div className="space-y-2">
+              <div className="flex gap-2">
+                  <div className="relative w-full h-8 border border-white/20 group-hover:border-white transition-colors cursor-pointer bg-white/5">
+                      <input
+                          type="color"
+                          value={hex}
+                          onChange={(e) => handleValueChange(param.id, param.type === 'rgba' ? [...hexToRgb(e.target.value), alpha] : hexToRgb(e.target.value))}
+                          className="opacity-0 absolute inset-0 w-full h-full cursor-pointer z-10"
+                      />
+                      {/* Checkerboard shows through translucent colors */}
+                      {param.type === 'rgba' && <div className="absolute inset-1 bg-[repeating-conic-gradient(#444_0%_25%,#222_0%_50%)] bg-[length:8px_8px]"></div>}
+                      <div className="absolute inset-1" style={{ backgroundColor: hex, opacity: alpha }}></div>
+                  </div>
+                  <div className="font-mono text-[9px] self-center text-white/30 tracking-widest">{hex}</div>
+              </div>
+              {param.type === 'rgba' && (
+                <div className="flex items-center gap-3">
+                    <span className="w-3 font-mono text-[9px] text-white/30">A</span>
+                    <ParamSlider value={alpha} min={0} max={1} step={0.01} onChange={(v) => handleValueChange(param.id, [param.value[0], param.value[1], param.value[2], v])} />
+                </div>
+              )}
+          </div>
+        );
+      }
+
+      case 'bool':
+        return (
+          <button
+              onClick={() => handleValueChange(param.id, !param.value)}
+              className={`relative w-10 h-5 border transition-colors ${param.value ? 'border-acid bg-acid/20' : 'border-white/20 bg-white/5 hover:border-white'}`}
+          >
+              <div className={`absolute top-0.5 w-3.5 h-3.5 transition-all duration-150 ${param.value ? 'left-[22px] bg-acid shadow-[0_0_5px_rgba(204,255,0,0.5)]' : 'left-0.5 bg-white/40'}`} />
+          </button>
+        );
+
+      case 'enum':
+        return (
+          <select
+              value={param.value}
+              onChange={(e) => handleValueChange(param.id, parseInt(e.target.value, 10))}
+              className="w-full bg-black border border-white/20 hover:border-white focus:border-acid outline-none font-mono text-[10px] uppercase tracking-widest text-white px-2 py-2 cursor-pointer transition-colors"
+          >
+              {param.options.map((option, i) => <option key={option} value={i}>{option}</option>)}
+          </select>
+        );
+
+      case 'angle':
+        return <AngleDial value={param.value} onChange={(v) => handleValueChange(param.id, v)} />;
+    }
   };
 
   return (
@@ -94,48 +416,32 @@ export const ShaderControls: React.FC<ShaderControlsProps> = ({ params, setParam
                 <label className="text-[10px] font-mono uppercase tracking-widest text-gray-400 group-hover:text-acid transition-colors select-none">
                     {param.label}
                 </label>
-                <span className="text-[10px] font-mono text-white">
-                    {param.type === 'float' ? param.value.toFixed(2) : ''}
-                </span>
+                <div className="flex items-baseline gap-2">
+                    <span className="text-[10px] font-mono text-white">
+                        {formatParamValue(param)}
+                    </span>
+                    {setModulations && (
+                      <button
+                          onClick={() => setEditing(editing === param.id ? null : param.id)}
+                          className={`font-mono text-[10px] px-1 border transition-colors ${modulated(param.id) ? 'border-acid text-acid' : 'border-white/10 text-white/30 hover:text-white hover:border-white'}`}
+                          title="Modulation"
+                      >
+                          ~{modulated(param.id) || ''}
+                      </button>
+                    )}
+                </div>
             </div>
 
-            {param.type === 'float' && (
-                <div className="relative h-4 flex items-center">
-                    <input
-                        type="range"
-                        min={param.min}
-                        max={param.max}
-                        step={param.step || 0.01}
-                        value={param.value}
-                        onChange={(e) => handleFloatChange(param.id, parseFloat(e.target.value))}
-                        className="w-full z-10 opacity-0 absolute inset-0 cursor-pointer"
-                    />
-                    <div className="w-full h-[1px] bg-white/20 relative">
-                        <div 
-                            className="absolute top-0 bottom-0 bg-white transition-all duration-75"
-                            style={{ width: `${((param.value - param.min) / (param.max - param.min)) * 100}%` }}
-                        />
-                    </div>
-                    <div 
-                        className="absolute w-2 h-2 bg-acid rotate-45 pointer-events-none transition-all duration-75 shadow-[0_0_5px_rgba(204,255,0,0.5)]"
-                        style={{ left: `${((param.value - param.min) / (param.max - param.min)) * 100}%`, transform: 'translateX(-50%) rotate(45deg)' }}
-                    />
-                </div>
-            )}
+            {renderControl(param)}
 
-            {(param.type === 'color' || param.type === 'vec3') && (
-                <div className="flex gap-2">
-                    <div className="relative w-full h-8 border border-white/20 group-hover:border-white transition-colors cursor-pointer bg-white/5">
-                        <input
-                            type="color"
-                            value={rgbToHex(param.value)}
-                            onChange={(e) => handleColorChange(param.id, e.target.value)}
-                            className="opacity-0 absolute inset-0 w-full h-full cursor-pointer z-10"
-                        />
-                        <div className="absolute inset-1" style={{ backgroundColor: rgbToHex(param.value) }}></div>
-                    </div>
-                    <div className="font-mono text-[9px] self-center text-white/30 tracking-widest">{rgbToHex(param.value)}</div>
-                </div>
+            {setModulations && editing === param.id && (
+              <ModulationEditor
+                  param={param}
+                  bindings={modulations.filter(m => m.target === param.id)}
+                  onChange={(id, patch) => setModulations(modulations.map(m => m.id === id ? { ...m, ...patch } : m))}
+                  onAdd={() => setModulations([...modulations, createModulation(param.id)])}
+                  onRemove={(id) => setModulations(modulations.filter(m => m.id !== id))}
+              />
             )}
         </div>
         ))}
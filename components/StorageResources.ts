@@ -0,0 +1,104 @@
+import { ComputeSetup } from '../types';
+
+// --- WebGPU Type Stubs ---
+type GPUDevice = any;
+type GPUBuffer = any;
+type GPUTexture = any;
+type GPUBindGroupLayout = any;
+type GPUBindGroup = any;
+declare const GPUBufferUsage: any;
+declare const GPUTextureUsage: any;
+declare const GPUShaderStage: any;
+
+// Fixed slot counts keep the @group(2) layout identical for every preset, so
+// switching presets never invalidates the other pipelines.
+export const MAX_STORAGE_BUFFERS = 4;
+export const MAX_STORAGE_TEXTURES = 2;
+export const STORAGE_TEXTURE_BASE = MAX_STORAGE_BUFFERS;
+export const STORAGE_TEXTURE_FORMAT = 'rgba16float';
+
+export interface StorageLayouts {
+  compute: GPUBindGroupLayout; // read_write buffers, write-only storage textures
+  render: GPUBindGroupLayout; // read-only buffers, sampled textures
+}
+
+export interface StorageResources {
+  buffers: GPUBuffer[];
+  textures: GPUTexture[];
+  key: string; // Declarations the resources were created from
+}
+
+export interface StorageBindGroups {
+  compute: GPUBindGroup;
+  render: GPUBindGroup;
+}
+
+// --- Layouts ---
+export const createStorageLayouts = (device: GPUDevice): StorageLayouts => {
+  const bufferSlots = Array.from({ length: MAX_STORAGE_BUFFERS }, (_, i) => i);
+  const textureSlots = Array.from({ length: MAX_STORAGE_TEXTURES }, (_, i) => STORAGE_TEXTURE_BASE + i);
+
+  const compute = device.createBindGroupLayout({
+    entries: [
+      ...bufferSlots.map(binding => ({ binding, visibility: GPUShaderStage.COMPUTE, buffer: { type: 'storage' } })),
+      ...textureSlots.map(binding => ({ binding, visibility: GPUShaderStage.COMPUTE, storageTexture: { access: 'write-only', format: STORAGE_TEXTURE_FORMAT } }))
+    ]
+  });
+  const render = device.createBindGroupLayout({
+    entries: [
+      ...bufferSlots.map(binding => ({ binding, visibility: GPUShaderStage.FRAGMENT, buffer: { type: 'read-only-storage' } })),
+      ...textureSlots.map(binding => ({ binding, visibility: GPUShaderStage.FRAGMENT, texture: { sampleType: 'float' } }))
+    ]
+  });
+  return { compute, render };
+};
+
+// --- Resources ---
+export const getStorageKey = (setup?: ComputeSetup) => setup ? JSON.stringify({ b: setup.buffers, t: setup.textures }) : '';
+
+export const createStorageResources = (device: GPUDevice, setup?: ComputeSetup): StorageResources => {
+  const buffers = (setup?.buffers || []).slice(0, MAX_STORAGE_BUFFERS).map(decl => device.createBuffer({
+    label: decl.name,
+    // Storage bindings must be a multiple of 4 bytes
+    size: Math.max(16, Math.ceil(decl.size / 4) * 4),
+    usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC,
+  }));
+  const textures = (setup?.textures || []).slice(0, MAX_STORAGE_TEXTURES).map(decl => device.createTexture({
+    label: decl.name,
+    size: [Math.max(1, decl.width), Math.max(1, decl.height), 1],
+    format: STORAGE_TEXTURE_FORMAT,
+    usage: GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_SRC,
+  }));
+  return { buffers, textures, key: getStorageKey(setup) };
+};
+
+export const destroyStorageResources = (resources: StorageResources) => {
+  resources.buffers.forEach(b => b.destroy());
+  resources.textures.forEach(t => t.destroy());
+};
+
+// Unused slots point at 1-element placeholders
+export const createStoragePlaceholders = (device: GPUDevice) => ({
+  buffer: device.createBuffer({ size: 16, usage: GPUBufferUsage.STORAGE }),
+  texture: device.createTexture({
+    size: [1, 1, 1],
+    format: STORAGE_TEXTURE_FORMAT,
+    usage: GPUTextureUsage.STORAGE_BINDING | GPUTextureUsage.TEXTURE_BINDING,
+  }),
+});
+
+export const createStorageBindGroups = (
+  device: GPUDevice,
+  layouts: StorageLayouts,
+  resources: StorageResources,
+  placeholders: { buffer: GPUBuffer, texture: GPUTexture }
+): StorageBindGroups => {
+  const entries = () => [
+    ...Array.from({ length: MAX_STORAGE_BUFFERS }, (_, i) => ({ binding: i, resource: { buffer: resources.buffers[i] || placeholders.buffer } })),
+    ...Array.from({ length: MAX_STORAGE_TEXTURES }, (_, i) => ({ binding: STORAGE_TEXTURE_BASE + i, resource: (resources.textures[i] || placeholders.texture).createView() }))
+  ];
+  return {
+    compute: device.createBindGroup({ layout: layouts.compute, entries: entries() }),
+    render: device.createBindGroup({ layout: layouts.render, entries: entries() }),
+  };
+};
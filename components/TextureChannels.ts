@@ -0,0 +1,142 @@
+import { ChannelAddressMode, ChannelSampler, TextureChannel } from '../types';
+
+// --- WebGPU Type Stubs ---
+type GPUDevice = any;
+type GPUTexture = any;
+type GPUSampler = any;
+type GPURenderPipeline = any;
+declare const GPUTextureUsage: any;
+
+// --- Texture Channels ---
+// Up to four image channels in @group(0), after the uniform buffer. Channel N
+// is `channelN` at binding 1 + 2N with its own `samplerN` at binding 2 + 2N,
+// so channel 0 keeps the slots shaders have always used. Presets list the
+// channels they sample; every slot is bound either way, unassigned ones to
+// the placeholder texture.
+
+export const MAX_CHANNELS = 4;
+
+// Videos are copied again every frame with updateChannelTexture
+export type ChannelSource = ImageBitmap | HTMLCanvasElement | HTMLVideoElement;
+
+export const DEFAULT_CHANNEL_SAMPLER: ChannelSampler = { filter: 'linear', address: 'clamp-to-edge', mipmaps: false, srgb: false };
+
+export const DEFAULT_CHANNELS: TextureChannel[] = [{ index: 0, label: 'Channel 0', sampler: DEFAULT_CHANNEL_SAMPLER }];
+
+export const ADDRESS_MODES: { id: ChannelAddressMode, label: string }[] = [
+  { id: 'clamp-to-edge', label: 'Clamp' },
+  { id: 'repeat', label: 'Repeat' },
+  { id: 'mirror-repeat', label: 'Mirror' },
+];
+
+export const getChannelBindings = (index: number) => ({ texture: 1 + index * 2, sampler: 2 + index * 2 });
+
+// Declared sampler of a slot; undeclared slots use the default
+export const getChannelSampler = (channels: TextureChannel[], index: number): ChannelSampler =>
+  channels.find(c => c.index === index)?.sampler || DEFAULT_CHANNEL_SAMPLER;
+
+export const getChannelFormat = (sampler: ChannelSampler) => sampler.srgb ? 'rgba8unorm-srgb' : 'rgba8unorm';
+
+export const getSourceSize = (source: ChannelSource) => source instanceof HTMLVideoElement
+  ? { width: source.videoWidth, height: source.videoHeight }
+  : { width: source.width, height: source.height };
+
+export const getMipLevelCount = (width: number, height: number) => Math.floor(Math.log2(Math.max(width, height, 1))) + 1;
+
+// Texture and sampler entries of every slot, for the @group(0) layout
+export const createChannelLayoutEntries = (visibility: number) => Array.from({ length: MAX_CHANNELS }, (_, i) => [
+  { binding: getChannelBindings(i).texture, visibility, texture: {} },
+  { binding: getChannelBindings(i).sampler, visibility, sampler: {} },
+]).flat();
+
+export const createChannelSampler = (device: GPUDevice, sampler: ChannelSampler): GPUSampler => device.createSampler({
+  magFilter: sampler.filter,
+  minFilter: sampler.filter,
+  mipmapFilter: sampler.mipmaps ? sampler.filter : 'nearest',
+  addressModeU: sampler.address,
+  addressModeV: sampler.address,
+});
+
+// --- Mipmaps ---
+// WebGPU has no generateMipmap: each level is drawn from the one above it
+export const MIPMAP_SHADER_WGSL = `
+@group(0) @binding(0) var source: texture_2d<f32>;
+@group(0) @binding(1) var linearSampler: sampler;
+
+struct MipOut {
+  @builtin(position) position: vec4f,
+  @location(0) uv: vec2f,
+};
+
+@vertex
+fn vs_main(@builtin(vertex_index) index: u32) -> MipOut {
+  let p = vec2f(f32((index << 1u) & 2u), f32(index & 2u));
+  var out: MipOut;
+  out.position = vec4f(p * 2.0 - 1.0, 0.0, 1.0);
+  out.uv = vec2f(p.x, 1.0 - p.y);
+  return out;
+}
+
+@fragment
+fn fs_main(in: MipOut) -> @location(0) vec4f {
+  return textureSample(source, linearSampler, in.uv);
+}
+`;
+
+const mipmapPipelines = new WeakMap<GPUDevice, Record<string, GPURenderPipeline>>();
+
+const getMipmapPipeline = (device: GPUDevice, format: string): GPURenderPipeline => {
+  const pipelines = mipmapPipelines.get(device) || {};
+  mipmapPipelines.set(device, pipelines);
+  if (!pipelines[format]) {
+    const module = device.createShaderModule({ label: 'Mipmaps', code: MIPMAP_SHADER_WGSL });
+    pipelines[format] = device.createRenderPipeline({
+      label: `Mipmaps ${format}`,
+      layout: 'auto',
+      vertex: { module, entryPoint: 'vs_main' },
+      fragment: { module, entryPoint: 'fs_main', targets: [{ format }] },
+      primitive: { topology: 'triangle-list' },
+    });
+  }
+  return pipelines[format];
+};
+
+const generateMipmaps = (device: GPUDevice, texture: GPUTexture, format: string, levels: number) => {
+  const pipeline = getMipmapPipeline(device, format);
+  const sampler = device.createSampler({ magFilter: 'linear', minFilter: 'linear' });
+  const encoder = device.createCommandEncoder();
+  for (let level = 1; level < levels; level++) {
+    const pass = encoder.beginRenderPass({ colorAttachments: [{ view: texture.createView({ baseMipLevel: level, mipLevelCount: 1 }), loadOp: 'clear', storeOp: 'store' }] });
+    pass.setPipeline(pipeline);
+    pass.setBindGroup(0, device.createBindGroup({
+      layout: pipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: texture.createView({ baseMipLevel: level - 1, mipLevelCount: 1 }) },
+        { binding: 1, resource: sampler },
+      ]
+    }));
+    pass.draw(3);
+    pass.end();
+  }
+  device.queue.submit([encoder.finish()]);
+};
+
+// Format and mip chain follow the channel's sampler settings
+export const createChannelTexture = (device: GPUDevice, source: ChannelSource, sampler: ChannelSampler): GPUTexture => {
+  const format = getChannelFormat(sampler);
+  const { width, height } = getSourceSize(source);
+  const texture = device.createTexture({
+    size: [width, height, 1],
+    format,
+    mipLevelCount: sampler.mipmaps ? getMipLevelCount(width, height) : 1,
+    usage: GPUTextureUsage.COPY_DST | GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_SRC | GPUTextureUsage.RENDER_ATTACHMENT,
+  });
+  updateChannelTexture(device, texture, source);
+  return texture;
+};
+
+// Copies the source's current image into a texture of the same size
+export const updateChannelTexture = (device: GPUDevice, texture: GPUTexture, source: ChannelSource) => {
+  device.queue.copyExternalImageToTexture({ source }, { texture }, [texture.width, texture.height]);
+  if (texture.mipLevelCount > 1) generateMipmaps(device, texture, texture.format, texture.mipLevelCount);
+};
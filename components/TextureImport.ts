@@ -0,0 +1,137 @@
+import { TextureFit, TextureImportOptions } from '../types';
+
+// --- Texture Import ---
+// Images are resized, leveled and filtered on a 2D canvas before upload. The
+// canvas is kept as the channel's CPU copy, so exports bundle exactly what
+// the GPU sampled.
+
+export type TextureSource = ImageBitmap | HTMLCanvasElement | HTMLImageElement | Blob;
+
+// An image file with the options it is imported with, per channel
+export interface ImportedTexture {
+  file: File;
+  options: TextureImportOptions;
+}
+
+export const DEFAULT_TEXTURE_IMPORT: TextureImportOptions = {
+  fit: 'keep',
+  maxSize: 2048,
+  powerOfTwo: false,
+  autoLevels: false,
+  gamma: 1,
+  invert: false,
+  blur: 0,
+  premultiply: false,
+};
+
+// What every image went through before import options existed
+export const LEGACY_TEXTURE_IMPORT: TextureImportOptions = { ...DEFAULT_TEXTURE_IMPORT, fit: 'stretch', maxSize: 1024, autoLevels: true };
+
+export const TEXTURE_FITS: { id: TextureFit, label: string }[] = [
+  { id: 'keep', label: 'Keep Aspect' },
+  { id: 'crop', label: 'Crop to Square' },
+  { id: 'fit', label: 'Fit in Square' },
+  { id: 'stretch', label: 'Stretch to Square' },
+];
+
+export const TEXTURE_MAX_SIZES = [256, 512, 1024, 2048, 4096, 8192];
+
+const LEVELS_SAMPLES = 65536; // Pixels read to find the luma range
+
+const roundPowerOfTwo = (value: number, max: number) => {
+  const rounded = 2 ** Math.round(Math.log2(Math.max(value, 1)));
+  return Math.min(rounded, 2 ** Math.floor(Math.log2(max)));
+};
+
+// Output size plus the source rect drawn and where it lands
+export const getImportLayout = (width: number, height: number, options: TextureImportOptions) => {
+  const longest = Math.max(width, height);
+  let outWidth: number, outHeight: number;
+  if (options.fit === 'keep') {
+    const scale = Math.min(1, options.maxSize / longest);
+    outWidth = Math.max(1, Math.round(width * scale));
+    outHeight = Math.max(1, Math.round(height * scale));
+  } else {
+    const side = options.fit === 'crop' ? Math.min(width, height) : longest;
+    outWidth = outHeight = Math.max(1, Math.round(Math.min(side, options.maxSize)));
+  }
+  if (options.powerOfTwo) {
+    outWidth = roundPowerOfTwo(outWidth, options.maxSize);
+    outHeight = roundPowerOfTwo(outHeight, options.maxSize);
+  }
+
+  let src = { x: 0, y: 0, width, height };
+  let dst = { x: 0, y: 0, width: outWidth, height: outHeight };
+  if (options.fit === 'crop') {
+    const side = Math.min(width, height);
+    src = { x: (width - side) / 2, y: (height - side) / 2, width: side, height: side };
+  } else if (options.fit === 'fit') {
+    const fitScale = Math.min(outWidth / width, outHeight / height);
+    dst = { x: (outWidth - width * fitScale) / 2, y: (outHeight - height * fitScale) / 2, width: width * fitScale, height: height * fitScale };
+  }
+  return { width: outWidth, height: outHeight, src, dst };
+};
+
+// Luma range of the opaque pixels, from an evenly spaced subset
+const getLumaRange = (data: Uint8ClampedArray) => {
+  const pixels = data.length / 4;
+  const step = Math.max(1, Math.floor(pixels / LEVELS_SAMPLES));
+  let min = 255, max = 0;
+  for (let p = 0; p < pixels; p += step) {
+    const i = p * 4;
+    if (data[i + 3] === 0) continue;
+    const luma = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    if (luma < min) min = luma;
+    if (luma > max) max = luma;
+  }
+  return { min, max };
+};
+
+// Levels, gamma and invert as one table over 0-255
+const createToneTable = (min: number, max: number, options: TextureImportOptions) => {
+  const table = new Uint8ClampedArray(256);
+  const range = max > min ? max - min : 255;
+  const offset = max > min ? min : 0;
+  for (let v = 0; v < 256; v++) {
+    let c = Math.min(Math.max((v - offset) / range, 0), 1);
+    if (options.gamma !== 1) c = Math.pow(c, 1 / options.gamma);
+    if (options.invert) c = 1 - c;
+    table[v] = Math.round(c * 255);
+  }
+  return table;
+};
+
+export const prepareTextureCanvas = async (source: TextureSource, options: TextureImportOptions = DEFAULT_TEXTURE_IMPORT): Promise<HTMLCanvasElement> => {
+  const bitmap = source instanceof Blob ? await createImageBitmap(source) : source;
+  const sourceWidth = bitmap instanceof HTMLImageElement ? bitmap.naturalWidth : bitmap.width;
+  const sourceHeight = bitmap instanceof HTMLImageElement ? bitmap.naturalHeight : bitmap.height;
+  const layout = getImportLayout(sourceWidth, sourceHeight, options);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = layout.width;
+  canvas.height = layout.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D canvas is not available.');
+
+  if (options.blur > 0) ctx.filter = `blur(${options.blur}px)`;
+  ctx.imageSmoothingQuality = 'high';
+  const { src, dst } = layout;
+  ctx.drawImage(bitmap, src.x, src.y, src.width, src.height, dst.x, dst.y, dst.width, dst.height);
+  if (source instanceof Blob) (bitmap as ImageBitmap).close();
+
+  const isIdentity = !options.autoLevels && options.gamma === 1 && !options.invert && !options.premultiply;
+  if (isIdentity) return canvas;
+
+  const imageData = ctx.getImageData(0, 0, layout.width, layout.height);
+  const data = imageData.data;
+  const range = options.autoLevels ? getLumaRange(data) : { min: 0, max: 255 };
+  const table = createToneTable(range.min, range.max, options);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = options.premultiply ? data[i + 3] / 255 : 1;
+    data[i] = table[data[i]] * alpha;
+    data[i + 1] = table[data[i + 1]] * alpha;
+    data[i + 2] = table[data[i + 2]] * alpha;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+};
@@ -0,0 +1,283 @@
+// --- WebGPU Type Stubs ---
+type GPUDevice = any;
+type GPUTexture = any;
+type GPUBuffer = any;
+type GPUCommandEncoder = any;
+type GPUComputePipeline = any;
+type GPUBindGroup = any;
+declare const GPUBufferUsage: any;
+declare const GPUMapMode: any;
+
+// --- Tiled Stills ---
+// Stills render offscreen, one tile at a time. Each tile draws the Image pass
+// with `u.tile` set to its slice of the frame, so shaders see the full-size
+// `u.resolution` and full-frame uvs. The slice is padded by the post stack's
+// reach and cropped back after it runs. Tiles are read back with
+// copyTextureToBuffer and streamed into a PNG one row of tiles at a time, so
+// memory stays bounded however large the output is.
+
+export interface StillSize {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+// Landscape; the capture dialog swaps them for portrait
+export const STILL_SIZES: StillSize[] = [
+  { id: '4k', label: '4K UHD', width: 3840, height: 2160 },
+  { id: '8k', label: '8K UHD', width: 7680, height: 4320 },
+  { id: '16k', label: '16K', width: 15360, height: 8640 },
+  { id: 'a3', label: 'A3 @ 300 dpi', width: 4961, height: 3508 },
+  { id: 'a2', label: 'A2 @ 300 dpi', width: 7016, height: 4961 },
+  { id: 'a1', label: 'A1 @ 300 dpi', width: 9933, height: 7016 },
+  { id: 'poster', label: '36x24 in @ 300 dpi', width: 10800, height: 7200 },
+];
+
+export const STILL_TILE_SIZE = 2048; // Small enough that one tile never trips the GPU watchdog
+export const MAX_STILL_SIZE = 32768; // Per side
+
+export interface StillTile {
+  x: number; // Pixels from the left
+  y: number; // Pixels from the top
+  width: number;
+  height: number;
+}
+
+// Tiles grouped by row, top to bottom
+export const planTiles = (width: number, height: number, tileSize: number): StillTile[][] => {
+  const rows: StillTile[][] = [];
+  for (let y = 0; y < height; y += tileSize) {
+    const row: StillTile[] = [];
+    for (let x = 0; x < width; x += tileSize) {
+      row.push({ x, y, width: Math.min(tileSize, width - x), height: Math.min(tileSize, height - y) });
+    }
+    rows.push(row);
+  }
+  return rows;
+};
+
+// A tile grown by `margin` pixels on each side, clamped to the frame
+export const getTileRegion = (tile: StillTile, margin: number, width: number, height: number): StillTile => {
+  const x = Math.max(0, tile.x - margin);
+  const y = Math.max(0, tile.y - margin);
+  return { x, y, width: Math.min(width, tile.x + tile.width + margin) - x, height: Math.min(height, tile.y + tile.height + margin) - y };
+};
+
+// `u.tile` for one tile: xy = uv offset, zw = uv scale. uv runs bottom-up.
+// `jitter` shifts the tile by a fraction of a pixel for supersampling.
+export const getTileRect = (tile: StillTile, width: number, height: number, jitter: readonly [number, number] = [0, 0]): [number, number, number, number] => [
+  (tile.x + jitter[0]) / width,
+  1 - (tile.y + tile.height + jitter[1]) / height,
+  tile.width / width,
+  tile.height / height,
+];
+
+// --- Readback ---
+// copyTextureToBuffer rows must be 256-byte aligned
+const getPaddedBytesPerRow = (width: number) => Math.ceil(width * 4 / 256) * 256;
+
+export const createReadbackBuffer = (device: GPUDevice, width: number, height: number): GPUBuffer =>
+  device.createBuffer({ size: getPaddedBytesPerRow(width) * height, usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ });
+
+export const copyTileToBuffer = (encoder: GPUCommandEncoder, texture: GPUTexture, buffer: GPUBuffer, tile: StillTile) => {
+  encoder.copyTextureToBuffer({ texture }, { buffer, bytesPerRow: getPaddedBytesPerRow(tile.width) }, [tile.width, tile.height, 1]);
+};
+
+// Copies a tile's RGB into its place in `strip`, a row of tiles `stripWidth` pixels wide.
+// `bgra` swaps channels back for canvases whose preferred format is bgra8unorm.
+export const readTile = async (buffer: GPUBuffer, tile: StillTile, strip: Uint8Array, stripWidth: number, bgra: boolean) => {
+  await buffer.mapAsync(GPUMapMode.READ);
+  const pixels = new Uint8Array(buffer.getMappedRange());
+  const stride = getPaddedBytesPerRow(tile.width);
+  const [r, b] = bgra ? [2, 0] : [0, 2];
+  for (let row = 0; row < tile.height; row++) {
+    let src = row * stride;
+    let dst = (row * stripWidth + tile.x) * 3;
+    for (let x = 0; x < tile.width; x++, src += 4, dst += 3) {
+      strip[dst] = pixels[src + r];
+      strip[dst + 1] = pixels[src + 1];
+      strip[dst + 2] = pixels[src + b];
+    }
+  }
+  buffer.unmap();
+};
+
+// --- Accumulation ---
+// Supersampled stills render each tile several times, jittered inside the
+// pixel (and optionally in time), into an rgba16float target. A compute pass
+// adds every sample to an f32 storage buffer and the CPU divides by the
+// sample count on readback, so no precision is lost before the final 8 bits.
+
+export const STILL_SAMPLE_COUNTS = [1, 4, 16, 64, 256];
+
+const radicalInverse = (index: number, base: number) => {
+  let result = 0;
+  let fraction = 1 / base;
+  for (let i = index; i > 0; i = Math.floor(i / base), fraction /= base) result += (i % base) * fraction;
+  return result;
+};
+
+// Halton (2, 3) offsets in pixels, within -0.5..0.5: evenly spread for any sample count
+export const getSampleJitter = (index: number): [number, number] => [radicalInverse(index + 1, 2) - 0.5, radicalInverse(index + 1, 3) - 0.5];
+
+// Shader time offset of a sample: samples spread evenly across the shutter, centered on the frame time
+export const getSampleTimeOffset = (index: number, samples: number, shutter: number) => ((index + 0.5) / samples - 0.5) * shutter;
+
+const ACCUMULATE_SHADER_WGSL = `
+@group(0) @binding(0) var sampleTexture: texture_2d<f32>;
+@group(0) @binding(1) var<storage, read_write> sum: array<vec4f>;
+
+@compute @workgroup_size(8, 8)
+fn main(@builtin(global_invocation_id) id: vec3u) {
+  let size = textureDimensions(sampleTexture);
+  if (id.x >= size.x || id.y >= size.y) { return; }
+  // Clamped like the canvas would show it, so bright samples do not bleed into their neighbours' average
+  sum[id.y * size.x + id.x] += clamp(textureLoad(sampleTexture, vec2i(id.xy), 0), vec4f(0.0), vec4f(1.0));
+}
+`;
+
+export interface Accumulator {
+  width: number; // Of the sample texture; the sum buffer uses the same row length
+  height: number;
+  pipeline: GPUComputePipeline;
+  bindGroup: GPUBindGroup;
+  sumBuffer: GPUBuffer;
+  readBuffer: GPUBuffer;
+}
+
+export const createAccumulator = (device: GPUDevice, sampleTexture: GPUTexture, width: number, height: number): Accumulator => {
+  const size = width * height * 16;
+  const pipeline = device.createComputePipeline({
+    label: 'Accumulate',
+    layout: 'auto',
+    compute: { module: device.createShaderModule({ code: ACCUMULATE_SHADER_WGSL }), entryPoint: 'main' },
+  });
+  const sumBuffer = device.createBuffer({ size, usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC | GPUBufferUsage.COPY_DST });
+  return {
+    width,
+    height,
+    pipeline,
+    bindGroup: device.createBindGroup({ layout: pipeline.getBindGroupLayout(0), entries: [
+      { binding: 0, resource: sampleTexture.createView() },
+      { binding: 1, resource: { buffer: sumBuffer } },
+    ]}),
+    sumBuffer,
+    readBuffer: device.createBuffer({ size, usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST }),
+  };
+};
+
+export const destroyAccumulator = (accumulator: Accumulator) => {
+  accumulator.sumBuffer.destroy();
+  accumulator.readBuffer.destroy();
+};
+
+export const clearAccumulator = (encoder: GPUCommandEncoder, accumulator: Accumulator) => {
+  encoder.clearBuffer(accumulator.sumBuffer);
+};
+
+export const accumulateSample = (encoder: GPUCommandEncoder, accumulator: Accumulator) => {
+  const pass = encoder.beginComputePass();
+  pass.setPipeline(accumulator.pipeline);
+  pass.setBindGroup(0, accumulator.bindGroup);
+  pass.dispatchWorkgroups(Math.ceil(accumulator.width / 8), Math.ceil(accumulator.height / 8));
+  pass.end();
+};
+
+// Averages a tile's samples into its place in `strip`, like readTile
+export const readAccumulatedTile = async (device: GPUDevice, accumulator: Accumulator, tile: StillTile, samples: number, strip: Uint8Array, stripWidth: number) => {
+  const encoder = device.createCommandEncoder();
+  encoder.copyBufferToBuffer(accumulator.sumBuffer, 0, accumulator.readBuffer, 0, accumulator.sumBuffer.size);
+  device.queue.submit([encoder.finish()]);
+  await accumulator.readBuffer.mapAsync(GPUMapMode.READ);
+  const sums = new Float32Array(accumulator.readBuffer.getMappedRange());
+  const scale = 255 / samples;
+  for (let row = 0; row < tile.height; row++) {
+    let src = row * accumulator.width * 4;
+    let dst = (row * stripWidth + tile.x) * 3;
+    for (let x = 0; x < tile.width; x++, src += 4, dst += 3) {
+      strip[dst] = Math.round(sums[src] * scale);
+      strip[dst + 1] = Math.round(sums[src + 1] * scale);
+      strip[dst + 2] = Math.round(sums[src + 2] * scale);
+    }
+  }
+  accumulator.readBuffer.unmap();
+};
+
+// --- PNG ---
+// Streaming RGB encoder: rows are filtered and deflated as they arrive, and
+// every compressed chunk becomes its own IDAT chunk.
+
+export interface PngWriter {
+  writeRows: (rgb: Uint8Array, rows: number) => Promise<void>;
+  finish: () => Promise<Blob>;
+}
+
+let crcTable: Uint32Array | null = null;
+const crc32 = (bytes: Uint8Array, crc = 0xffffffff) => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return crc;
+};
+
+const createChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, (crc32(chunk.subarray(4, data.length + 8)) ^ 0xffffffff) >>> 0);
+  return chunk;
+};
+
+const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+export const createPngWriter = (width: number, height: number): PngWriter => {
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8; // Bits per channel
+  header[9] = 2; // RGB
+
+  // 'deflate' is the zlib format PNG expects
+  const stream = new CompressionStream('deflate');
+  const writer = stream.writable.getWriter();
+  const chunks: BlobPart[] = [PNG_SIGNATURE, createChunk('IHDR', header)];
+  const reader = stream.readable.getReader();
+  const drained = (async () => {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      chunks.push(createChunk('IDAT', value));
+    }
+  })();
+
+  const rowBytes = width * 3;
+  return {
+    writeRows: async (rgb, rows) => {
+      for (let y = 0; y < rows; y++) {
+        // Sub filter: each byte minus the same channel of the pixel to its left
+        const line = new Uint8Array(rowBytes + 1);
+        line[0] = 1;
+        const start = y * rowBytes;
+        for (let i = 0; i < rowBytes; i++) line[i + 1] = rgb[start + i] - (i >= 3 ? rgb[start + i - 3] : 0);
+        await writer.ready;
+        writer.write(line);
+      }
+    },
+    finish: async () => {
+      await writer.close();
+      await drained;
+      chunks.push(createChunk('IEND', new Uint8Array(0)));
+      return new Blob(chunks, { type: 'image/png' });
+    },
+  };
+};
@@ -0,0 +1,154 @@
+import { EasingType, Keyframe, ShaderParam, Timeline, TimelineTrack } from '../types';
+
+// --- Keyframe Timeline ---
+// Tracks store plain number arrays so one interpolator covers the camera,
+// every ShaderParam type, scroll settings and texture transforms.
+
+export const DEFAULT_TIMELINE_DURATION = 10;
+const KEY_EPSILON = 1 / 240; // Keys closer than this are the same key
+
+export interface TimelineTargetInfo {
+  id: string;
+  label: string;
+  group: 'Camera' | 'Params' | 'Scroll' | 'Texture';
+}
+
+// Values a timeline sample can override; missing targets keep their live value
+export interface TimelineSample {
+  camera: { theta?: number, phi?: number, radius?: number, fov?: number, roll?: number };
+  params: Record<string, number[]>;
+  scroll: { strength?: number, speed?: number };
+  textureScale?: { x: number, y: number };
+  textureOffset?: { x: number, y: number };
+}
+
+export const EASINGS: Record<EasingType, (t: number) => number> = {
+  linear: t => t,
+  easeIn: t => t * t * t,
+  easeOut: t => 1 - Math.pow(1 - t, 3),
+  easeInOut: t => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+  step: () => 0,
+};
+
+export const createTimeline = (duration: number = DEFAULT_TIMELINE_DURATION): Timeline => ({ duration, loop: true, tracks: [] });
+
+export const hasKeyframes = (timeline?: Timeline) => !!timeline && timeline.tracks.some(t => t.keyframes.length > 0);
+
+export const getTimelineTargets = (params: ShaderParam[]): TimelineTargetInfo[] => [
+  { id: 'camera.theta', label: 'Orbit', group: 'Camera' },
+  { id: 'camera.phi', label: 'Elevation', group: 'Camera' },
+  { id: 'camera.radius', label: 'Distance', group: 'Camera' },
+  { id: 'camera.fov', label: 'FOV', group: 'Camera' },
+  { id: 'camera.roll', label: 'Roll', group: 'Camera' },
+  ...params.map(p => ({ id: `param.${p.id}`, label: p.label, group: 'Params' as const })),
+  { id: 'scroll.strength', label: 'Scroll Strength', group: 'Scroll' },
+  { id: 'scroll.speed', label: 'Scroll Speed', group: 'Scroll' },
+  { id: 'texture.scale', label: 'Texture Scale', group: 'Texture' },
+  { id: 'texture.offset', label: 'Texture Offset', group: 'Texture' },
+];
+
+// --- Param conversion ---
+export const paramToKeyValue = (param: ShaderParam): number[] => {
+  if (param.type === 'bool') return [param.value ? 1 : 0];
+  return typeof param.value === 'number' ? [param.value] : [...param.value];
+};
+
+export const keyValueToParam = (param: ShaderParam, value: number[]): ShaderParam => {
+  switch (param.type) {
+    case 'bool': return { ...param, value: value[0] >= 0.5 };
+    case 'int': return { ...param, value: Math.round(value[0]) };
+    case 'enum': return { ...param, value: Math.max(0, Math.min(param.options.length - 1, Math.round(value[0]))) };
+    case 'float':
+    case 'angle': return { ...param, value: value[0] };
+    default: return { ...param, value: param.value.map((c, i) => value[i] ?? c) } as ShaderParam;
+  }
+};
+
+const CAMERA_KEYS = ['theta', 'phi', 'radius', 'fov', 'roll'] as const;
+const isCameraKey = (key: string): key is typeof CAMERA_KEYS[number] => (CAMERA_KEYS as readonly string[]).includes(key);
+
+// --- Evaluation ---
+export const wrapTimelineTime = (timeline: Timeline, time: number) => {
+  if (timeline.duration <= 0) return 0;
+  if (!timeline.loop) return Math.max(0, Math.min(timeline.duration, time));
+  return ((time % timeline.duration) + timeline.duration) % timeline.duration;
+};
+
+export const evaluateTrack = (track: TimelineTrack, time: number): number[] | null => {
+  const keys = track.keyframes;
+  if (keys.length === 0) return null;
+  if (time <= keys[0].time) return keys[0].value;
+  const last = keys[keys.length - 1];
+  if (time >= last.time) return last.value;
+
+  const next = keys.findIndex(k => k.time > time);
+  const a = keys[next - 1];
+  const b = keys[next];
+  const t = EASINGS[a.easing]((time - a.time) / (b.time - a.time));
+  return a.value.map((v, i) => v + ((b.value[i] ?? v) - v) * t);
+};
+
+export const sampleTimeline = (timeline: Timeline, time: number): TimelineSample => {
+  const sample: TimelineSample = { camera: {}, params: {}, scroll: {} };
+  const t = wrapTimelineTime(timeline, time);
+
+  timeline.tracks.forEach(track => {
+    const value = evaluateTrack(track, t);
+    if (!value) return;
+    const [group, key] = track.target.split(/\.(.+)/);
+    if (group === 'camera' && isCameraKey(key)) sample.camera[key] = value[0];
+    else if (group === 'scroll' && (key === 'strength' || key === 'speed')) sample.scroll[key] = value[0];
+    else if (track.target === 'texture.scale') sample.textureScale = { x: value[0], y: value[1] };
+    else if (track.target === 'texture.offset') sample.textureOffset = { x: value[0], y: value[1] };
+    else if (group === 'param') sample.params[key] = value;
+  });
+  return sample;
+};
+
+export const applyTimelineToParams = (params: ShaderParam[], sample: TimelineSample): ShaderParam[] => {
+  return params.map(p => sample.params[p.id] ? keyValueToParam(p, sample.params[p.id]) : p);
+};
+
+// --- Editing (immutable, for React state) ---
+const updateTrack = (timeline: Timeline, target: string, update: (keys: Keyframe[]) => Keyframe[]): Timeline => {
+  const existing = timeline.tracks.find(t => t.target === target);
+  const keyframes = update(existing ? existing.keyframes : []).sort((a, b) => a.time - b.time);
+  const others = timeline.tracks.filter(t => t.target !== target);
+  return { ...timeline, tracks: keyframes.length > 0 ? [...others, { target, keyframes }] : others };
+};
+
+// Adds a key, or replaces the value of a key already at `time`
+export const setKeyframe = (timeline: Timeline, target: string, time: number, value: number[], easing: EasingType = 'easeInOut'): Timeline => {
+  return updateTrack(timeline, target, keys => {
+    const index = keys.findIndex(k => Math.abs(k.time - time) < KEY_EPSILON);
+    if (index === -1) return [...keys, { time, value, easing }];
+    return keys.map((k, i) => i === index ? { ...k, value } : k);
+  });
+};
+
+export const updateKeyframe = (timeline: Timeline, target: string, index: number, patch: Partial<Keyframe>): Timeline => {
+  return updateTrack(timeline, target, keys => keys.map((k, i) => i === index ? { ...k, ...patch } : k));
+};
+
+export const removeKeyframe = (timeline: Timeline, target: string, index: number): Timeline => {
+  return updateTrack(timeline, target, keys => keys.filter((_, i) => i !== index));
+};
+
+export const getTrack = (timeline: Timeline, target: string) => timeline.tracks.find(t => t.target === target);
+
+// Live value of a target, used when keying the current state
+export const readTargetValue = (target: string, state: {
+  camera: { theta: number, phi: number, radius: number, fov: number, roll: number },
+  params: ShaderParam[],
+  scrollParams: { strength: number, speed: number },
+  textureScale: { x: number, y: number },
+  textureOffset: { x: number, y: number },
+}): number[] | null => {
+  const [group, key] = target.split(/\.(.+)/);
+  if (group === 'camera' && isCameraKey(key)) return [state.camera[key]];
+  if (group === 'scroll' && (key === 'strength' || key === 'speed')) return [state.scrollParams[key]];
+  if (target === 'texture.scale') return [state.textureScale.x, state.textureScale.y];
+  if (target === 'texture.offset') return [state.textureOffset.x, state.textureOffset.y];
+  const param = state.params.find(p => p.id === key);
+  return group === 'param' && param ? paramToKeyValue(param) : null;
+};
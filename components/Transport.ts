@@ -0,0 +1,74 @@
+import { TransportSettings } from '../types';
+
+// --- Transport ---
+// The preview clock behind u.time, u.dt and u.frame. It only moves while
+// playing, by wall time times the time scale, and wraps back into the loop
+// range when one is set. Exports and benchmarks render fixed steps instead.
+
+export const DEFAULT_TRANSPORT: TransportSettings = { playing: true, timeScale: 1, loop: false, loopStart: 0, loopEnd: 10, seed: 1 };
+
+export const TIME_SCALES = [0.1, 0.25, 0.5, 1, 2, 4];
+export const STEP_FPS = 60; // Single-frame steps move the clock by 1 / STEP_FPS
+export const MIN_LOOP_LENGTH = 0.05; // Shorter ranges do not loop
+export const MAX_SEED = 65535; // Stays exact as an f32
+
+// What one rendered frame writes to time, dt and frame
+export interface FrameStep {
+  time: number; // Seconds
+  dt: number; // Seconds since the previous frame; negative when stepping back
+  frame: number; // Index of the frame, 0 for the first
+  held?: boolean; // Redraw of the last frame's moment; simulations and feedback buffers keep their state
+}
+
+export interface TransportClock {
+  time: number; // Seconds at `at`
+  at: number; // performance.now() of the last update
+  last: number; // Time of the last rendered frame
+  frames: number; // Frames rendered so far
+}
+
+export const createClock = (): TransportClock => ({ time: 0, at: performance.now(), last: 0, frames: 0 });
+
+export const hasLoopRange = (settings: TransportSettings) => settings.loop && settings.loopEnd - settings.loopStart >= MIN_LOOP_LENGTH;
+
+// Times past the loop end start over from the loop start; earlier times play into the range
+export const wrapLoopTime = (time: number, settings: TransportSettings) => {
+  if (!hasLoopRange(settings) || time < settings.loopEnd) return time;
+  const length = settings.loopEnd - settings.loopStart;
+  return settings.loopStart + (time - settings.loopStart) % length;
+};
+
+// Time at `now`, without moving the clock
+export const readClock = (clock: TransportClock, now: number, playing: boolean, settings: TransportSettings) => {
+  if (!playing) return clock.time;
+  return wrapLoopTime(clock.time + (now - clock.at) * 0.001 * settings.timeScale, settings);
+};
+
+export const seekClock = (clock: TransportClock, time: number, now: number) => {
+  clock.time = Math.max(0, time);
+  clock.at = now;
+};
+
+// Moves the clock to `now` for a new frame. While playing, dt is the scaled
+// wall time since the last update, so loop wraps do not make it jump; while
+// paused it is how far a seek or step moved the clock. A paused redraw that
+// did not move the clock is held: same frame index, dt 0.
+export const advanceClock = (clock: TransportClock, now: number, playing: boolean, settings: TransportSettings): FrameStep => {
+  const time = readClock(clock, now, playing, settings);
+  if (!playing && clock.frames > 0 && time === clock.last) {
+    clock.at = now;
+    return { time, dt: 0, frame: clock.frames - 1, held: true };
+  }
+  const moved = playing ? (now - clock.at) * 0.001 * settings.timeScale : time - clock.last;
+  const step = { time, dt: clock.frames === 0 ? 0 : moved, frame: clock.frames };
+  clock.time = time;
+  clock.at = now;
+  clock.last = time;
+  clock.frames++;
+  return step;
+};
+
+// Length the scrub bar spans: the loop end, grown in 10 second steps past it
+export const getScrubSpan = (time: number, settings: TransportSettings) => Math.max(10, settings.loopEnd, Math.ceil((time + 0.001) / 10) * 10);
+
+export const createSeed = () => 1 + Math.floor(Math.random() * MAX_SEED);
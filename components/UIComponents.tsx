@@ -1,9 +1,21 @@
 
 
 import React, { useState, useEffect, useRef } from 'react';
-import { ShaderError, VideoConfig, ShotType, Preset, LayoutMode, ShaderParam, ScrollEffectType, ScrollParams } from '../types';
+import { ShaderError, VideoConfig, ShotType, Preset, LayoutMode, ShaderParam, ScrollEffectType, ScrollParams, BufferPass, ComputeSetup, PassId, Timeline, TimelinePlayback, EasingType, CameraPose, ResolutionSettings, StillConfig, PostSettings, TonemapOperator, ColorGrade, TextureChannel, ChannelSampler, TextureImportOptions, TextureFit, AudioSettings, Modulation, TransportSettings } from '../types';
 import Editor, { useMonaco, Monaco } from '@monaco-editor/react';
 import { ShaderControls } from './ShaderParams';
+import { UserPreset, UserLut, isUserPreset, collectTags, filterPresets, parseTags } from './PresetLibrary';
+import { EASINGS, getTimelineTargets, getTrack, setKeyframe, updateKeyframe, removeKeyframe, hasKeyframes } from './Timeline';
+import { MIN_RESOLUTION_SCALE } from './AdaptiveResolution';
+import { FrameProfile, getTimingStats } from './Profiler';
+import { STILL_SIZES, STILL_SAMPLE_COUNTS, MAX_STILL_SIZE } from './TiledCapture';
+import { PASSTHROUGH_POST, TONEMAP_OPERATORS } from './PostStack';
+import { LUT_EXTENSION } from './ColorLut';
+import { MAX_CHANNELS, DEFAULT_CHANNELS, DEFAULT_CHANNEL_SAMPLER, ADDRESS_MODES } from './TextureChannels';
+import { ImportedTexture, TEXTURE_FITS, TEXTURE_MAX_SIZES, getImportLayout, prepareTextureCanvas } from './TextureImport';
+import { ChannelVideo, VIDEO_ACCEPT } from './VideoSources';
+import { AudioSource, AudioFrame, AUDIO_ACCEPT, AUDIO_TEXTURE_WIDTH } from './AudioSources';
+import { TIME_SCALES, MAX_SEED, hasLoopRange, getScrubSpan, createSeed } from './Transport';
 
 // --- Types ---
 export interface MenuItem {
@@ -126,12 +138,23 @@ export const TextureGizmo: React.FC<TextureGizmoProps> = ({ scale, offset, onCha
 // --- GALLERY SIDEBAR ---
 interface GallerySidebarProps {
     presets: Preset[];
+    userPresets: UserPreset[];
+    thumbnails: Record<string, string>; // Data URLs keyed by preset id
+    onSavePreset: () => void;
+    onEditPreset: (preset: UserPreset) => void;
+    onDuplicatePreset: (preset: Preset) => void;
+    onDeletePreset: (preset: UserPreset) => void;
     activePresetId: string;
     onSelect: (preset: Preset) => void;
+    activePasses: BufferPass[];
+    activeCompute?: ComputeSetup;
+    onEditPass: (tab: PassId) => void;
     activeLayout: LayoutMode;
     onSelectLayout: (mode: LayoutMode) => void;
     params: ShaderParam[];
     setParams: (params: ShaderParam[]) => void;
+    modulations: Modulation[];
+    setModulations: (modulations: Modulation[]) => void;
     activeScrollEffect: ScrollEffectType;
     onSelectScrollEffect: (effect: ScrollEffectType) => void;
     scrollParams: ScrollParams;
@@ -140,10 +163,95 @@ interface GallerySidebarProps {
     setTextureScale: (scale: { x: number, y: number }) => void;
     textureOffset: { x: number, y: number };
     setTextureOffset: (offset: { x: number, y: number }) => void;
+    camera?: CameraPose; // Absent for 2D presets
+    setCamera: (camera: CameraPose) => void;
+    post?: PostSettings; // Absent for shaders that tone map themselves
+    setPost: (post?: PostSettings) => void;
+    luts: UserLut[];
+    grade?: ColorGrade;
+    setGrade: (grade?: ColorGrade) => void;
+    onImportLut: (file: File) => void;
+    onDeleteLut: (lut: UserLut) => void;
+    channels?: TextureChannel[]; // Absent means channel 0 with the default sampler
+    setChannels: (channels?: TextureChannel[]) => void;
+    textures: (ImportedTexture | null)[]; // By channel
+    videos: (ChannelVideo | null)[]; // By channel
+    onLoadChannel: (channel: number, file: File | null) => void;
+    onStartCamera: (channel: number) => void;
+    getVideo: (channel: number) => HTMLVideoElement | null;
+    audio: AudioSource | null;
+    onStartMicrophone: () => void;
+    onLoadAudio: (file: File) => void;
+    onStopAudio: () => void;
+    audioSettings: AudioSettings;
+    setAudioSettings: (settings: AudioSettings) => void;
+    getAudioFrame: () => AudioFrame | null;
 }
 
-export const GallerySidebar: React.FC<GallerySidebarProps> = ({ presets, activePresetId, onSelect, activeLayout, onSelectLayout, params, setParams, activeScrollEffect, onSelectScrollEffect, scrollParams, setScrollParams, textureScale, setTextureScale, textureOffset, setTextureOffset }) => {
+export const GallerySidebar: React.FC<GallerySidebarProps> = ({ presets, userPresets, thumbnails, onSavePreset, onEditPreset, onDuplicatePreset, onDeletePreset, activePresetId, onSelect, activePasses, activeCompute, onEditPass, activeLayout, onSelectLayout, params, setParams, modulations, setModulations, activeScrollEffect, onSelectScrollEffect, scrollParams, setScrollParams, textureScale, setTextureScale, textureOffset, setTextureOffset, camera, setCamera, post, setPost, luts, grade, setGrade, onImportLut, onDeleteLut, channels, setChannels, textures, videos, onLoadChannel, onStartCamera, getVideo, audio, onStartMicrophone, onLoadAudio, onStopAudio, audioSettings, setAudioSettings, getAudioFrame }) => {
     const [tab, setTab] = useState<'presets' | 'layouts' | 'effects' | 'tuning' | 'assets'>('presets');
+    const [query, setQuery] = useState('');
+    const [selectedTags, setSelectedTags] = useState<string[]>([]);
+
+    const allTags = collectTags([...userPresets, ...presets]);
+    const visibleUserPresets = filterPresets(userPresets, query, selectedTags);
+    const visiblePresets = filterPresets(presets, query, selectedTags);
+    const toggleTag = (tag: string) => setSelectedTags(selectedTags.includes(tag) ? selectedTags.filter(t => t !== tag) : [...selectedTags, tag]);
+
+    const renderPresetCard = (preset: Preset) => (
+        <div key={preset.id} className="space-y-1">
+            <button 
+                onClick={() => onSelect(preset)}
+                className={`w-full text-left p-2 rounded border transition-all duration-300 group relative overflow-hidden ${activePresetId === preset.id ? 'border-acid bg-acid/5 shadow-[0_0_20px_rgba(204,255,0,0.1)]' : 'border-white/10 hover:border-white/30 hover:bg-white/5'}`}
+            >
+                <div className={`h-16 md:h-24 w-full mb-3 transition-opacity rounded-sm overflow-hidden relative ${activePresetId === preset.id ? 'opacity-100' : 'opacity-60 group-hover:opacity-80'}`}
+                     style={{ backgroundImage: 'linear-gradient(120deg, #1e1b4b, #312e81)' }}
+                >
+                    {thumbnails[preset.id] && <img src={thumbnails[preset.id]} alt="" className="absolute inset-0 w-full h-full object-cover group-hover:scale-105 transition-transform duration-700" />}
+                </div>
+                <div className="hidden md:block px-1">
+                    <div className="flex justify-between items-center mb-1.5">
+                        <div className={`text-xs font-bold uppercase tracking-wider truncate ${activePresetId === preset.id ? 'text-white' : 'text-gray-400'}`}>{preset.name}</div>
+                        <div className="flex gap-2 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+                            {isUserPreset(preset) && <span role="button" onClick={(e) => { e.stopPropagation(); onEditPreset(preset); }} className="text-[9px] font-mono uppercase text-gray-500 hover:text-acid">Edit</span>}
+                            <span role="button" onClick={(e) => { e.stopPropagation(); onDuplicatePreset(preset); }} className="text-[9px] font-mono uppercase text-gray-500 hover:text-acid">Copy</span>
+                            {isUserPreset(preset) && <span role="button" onClick={(e) => { e.stopPropagation(); onDeletePreset(preset); }} className="text-[9px] font-mono uppercase text-gray-500 hover:text-red-400">Delete</span>}
+                        </div>
+                    </div>
+                    <div className="flex gap-1 flex-wrap">
+                        {preset.tags.map(tag => (
+                            <span key={tag} className="text-[8px] px-1.5 py-0.5 border border-white/10 rounded-sm text-gray-500 uppercase bg-black/50">{tag}</span>
+                        ))}
+                        {preset.compute && (
+                            <span className="text-[8px] px-1.5 py-0.5 border border-cyan-500/30 rounded-sm text-cyan-400/70 uppercase bg-black/50">Compute</span>
+                        )}
+                        {preset.passes && preset.passes.length > 0 && (
+                            <span className="text-[8px] px-1.5 py-0.5 border border-acid/30 rounded-sm text-acid/70 uppercase bg-black/50">{preset.passes.length + 1} Passes</span>
+                        )}
+                    </div>
+                </div>
+            </button>
+
+            {/* Render Graph: open any pass of the active shader in the editor */}
+            {activePresetId === preset.id && (
+                <div className="hidden md:flex items-center gap-1 px-1 flex-wrap">
+                    {activeCompute && (
+                        <>
+                            <button onClick={() => onEditPass('compute')} className="text-[9px] font-mono uppercase px-2 py-1 border border-white/10 rounded-sm text-gray-400 hover:border-cyan-500 hover:text-cyan-400 transition-colors">Compute ×{activeCompute.stages.length}</button>
+                            <span className="text-[9px] text-gray-600">→</span>
+                        </>
+                    )}
+                    {activePasses.map(pass => (
+                        <React.Fragment key={pass.id}>
+                            <button onClick={() => onEditPass(pass.id)} className="text-[9px] font-mono uppercase px-2 py-1 border border-white/10 rounded-sm text-gray-400 hover:border-acid hover:text-acid transition-colors">{pass.label}</button>
+                            <span className="text-[9px] text-gray-600">→</span>
+                        </React.Fragment>
+                    ))}
+                    <button onClick={() => onEditPass('image')} className="text-[9px] font-mono uppercase px-2 py-1 border border-white/10 rounded-sm text-gray-400 hover:border-acid hover:text-acid transition-colors">Image</button>
+                </div>
+            )}
+        </div>
+    );
 
     return (
         <div className="fixed top-10 left-0 bottom-0 w-24 md:w-80 bg-black border-r border-white/10 z-20 flex flex-col">
@@ -176,40 +284,35 @@ export const GallerySidebar: React.FC<GallerySidebarProps> = ({ presets, activeP
             </div>
 
             <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-3">
-                {tab === 'presets' && presets.map(preset => (
-                    <button 
-                        key={preset.id} 
-                        onClick={() => onSelect(preset)}
-                        className={`w-full text-left p-2 rounded border transition-all duration-300 group relative overflow-hidden ${activePresetId === preset.id ? 'border-acid bg-acid/5 shadow-[0_0_20px_rgba(204,255,0,0.1)]' : 'border-white/10 hover:border-white/30 hover:bg-white/5'}`}
-                    >
-                        <div className={`h-16 md:h-24 w-full mb-3 bg-gradient-to-br transition-opacity rounded-sm overflow-hidden relative ${activePresetId === preset.id ? 'opacity-100' : 'opacity-60 group-hover:opacity-80'}`} 
-                             style={{ 
-                                 backgroundImage: preset.id === 'chrome' ? 'linear-gradient(135deg, #eee, #999)' : 
-                                                  preset.id === 'obsidian' ? 'linear-gradient(to bottom, #000, #1a1a2e)' : 
-                                                  preset.id === 'gold' ? 'linear-gradient(to bottom right, #DAA520, #8B4513)' :
-                                                  preset.id === 'core' ? 'linear-gradient(135deg, #e0f2fe, #0ea5e9)' :
-                                                  preset.id === 'card' ? 'linear-gradient(45deg, #333, #666)' : 'linear-gradient(120deg, #1e1b4b, #312e81)' 
-                             }}
-                        >
-                            <div className="absolute inset-0 flex items-center justify-center">
-                                 {preset.id === 'chrome' && <div className="w-8 h-8 rounded-full bg-gradient-to-br from-white to-gray-400 border border-white/50 group-hover:scale-110 transition-transform"></div>}
-                                 {preset.id === 'obsidian' && <div className="w-8 h-8 rotate-45 border-2 border-blue-500/50 bg-black/50 group-hover:rotate-90 transition-transform duration-700"></div>}
-                                 {preset.id === 'gold' && <div className="w-12 h-6 rounded-full bg-yellow-500/30 blur-md group-hover:blur-lg transition-all"></div>}
-                                 {preset.id === 'card' && <div className="w-8 h-5 border border-white/50 bg-white/10 backdrop-blur-md group-hover:scale-110 transition-transform"></div>}
-                            </div>
-                        </div>
-                        <div className="hidden md:block px-1">
-                            <div className="flex justify-between items-center mb-1.5">
-                                <div className={`text-xs font-bold uppercase tracking-wider ${activePresetId === preset.id ? 'text-white' : 'text-gray-400'}`}>{preset.name}</div>
-                            </div>
-                            <div className="flex gap-1 flex-wrap">
-                                {preset.tags.map(tag => (
-                                    <span key={tag} className="text-[8px] px-1.5 py-0.5 border border-white/10 rounded-sm text-gray-500 uppercase bg-black/50">{tag}</span>
-                                ))}
-                            </div>
+                {tab === 'presets' && (
+                    <>
+                        <div className="space-y-2">
+                            <input
+                                type="search"
+                                value={query}
+                                onChange={e => setQuery(e.target.value)}
+                                placeholder="Search shaders..."
+                                className="w-full bg-black border border-white/20 px-2 py-1.5 text-xs text-white rounded focus:border-acid outline-none font-mono"
+                            />
+                            {allTags.length > 0 && (
+                                <div className="hidden md:flex gap-1 flex-wrap">
+                                    {allTags.map(tag => (
+                                        <button key={tag} onClick={() => toggleTag(tag)} className={`text-[8px] px-1.5 py-0.5 border rounded-sm uppercase transition-colors ${selectedTags.includes(tag) ? 'border-acid text-acid bg-acid/10' : 'border-white/10 text-gray-500 hover:text-white'}`}>{tag}</button>
+                                    ))}
+                                </div>
+                            )}
+                            <button onClick={onSavePreset} className="w-full py-2 text-[10px] font-mono uppercase tracking-widest border border-dashed border-white/20 rounded text-gray-400 hover:border-acid hover:text-acid transition-colors">+ Save Current as Preset</button>
                         </div>
-                    </button>
-                ))}
+
+                        {visibleUserPresets.length > 0 && <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest px-1 pt-2">My Presets</div>}
+                        {visibleUserPresets.map(renderPresetCard)}
+                        {visibleUserPresets.length > 0 && visiblePresets.length > 0 && <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest px-1 pt-2">Built-in</div>}
+                        {visiblePresets.map(renderPresetCard)}
+                        {visibleUserPresets.length === 0 && visiblePresets.length === 0 && (
+                            <div className="text-[10px] font-mono text-gray-600 text-center py-6">No shaders match.</div>
+                        )}
+                    </>
+                )}
 
                 {tab === 'layouts' && (
                     <>
@@ -289,13 +392,45 @@ export const GallerySidebar: React.FC<GallerySidebarProps> = ({ presets, activeP
                                  </div>
                              ))}
                          </div>
+
+                         <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest px-1 mb-2 mt-6">Post Processing</div>
+                         <PostStackControls post={post} onChange={setPost} />
                     </>
                 )}
 
                 {tab === 'tuning' && (
                     <div className="p-2 pt-4">
                         <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest px-1 mb-6">Real-Time Parameters</div>
-                        <ShaderControls params={params} setParams={setParams} />
+                        <ShaderControls params={params} setParams={setParams} modulations={modulations} setModulations={setModulations} />
+
+                        <div className="mt-10 pt-6 border-t border-white/10">
+                            <AudioControls audio={audio} settings={audioSettings} onChangeSettings={setAudioSettings} getFrame={getAudioFrame} onStartMicrophone={onStartMicrophone} onLoad={onLoadAudio} onStop={onStopAudio} />
+                        </div>
+
+                        {camera && (
+                            <div className="mt-10 pt-6 border-t border-white/10 space-y-4">
+                                <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest px-1">Camera</div>
+                                {([
+                                    { key: 'fov', label: 'Field of View', min: 20, max: 120, step: 1, unit: '°' },
+                                    { key: 'roll', label: 'Roll', min: -45, max: 45, step: 1, unit: '°' },
+                                    { key: 'autoOrbit', label: 'Auto-Orbit', min: -1, max: 1, step: 0.01, unit: ' rad/s' },
+                                ] as const).map(control => (
+                                    <div key={control.key} className="space-y-1 px-1">
+                                        <div className="flex justify-between text-[10px] uppercase font-mono text-gray-400">
+                                            <span>{control.label}</span>
+                                            <span className="text-white">{camera[control.key].toFixed(control.step < 1 ? 2 : 0)}{control.unit}</span>
+                                        </div>
+                                        <input
+                                            type="range" min={control.min} max={control.max} step={control.step}
+                                            value={camera[control.key]}
+                                            onChange={(e) => setCamera({ ...camera, [control.key]: parseFloat(e.target.value) })}
+                                            className="w-full accent-acid"
+                                        />
+                                    </div>
+                                ))}
+                                <div className="text-[9px] font-mono text-white/30 px-1">Drag the canvas to orbit, scroll to zoom. View → Reset Camera returns to the preset pose.</div>
+                            </div>
+                        )}
                     </div>
                 )}
                 
@@ -308,7 +443,7 @@ export const GallerySidebar: React.FC<GallerySidebarProps> = ({ presets, activeP
                             </div>
                             <div>
                                 <div className="text-xs font-bold text-white mb-1">Upload Texture</div>
-                                <div className="text-[10px] text-gray-500">JPG, PNG, WEBP supported.</div>
+                                <div className="text-[10px] text-gray-500">Loads into channel 0. JPG, PNG, WEBP through the import options; MP4 and WEBM play as video.</div>
                             </div>
                         </div>
                         <div className="mt-8 space-y-6">
@@ -355,6 +490,10 @@ export const GallerySidebar: React.FC<GallerySidebarProps> = ({ presets, activeP
                                       </div>
                                   </div>
                              </div>
+
+                             <ChannelSlots channels={channels} setChannels={setChannels} textures={textures} videos={videos} onLoad={onLoadChannel} onStartCamera={onStartCamera} getVideo={getVideo} />
+
+                             <LutLibrary luts={luts} grade={grade} setGrade={setGrade} onImport={onImportLut} onDelete={onDeleteLut} />
                         </div>
                     </div>
                 )}
@@ -400,11 +539,36 @@ export const DocumentationOverlay: React.FC<DocumentationOverlayProps> = ({ isOp
                    <h3 className="text-white font-bold mt-4">Uniforms</h3>
                    <ul className="list-disc pl-5 space-y-1 font-mono text-xs">
                        <li>u.resolution (vec2f) - Canvas size</li>
-                       <li>u.time (f32) - Elapsed time in seconds</li>
+                       <li>u.time (f32) - Transport time in seconds; pauses, scrubs, scales and loops with the transport bar</li>
+                       <li>u.dt (f32) - Seconds since the previous frame (0 on the first, negative when stepping back)</li>
+                       <li>u.frame (f32) - Frames rendered so far; exports count from 0</li>
+                       <li>u.seed (f32) - Stable random seed, set in the transport bar and saved with the project</li>
                        <li>u.mouse (vec4f) - Mouse coords (xy), Click (z), Scroll (w)</li>
-                       <li>u.cameraPos (vec4f) - Camera position</li>
-                       <li>u.audio (vec4f) - Audio levels (Low, Mid, High, Vol)</li>
+                       <li>u.tile (vec4f) - Tiled still slice: uv offset (xy), uv scale (zw); read by vs_main</li>
+                       <li>u.cameraPos (vec4f) - Camera position (xyz), vertical FOV in radians (w)</li>
+                       <li>u.cameraTarget / u.cameraUp (vec4f) - Look-at point + roll, up vector</li>
+                       <li>getCameraRay(p) - CameraRay {'{'} ro, rd {'}'} for the centered screen position p</li>
+                       <li>u.audio (vec4f) - Audio levels (Low, Mid, High, Vol), smoothed; band edges in the Tuning tab</li>
+                       <li>u.audioBeat (vec4f) - Beat pulse, beat count, onset strength, seconds since the beat</li>
+                       <li>audioSpectrum(x) / audioWaveform(x) - The 512x2 audioTexture at x (0-1)</li>
                        <li>u.scrollY (f32) - Normalized scroll position (0-1)</li>
+                       <li>u.channel0Size - u.channel3Size (vec2f) - Pixel size of each channel as imported; tileUV(uv) tiles channel 0 with square texels</li>
+                   </ul>
+
+                   <h3 className="text-white font-bold mt-4">Passes</h3>
+                   <ul className="list-disc pl-5 space-y-1 font-mono text-xs">
+                       <li>channel0-3 / sampler0-3 - Texture channels at @group(0) @binding(1 + 2N) / (2 + 2N); assign images and samplers in Assets</li>
+                       <li>bufferA / bufferB / bufferC (texture_2d) - Offscreen rgba16float buffers, rendered in order before Image</li>
+                       <li>textureSampleLevel(bufferA, bufferSampler, bufferUV(uv), 0.0) - Read a buffer; its own pass sees the previous frame</li>
+                       <li>@group(2) @binding(0-3) - Storage buffers: read_write in the Compute tab, read in render passes</li>
+                       <li>@group(2) @binding(4-5) - rgba16float storage textures: write in compute, texture_2d in render passes</li>
+                   </ul>
+
+                   <h3 className="text-white font-bold mt-4">Timeline</h3>
+                   <ul className="list-disc pl-5 space-y-1 font-mono text-xs">
+                       <li>View → Toggle Timeline - Keyframe camera, params, scroll and texture per preset</li>
+                       <li>◆ - Key the current value at the playhead (turn Preview off to pose the camera freely)</li>
+                       <li>Record Video → Timeline - Export renders the timeline frame by frame</li>
                    </ul>
 
                    <h3 className="text-white font-bold mt-4">Shortcuts</h3>
@@ -476,9 +640,10 @@ interface VideoExportOverlayProps {
     isOpen: boolean;
     onClose: () => void;
     onStartRecord: (config: VideoConfig) => void;
+    timeline: Timeline;
 }
 
-export const VideoExportOverlay: React.FC<VideoExportOverlayProps> = ({ isOpen, onClose, onStartRecord }) => {
+export const VideoExportOverlay: React.FC<VideoExportOverlayProps> = ({ isOpen, onClose, onStartRecord, timeline }) => {
     const [config, setConfig] = useState<VideoConfig>({
         duration: 5,
         fps: 60,
@@ -486,7 +651,7 @@ export const VideoExportOverlay: React.FC<VideoExportOverlayProps> = ({ isOpen,
         shotType: 'orbit',
         orchestrate: true,
         postProcess: { grain: 0.05, aberration: 0.0 },
-        format: 'webm'
+        format: 'mp4'
     });
 
     if (!isOpen) return null;
@@ -496,7 +661,7 @@ export const VideoExportOverlay: React.FC<VideoExportOverlayProps> = ({ isOpen,
              <div className="bg-gray-900 border border-white/10 max-w-lg w-full p-8 rounded-xl shadow-2xl">
                 <h2 className="text-xl font-bold mb-6 text-white font-mono uppercase border-b border-white/10 pb-4">Export Video</h2>
                 
-                <div className="space-y-4 mb-8">
+                <div className="space-y-4 mb-4">
                     <div className="grid grid-cols-2 gap-4">
                         <div>
                             <label className="block text-[10px] uppercase text-gray-500 mb-1">Duration (Sec)</label>
@@ -513,7 +678,12 @@ export const VideoExportOverlay: React.FC<VideoExportOverlayProps> = ({ isOpen,
 
                     <div>
                         <label className="block text-[10px] uppercase text-gray-500 mb-1">Camera Movement</label>
-                        <select value={config.shotType} onChange={e => setConfig({...config, shotType: e.target.value as ShotType})} className="w-full bg-black border border-white/20 p-2 text-sm text-white rounded focus:border-acid outline-none">
+                        <select value={config.shotType} onChange={e => {
+                            const shotType = e.target.value as ShotType;
+                            // A timeline shot defaults to exactly one pass through the timeline
+                            setConfig({...config, shotType, duration: shotType === 'timeline' ? timeline.duration : config.duration});
+                        }} className="w-full bg-black border border-white/20 p-2 text-sm text-white rounded focus:border-acid outline-none">
+                            <option value="timeline" disabled={!hasKeyframes(timeline)}>Timeline (Keyframes)</option>
                             <option value="orbit">Simple Orbit</option>
                             <option value="sweep">Cinematic Sweep</option>
                             <option value="dolly">Slow Dolly Zoom</option>
@@ -522,12 +692,39 @@ export const VideoExportOverlay: React.FC<VideoExportOverlayProps> = ({ isOpen,
                         </select>
                     </div>
                     
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-[10px] uppercase text-gray-500 mb-1">Container</label>
+                            <select value={config.format} onChange={e => setConfig({...config, format: e.target.value as VideoConfig['format']})} className="w-full bg-black border border-white/20 p-2 text-sm text-white rounded focus:border-acid outline-none">
+                                <option value="mp4">MP4 (H.264)</option>
+                                <option value="webm">WebM (VP9)</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-[10px] uppercase text-gray-500 mb-1">Bitrate (Mbps)</label>
+                            <input type="number" min={1} max={100} value={config.bitrate} onChange={e => setConfig({...config, bitrate: Number(e.target.value)})} className="w-full bg-black border border-white/20 p-2 text-sm text-white rounded focus:border-acid outline-none" />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <div className="flex justify-between text-[10px] uppercase text-gray-500 mb-1"><span>Film Grain</span><span className="font-mono text-white">{config.postProcess.grain.toFixed(2)}</span></div>
+                            <input type="range" min={0} max={0.2} step={0.01} value={config.postProcess.grain} onChange={e => setConfig({...config, postProcess: {...config.postProcess, grain: Number(e.target.value)}})} className="w-full accent-acid" />
+                        </div>
+                        <div>
+                            <div className="flex justify-between text-[10px] uppercase text-gray-500 mb-1"><span>Aberration</span><span className="font-mono text-white">{config.postProcess.aberration.toFixed(2)}</span></div>
+                            <input type="range" min={0} max={1} step={0.01} value={config.postProcess.aberration} onChange={e => setConfig({...config, postProcess: {...config.postProcess, aberration: Number(e.target.value)}})} className="w-full accent-acid" />
+                        </div>
+                    </div>
+
                     <div className="flex items-center gap-2 pt-2">
-                        <input type="checkbox" checked={config.orchestrate} onChange={e => setConfig({...config, orchestrate: e.target.checked})} className="accent-acid"/>
-                        <span className="text-xs text-gray-300">Auto-animate parameters</span>
+                        <input type="checkbox" checked={config.orchestrate && config.shotType !== 'timeline'} disabled={config.shotType === 'timeline'} onChange={e => setConfig({...config, orchestrate: e.target.checked})} className="accent-acid"/>
+                        <span className="text-xs text-gray-300">Auto-animate parameters{config.shotType === 'timeline' ? ' (driven by timeline)' : ''}</span>
                     </div>
                 </div>
 
+                <p className="text-[10px] font-mono text-gray-500 mb-6">Rendered offline at 1920x1080, frame by frame. {Math.round(config.duration * config.fps)} frames, independent of preview FPS.</p>
+
                 <div className="flex justify-end gap-3">
                     <button onClick={onClose} className="px-4 py-2 text-xs font-mono uppercase text-gray-400 hover:text-white">Cancel</button>
                     <button onClick={() => { onStartRecord(config); onClose(); }} className="px-6 py-2 bg-acid text-black font-bold text-xs font-mono uppercase rounded hover:bg-white transition-colors">Start Render</button>
@@ -537,19 +734,1005 @@ export const VideoExportOverlay: React.FC<VideoExportOverlayProps> = ({ isOpen,
     );
 };
 
+// --- STILL CAPTURE ---
+interface StillCaptureOverlayProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onCapture: (config: StillConfig) => void;
+}
+
+export const StillCaptureOverlay: React.FC<StillCaptureOverlayProps> = ({ isOpen, onClose, onCapture }) => {
+    const [sizeId, setSizeId] = useState(STILL_SIZES[1].id);
+    const [portrait, setPortrait] = useState(false);
+    const [custom, setCustom] = useState({ width: 6000, height: 4000 });
+    const [quality, setQuality] = useState(1);
+    const [samples, setSamples] = useState(16);
+    const [shutter, setShutter] = useState(0);
+
+    if (!isOpen) return null;
+
+    const preset = STILL_SIZES.find(s => s.id === sizeId);
+    const base = preset ? { width: preset.width, height: preset.height } : custom;
+    const size = portrait && preset ? { width: base.height, height: base.width } : base;
+    const valid = [size.width, size.height].every(v => Number.isInteger(v) && v >= 1 && v <= MAX_STILL_SIZE);
+    const megapixels = size.width * size.height / 1e6;
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-md z-50 flex items-center justify-center p-4">
+             <div className="bg-gray-900 border border-white/10 max-w-md w-full p-8 rounded-xl shadow-2xl">
+                <h2 className="text-xl font-bold mb-6 text-white font-mono uppercase border-b border-white/10 pb-4">Capture Still</h2>
+
+                <div className="space-y-4 mb-4">
+                    <div>
+                        <label className="block text-[10px] uppercase text-gray-500 mb-1">Size</label>
+                        <select value={sizeId} onChange={e => setSizeId(e.target.value)} className="w-full bg-black border border-white/20 p-2 text-sm text-white rounded focus:border-acid outline-none">
+                            {STILL_SIZES.map(s => <option key={s.id} value={s.id}>{s.label} ({s.width}x{s.height})</option>)}
+                            <option value="custom">Custom</option>
+                        </select>
+                    </div>
+
+                    {preset ? (
+                        <div className="flex items-center gap-2">
+                            <input type="checkbox" checked={portrait} onChange={e => setPortrait(e.target.checked)} className="accent-acid"/>
+                            <span className="text-xs text-gray-300">Portrait</span>
+                        </div>
+                    ) : (
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-[10px] uppercase text-gray-500 mb-1">Width (px)</label>
+                                <input type="number" min={1} max={MAX_STILL_SIZE} value={custom.width} onChange={e => setCustom({...custom, width: Number(e.target.value)})} className="w-full bg-black border border-white/20 p-2 text-sm text-white rounded focus:border-acid outline-none" />
+                            </div>
+                            <div>
+                                <label className="block text-[10px] uppercase text-gray-500 mb-1">Height (px)</label>
+                                <input type="number" min={1} max={MAX_STILL_SIZE} value={custom.height} onChange={e => setCustom({...custom, height: Number(e.target.value)})} className="w-full bg-black border border-white/20 p-2 text-sm text-white rounded focus:border-acid outline-none" />
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-[10px] uppercase text-gray-500 mb-1">Shader Path</label>
+                            <select value={quality} onChange={e => setQuality(Number(e.target.value))} className="w-full bg-black border border-white/20 p-2 text-sm text-white rounded focus:border-acid outline-none">
+                                <option value={1}>Standard</option>
+                                <option value={2}>Ultra</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-[10px] uppercase text-gray-500 mb-1">Samples / Pixel</label>
+                            <select value={samples} onChange={e => setSamples(Number(e.target.value))} className="w-full bg-black border border-white/20 p-2 text-sm text-white rounded focus:border-acid outline-none">
+                                {STILL_SAMPLE_COUNTS.map(n => <option key={n} value={n}>{n === 1 ? '1 (no AA)' : n}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <div className="flex justify-between text-[10px] uppercase text-gray-500 mb-1"><span>Motion Blur (Shutter)</span><span className="font-mono text-white">{shutter === 0 ? 'OFF' : `${Math.round(shutter * 1000)} ms`}</span></div>
+                        <input type="range" min={0} max={0.1} step={0.005} value={shutter} disabled={samples === 1} onChange={e => setShutter(Number(e.target.value))} className="w-full accent-acid disabled:opacity-40" />
+                    </div>
+                </div>
+
+                <p className="text-[10px] font-mono text-gray-500 mb-6">
+                    {valid ? `${size.width}x${size.height}, ${megapixels.toFixed(1)} MP, ${samples} sample${samples === 1 ? '' : 's'} per pixel. Rendered offscreen in tiles; the preview holds still until it is done.` : `Width and height must be whole numbers from 1 to ${MAX_STILL_SIZE}.`}
+                </p>
+
+                <div className="flex justify-end gap-3">
+                    <button onClick={onClose} className="px-4 py-2 text-xs font-mono uppercase text-gray-400 hover:text-white">Cancel</button>
+                    <button onClick={() => { onCapture({ ...size, quality, samples, shutter: samples === 1 ? 0 : shutter }); onClose(); }} disabled={!valid} className="px-6 py-2 bg-acid text-black font-bold text-xs font-mono uppercase rounded hover:bg-white transition-colors disabled:opacity-40">Render PNG</button>
+                </div>
+             </div>
+        </div>
+    );
+};
+
+// --- PRESET DIALOG ---
+export interface PresetDetails {
+    name: string;
+    description: string;
+    tags: string[];
+}
+
+interface PresetDialogProps {
+    isOpen: boolean;
+    title: string; // 'Save as Preset' or 'Edit Preset'
+    initial: PresetDetails;
+    onClose: () => void;
+    onSubmit: (details: PresetDetails) => void;
+}
+
+export const PresetDialog: React.FC<PresetDialogProps> = ({ isOpen, title, initial, onClose, onSubmit }) => {
+    const [name, setName] = useState(initial.name);
+    const [description, setDescription] = useState(initial.description);
+    const [tags, setTags] = useState(initial.tags.join(', '));
+
+    // Refill the form every time it opens
+    useEffect(() => {
+        if (!isOpen) return;
+        setName(initial.name);
+        setDescription(initial.description);
+        setTags(initial.tags.join(', '));
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const submit = () => {
+        if (!name.trim()) return;
+        onSubmit({ name: name.trim(), description: description.trim(), tags: parseTags(tags) });
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-md z-50 flex items-center justify-center p-4">
+             <div className="bg-gray-900 border border-white/10 max-w-lg w-full p-8 rounded-xl shadow-2xl">
+                <h2 className="text-xl font-bold mb-6 text-white font-mono uppercase border-b border-white/10 pb-4">{title}</h2>
+
+                <div className="space-y-4 mb-6">
+                    <div>
+                        <label className="block text-[10px] uppercase text-gray-500 mb-1">Name</label>
+                        <input autoFocus value={name} onChange={e => setName(e.target.value)} onKeyDown={e => e.key === 'Enter' && submit()} className="w-full bg-black border border-white/20 p-2 text-sm text-white rounded focus:border-acid outline-none" />
+                    </div>
+                    <div>
+                        <label className="block text-[10px] uppercase text-gray-500 mb-1">Description</label>
+                        <textarea value={description} onChange={e => setDescription(e.target.value)} rows={3} className="w-full bg-black border border-white/20 p-2 text-sm text-white rounded focus:border-acid outline-none resize-none" />
+                    </div>
+                    <div>
+                        <label className="block text-[10px] uppercase text-gray-500 mb-1">Tags (comma separated)</label>
+                        <input value={tags} onChange={e => setTags(e.target.value)} onKeyDown={e => e.key === 'Enter' && submit()} placeholder="client-x, dark, glass" className="w-full bg-black border border-white/20 p-2 text-sm text-white rounded focus:border-acid outline-none font-mono" />
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-3">
+                    <button onClick={onClose} className="px-4 py-2 text-xs font-mono uppercase text-gray-400 hover:text-white">Cancel</button>
+                    <button onClick={submit} disabled={!name.trim()} className="px-6 py-2 bg-acid text-black font-bold text-xs font-mono uppercase rounded hover:bg-white transition-colors disabled:opacity-40">Save</button>
+                </div>
+             </div>
+        </div>
+    );
+};
+
+// --- TEXTURE IMPORT DIALOG ---
+// Shown for every picked image; the preview runs the same processing as the upload
+interface TextureImportDialogProps {
+    file: File | null; // Null keeps the dialog closed
+    channel: number;
+    initial: TextureImportOptions;
+    onClose: () => void;
+    onImport: (options: TextureImportOptions) => void;
+}
+
+export const TextureImportDialog: React.FC<TextureImportDialogProps> = ({ file, channel, initial, onClose, onImport }) => {
+    const [options, setOptions] = useState(initial);
+    const [preview, setPreview] = useState<{ url: string, width: number, height: number } | null>(null);
+    const [sourceSize, setSourceSize] = useState<{ width: number, height: number } | null>(null);
+
+    // Refill the form every time it opens
+    useEffect(() => {
+        if (!file) return;
+        setOptions(initial);
+        setSourceSize(null);
+        createImageBitmap(file).then(bitmap => {
+            setSourceSize({ width: bitmap.width, height: bitmap.height });
+            bitmap.close();
+        }).catch(() => setSourceSize(null));
+    }, [file]);
+
+    // Debounced, so dragging a slider does not reprocess every step
+    useEffect(() => {
+        if (!file) return;
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                const canvas = await prepareTextureCanvas(file, options);
+                if (!cancelled) setPreview({ url: canvas.toDataURL('image/png'), width: canvas.width, height: canvas.height });
+            } catch (e) {
+                if (!cancelled) setPreview(null);
+            }
+        }, 150);
+        return () => { cancelled = true; clearTimeout(timer); };
+    }, [file, options]);
+
+    if (!file) return null;
+
+    const set = (patch: Partial<TextureImportOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+    const output = sourceSize && getImportLayout(sourceSize.width, sourceSize.height, options);
+    const submit = () => {
+        onImport(options);
+        onClose();
+    };
+    const labelClass = "block text-[10px] uppercase text-gray-500 mb-1";
+    const checkClass = "flex items-center gap-2 text-xs text-gray-300 cursor-pointer";
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-md z-50 flex items-center justify-center p-4">
+             <div className="bg-gray-900 border border-white/10 max-w-2xl w-full p-8 rounded-xl shadow-2xl">
+                <h2 className="text-xl font-bold mb-6 text-white font-mono uppercase border-b border-white/10 pb-4">Import Texture <span className="text-cyan-400 text-sm">channel{channel}</span></h2>
+
+                <div className="flex gap-6 mb-6">
+                    <div className="w-56 shrink-0 space-y-2">
+                        <div className="w-56 h-56 rounded border border-white/10 flex items-center justify-center overflow-hidden bg-[repeating-conic-gradient(#222_0_25%,#111_0_50%)] bg-[length:16px_16px]">
+                            {preview ? <img src={preview.url} className="max-w-full max-h-full object-contain" /> : <span className="text-[10px] text-gray-600 font-mono">Processing...</span>}
+                        </div>
+                        <div className="text-[10px] font-mono text-gray-500 truncate" title={file.name}>{file.name}</div>
+                        <div className="text-[10px] font-mono text-gray-400">
+                            {sourceSize ? `${sourceSize.width}x${sourceSize.height}` : '?'} → {output ? `${output.width}x${output.height}` : '?'}
+                        </div>
+                    </div>
+
+                    <div className="flex-1 space-y-4">
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className={labelClass}>Fit</label>
+                                <select value={options.fit} onChange={e => set({ fit: e.target.value as TextureFit })} className="w-full bg-black border border-white/20 p-2 text-xs text-white rounded focus:border-cyan-500 outline-none">
+                                    {TEXTURE_FITS.map(fit => <option key={fit.id} value={fit.id}>{fit.label}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className={labelClass}>Max Size</label>
+                                <select value={options.maxSize} onChange={e => set({ maxSize: parseInt(e.target.value) })} className="w-full bg-black border border-white/20 p-2 text-xs text-white rounded focus:border-cyan-500 outline-none">
+                                    {TEXTURE_MAX_SIZES.map(size => <option key={size} value={size}>{size}px</option>)}
+                                </select>
+                            </div>
+                        </div>
+                        <div>
+                            <div className="flex justify-between text-[10px] uppercase text-gray-500 mb-1"><span>Gamma</span><span>{options.gamma.toFixed(2)}</span></div>
+                            <input type="range" min="0.2" max="3" step="0.05" value={options.gamma} onChange={e => set({ gamma: parseFloat(e.target.value) })} className="w-full accent-cyan-500 h-1 bg-white/10 rounded-lg appearance-none cursor-pointer"/>
+                        </div>
+                        <div>
+                            <div className="flex justify-between text-[10px] uppercase text-gray-500 mb-1"><span>Blur</span><span>{options.blur}px</span></div>
+                            <input type="range" min="0" max="32" step="1" value={options.blur} onChange={e => set({ blur: parseFloat(e.target.value) })} className="w-full accent-cyan-500 h-1 bg-white/10 rounded-lg appearance-none cursor-pointer"/>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <label className={checkClass}><input type="checkbox" checked={options.powerOfTwo} onChange={e => set({ powerOfTwo: e.target.checked })} className="accent-cyan-500" />Power of two</label>
+                            <label className={checkClass}><input type="checkbox" checked={options.autoLevels} onChange={e => set({ autoLevels: e.target.checked })} className="accent-cyan-500" />Auto levels</label>
+                            <label className={checkClass}><input type="checkbox" checked={options.invert} onChange={e => set({ invert: e.target.checked })} className="accent-cyan-500" />Invert</label>
+                            <label className={checkClass}><input type="checkbox" checked={options.premultiply} onChange={e => set({ premultiply: e.target.checked })} className="accent-cyan-500" />Premultiply alpha</label>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-3">
+                    <button onClick={onClose} className="px-4 py-2 text-xs font-mono uppercase text-gray-400 hover:text-white">Cancel</button>
+                    <button onClick={submit} className="px-6 py-2 bg-cyan-500 text-black font-bold text-xs font-mono uppercase rounded hover:bg-white transition-colors">Import</button>
+                </div>
+             </div>
+        </div>
+    );
+};
+
 // --- RECORDING INDICATOR ---
 interface RecordingIndicatorProps {
     isRecording: boolean;
     timeLeft: number;
+    progress: number; // 0-1, frames encoded / total frames
     onStop: () => void;
+    label?: string; // Defaults to EXPORT
+    detail?: string; // Replaces the time left
+    stopTitle?: string;
 }
-export const RecordingIndicator: React.FC<RecordingIndicatorProps> = ({ isRecording, timeLeft, onStop }) => {
+export const RecordingIndicator: React.FC<RecordingIndicatorProps> = ({ isRecording, timeLeft, progress, onStop, label = 'EXPORT', detail, stopTitle = 'Stop and save what has been rendered' }) => {
     if (!isRecording) return null;
     return (
-        <div className="fixed top-14 right-4 bg-red-900/90 border border-red-500 text-white px-4 py-2 rounded-full flex items-center gap-3 z-50 animate-pulse shadow-[0_0_15px_rgba(239,68,68,0.5)]">
-            <div className="w-2 h-2 bg-white rounded-full"></div>
-            <span className="font-mono text-xs font-bold">REC {timeLeft.toFixed(1)}s</span>
-            <button onClick={onStop} className="ml-2 w-4 h-4 bg-white hover:bg-gray-200 mask mask-square"></button>
+        <div className="fixed top-14 right-4 bg-red-900/90 border border-red-500 text-white pl-4 pr-3 py-2 rounded-full flex items-center gap-3 z-50 shadow-[0_0_15px_rgba(239,68,68,0.5)] overflow-hidden">
+            <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
+            <span className="font-mono text-xs font-bold">{label} {Math.round(progress * 100)}%</span>
+            <span className="font-mono text-[10px] text-red-200">{detail ?? `${timeLeft.toFixed(1)}s left`}</span>
+            <button onClick={onStop} title={stopTitle} className="ml-1 w-4 h-4 bg-white hover:bg-gray-200 mask mask-square"></button>
+            <div className="absolute left-0 bottom-0 h-[2px] bg-white transition-all duration-100" style={{ width: `${progress * 100}%` }}></div>
+        </div>
+    );
+};
+
+// --- RESOLUTION CONTROLS ---
+// HUD readout of the adaptive render scale; click it to tune the controller
+interface ResolutionControlsProps {
+    settings: ResolutionSettings;
+    onChange: (settings: ResolutionSettings) => void;
+    scale: number; // Current scale reported by the renderer
+}
+export const ResolutionControls: React.FC<ResolutionControlsProps> = ({ settings, onChange, scale }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const setRange = (key: 'minScale' | 'maxScale', value: number) => {
+        const next = { ...settings, [key]: value };
+        // Dragging one end past the other moves both
+        if (key === 'minScale') next.maxScale = Math.max(next.maxScale, value);
+        else next.minScale = Math.min(next.minScale, value);
+        onChange(next);
+    };
+
+    return (
+        <div className="relative">
+            <button onClick={() => setIsOpen(!isOpen)} title="Adaptive resolution" className="font-mono text-[10px] text-white/40 tracking-widest hover:text-acid transition-colors">
+                RES {Math.round(scale * 100)}%{settings.enabled ? ' AUTO' : ''}
+            </button>
+            {isOpen && (
+                <div className="absolute bottom-6 left-0 w-56 bg-gray-900/95 border border-white/10 rounded-lg p-3 space-y-3 shadow-2xl">
+                    <label className="flex items-center gap-2 text-xs text-gray-300">
+                        <input type="checkbox" checked={settings.enabled} onChange={e => onChange({ ...settings, enabled: e.target.checked })} className="accent-acid" />
+                        Adaptive resolution
+                    </label>
+                    <div>
+                        <label className="block text-[10px] uppercase text-gray-500 mb-1">Target FPS</label>
+                        <select value={settings.targetFps} disabled={!settings.enabled} onChange={e => onChange({ ...settings, targetFps: Number(e.target.value) })} className="w-full bg-black border border-white/20 p-1 text-xs text-white rounded focus:border-acid outline-none disabled:opacity-40">
+                            <option value={30}>30 FPS</option>
+                            <option value={60}>60 FPS</option>
+                            <option value={120}>120 FPS</option>
+                        </select>
+                    </div>
+                    <div>
+                        <div className="flex justify-between text-[10px] uppercase text-gray-500 mb-1"><span>Min Scale</span><span className="font-mono text-white">{Math.round(settings.minScale * 100)}%</span></div>
+                        <input type="range" min={MIN_RESOLUTION_SCALE} max={1} step={0.05} value={settings.minScale} disabled={!settings.enabled} onChange={e => setRange('minScale', Number(e.target.value))} className="w-full accent-acid disabled:opacity-40" />
+                    </div>
+                    <div>
+                        <div className="flex justify-between text-[10px] uppercase text-gray-500 mb-1"><span>Max Scale</span><span className="font-mono text-white">{Math.round(settings.maxScale * 100)}%</span></div>
+                        <input type="range" min={MIN_RESOLUTION_SCALE} max={1} step={0.05} value={settings.maxScale} onChange={e => setRange('maxScale', Number(e.target.value))} className="w-full accent-acid" />
+                    </div>
+                    <p className="text-[10px] font-mono text-gray-500">Stills and video exports always render at full size.</p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// --- POST STACK ---
+// Per-preset effects run on the HDR render, in the order listed
+interface PostSliderProps {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    onChange: (value: number) => void;
+}
+const PostSlider: React.FC<PostSliderProps> = ({ label, value, min, max, step, onChange }) => (
+    <div className="space-y-1">
+        <div className="flex justify-between text-[10px] uppercase font-mono text-pink-400"><span>{label}</span><span>{value.toFixed(step < 0.01 ? 3 : 2)}</span></div>
+        <input type="range" min={min} max={max} step={step} value={value} onChange={e => onChange(parseFloat(e.target.value))} className="w-full accent-pink-500" />
+    </div>
+);
+
+interface PostStackControlsProps {
+    post?: PostSettings;
+    onChange: (post?: PostSettings) => void;
+}
+export const PostStackControls: React.FC<PostStackControlsProps> = ({ post, onChange }) => {
+    if (!post) {
+        return (
+            <div className="space-y-2">
+                <p className="text-[10px] text-gray-500 px-1 leading-tight">This shader tone maps in <code className="text-pink-400">fs_main</code>, so its output is shown as-is.</p>
+                <button onClick={() => onChange(PASSTHROUGH_POST)} className="w-full py-2 text-[10px] font-mono uppercase tracking-widest border border-dashed border-white/20 rounded text-gray-400 hover:border-pink-500 hover:text-pink-400 transition-colors">+ Add Post Stack</button>
+            </div>
+        );
+    }
+
+    const update = <K extends keyof PostSettings>(key: K, value: Partial<PostSettings[K]>) => onChange({ ...post, [key]: { ...post[key], ...value } });
+    const section = (key: keyof PostSettings, label: string, controls: React.ReactNode) => (
+        <div key={key} className="space-y-2">
+            <label className={`flex items-center justify-between p-3 rounded border cursor-pointer transition-all ${post[key].enabled ? 'border-pink-500 bg-pink-500/10 text-white' : 'border-white/10 text-gray-400 hover:border-white/40'}`}>
+                <span className="text-xs font-bold uppercase">{label}</span>
+                <input type="checkbox" checked={post[key].enabled} onChange={e => update(key, { enabled: e.target.checked })} className="accent-pink-500" />
+            </label>
+            {post[key].enabled && <div className="pl-4 pr-2 py-2 border-l border-pink-500/30 space-y-4 bg-black/20">{controls}</div>}
+        </div>
+    );
+
+    return (
+        <div className="space-y-2">
+            {section('bloom', 'Bloom', <>
+                <PostSlider label="Threshold" value={post.bloom.threshold} min={0} max={4} step={0.05} onChange={threshold => update('bloom', { threshold })} />
+                <PostSlider label="Intensity" value={post.bloom.intensity} min={0} max={2} step={0.01} onChange={intensity => update('bloom', { intensity })} />
+                <PostSlider label="Radius" value={post.bloom.radius} min={0.005} max={0.1} step={0.005} onChange={radius => update('bloom', { radius })} />
+            </>)}
+            {section('chromatic', 'Chromatic Aberration', <>
+                <PostSlider label="Strength" value={post.chromatic.strength} min={0} max={0.05} step={0.001} onChange={strength => update('chromatic', { strength })} />
+            </>)}
+            {section('vignette', 'Vignette', <>
+                <PostSlider label="Strength" value={post.vignette.strength} min={0} max={1} step={0.01} onChange={strength => update('vignette', { strength })} />
+                <PostSlider label="Softness" value={post.vignette.softness} min={0} max={1} step={0.01} onChange={softness => update('vignette', { softness })} />
+            </>)}
+            {section('tonemap', 'Tone Mapping', <>
+                <div className="space-y-1">
+                    <div className="text-[10px] uppercase font-mono text-pink-400">Operator</div>
+                    <select value={post.tonemap.operator} onChange={e => update('tonemap', { operator: e.target.value as TonemapOperator })} className="w-full bg-black border border-white/20 p-1 text-xs text-white rounded focus:border-pink-500 outline-none">
+                        {TONEMAP_OPERATORS.map(op => <option key={op.id} value={op.id}>{op.label}</option>)}
+                    </select>
+                </div>
+                <PostSlider label="Exposure" value={post.tonemap.exposure} min={0.1} max={4} step={0.05} onChange={exposure => update('tonemap', { exposure })} />
+            </>)}
+            {section('grain', 'Film Grain', <>
+                <PostSlider label="Strength" value={post.grain.strength} min={0} max={0.2} step={0.005} onChange={strength => update('grain', { strength })} />
+            </>)}
+            <button onClick={() => onChange(undefined)} className="w-full pt-1 text-[10px] font-mono uppercase tracking-widest text-gray-600 hover:text-red-400 transition-colors">Remove Post Stack</button>
+        </div>
+    );
+};
+
+// --- TEXTURE CHANNELS ---
+// The four channelN / samplerN slots; a preset's declaration holds the sampler
+// settings, the images belong to the session and saved projects
+interface ChannelSlotsProps {
+    channels?: TextureChannel[];
+    setChannels: (channels?: TextureChannel[]) => void;
+    textures: (ImportedTexture | null)[];
+    videos: (ChannelVideo | null)[];
+    onLoad: (channel: number, file: File | null) => void; // Images open the import dialog, videos play
+    onStartCamera: (channel: number) => void;
+    getVideo: (channel: number) => HTMLVideoElement | null;
+}
+export const ChannelSlots: React.FC<ChannelSlotsProps> = ({ channels, setChannels, textures, videos, onLoad, onStartCamera, getVideo }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const pendingSlot = useRef(0);
+    const list = channels || DEFAULT_CHANNELS;
+
+    const pickFile = (index: number) => { pendingSlot.current = index; inputRef.current?.click(); };
+    const update = (index: number, next: TextureChannel | null) => {
+        const others = list.filter(c => c.index !== index);
+        setChannels((next ? [...others, next] : others).sort((a, b) => a.index - b.index));
+    };
+    const setSampler = (channel: TextureChannel, patch: Partial<ChannelSampler>) => update(channel.index, { ...channel, sampler: { ...channel.sampler, ...patch } });
+    const selectClass = "flex-1 bg-black border border-white/20 p-1 text-[10px] text-white rounded focus:border-cyan-500 outline-none";
+
+    return (
+        <div className="space-y-3">
+            <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest px-1">Channels</div>
+            <input type="file" ref={inputRef} className="hidden" accept={`image/*,${VIDEO_ACCEPT}`} onChange={e => { const file = e.target.files?.[0]; if (file) onLoad(pendingSlot.current, file); e.target.value = ''; }} />
+            {Array.from({ length: MAX_CHANNELS }, (_, index) => {
+                const channel = list.find(c => c.index === index);
+                const file = textures[index]?.file;
+                const video = videos[index];
+                const videoName = video && (video.kind === 'file' ? video.file.name : 'Camera');
+                if (!channel) {
+                    return (
+                        <button key={index} onClick={() => update(index, { index, label: `Channel ${index}`, sampler: DEFAULT_CHANNEL_SAMPLER })} className="w-full py-2 text-[10px] font-mono uppercase tracking-widest border border-dashed border-white/10 rounded text-gray-600 hover:border-cyan-500 hover:text-cyan-400 transition-colors">+ channel{index}</button>
+                    );
+                }
+                return (
+                    <div key={index} className="p-3 rounded border border-white/10 bg-black/20 space-y-2">
+                        <div className="flex items-center gap-2">
+                            <span className="text-[9px] font-mono text-cyan-400">channel{index}</span>
+                            <input value={channel.label} onChange={e => update(index, { ...channel, label: e.target.value })} className="flex-1 min-w-0 bg-transparent border-b border-white/10 text-xs text-white focus:border-cyan-500 outline-none" />
+                            <span role="button" onClick={() => update(index, null)} className="text-[9px] font-mono uppercase text-gray-500 hover:text-red-400">Remove</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <button onClick={() => pickFile(index)} className="flex-1 text-left text-[10px] px-2 py-1 rounded border border-white/10 text-gray-400 hover:border-cyan-500 hover:text-white truncate">{file ? file.name : videoName || 'Placeholder (click to load)'}</button>
+                            {file && <span role="button" onClick={() => onLoad(index, file)} title="Import settings" className="text-[9px] font-mono uppercase text-gray-500 hover:text-cyan-400">Adjust</span>}
+                            {!video && <span role="button" onClick={() => onStartCamera(index)} title="Use the camera" className="text-[9px] font-mono uppercase text-gray-500 hover:text-cyan-400">Cam</span>}
+                            {(file || video) && <span role="button" onClick={() => onLoad(index, null)} className="text-[9px] font-mono uppercase text-gray-500 hover:text-red-400">Clear</span>}
+                        </div>
+                        {video && <MediaTransport key={videoName} getMedia={() => getVideo(index)} />}
+                        <div className="flex gap-2">
+                            <select value={channel.sampler.filter} onChange={e => setSampler(channel, { filter: e.target.value as ChannelSampler['filter'] })} className={selectClass}>
+                                <option value="linear">Linear</option>
+                                <option value="nearest">Nearest</option>
+                            </select>
+                            <select value={channel.sampler.address} onChange={e => setSampler(channel, { address: e.target.value as ChannelSampler['address'] })} className={selectClass}>
+                                {ADDRESS_MODES.map(mode => <option key={mode.id} value={mode.id}>{mode.label}</option>)}
+                            </select>
+                        </div>
+                        <div className="flex gap-4 text-[10px] text-gray-400">
+                            <label className="flex items-center gap-1 cursor-pointer"><input type="checkbox" checked={channel.sampler.mipmaps} onChange={e => setSampler(channel, { mipmaps: e.target.checked })} className="accent-cyan-500" />Mipmaps</label>
+                            <label className="flex items-center gap-1 cursor-pointer"><input type="checkbox" checked={channel.sampler.srgb} onChange={e => setSampler(channel, { srgb: e.target.checked })} className="accent-cyan-500" />sRGB (color)</label>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+// Play / pause and seek for a video channel or the audio file; live streams
+// only pause. Polls the element, which belongs to the renderer.
+const MediaTransport: React.FC<{ getMedia: () => HTMLMediaElement | null }> = ({ getMedia }) => {
+    const [state, setState] = useState({ paused: false, time: 0, duration: 0 });
+
+    useEffect(() => {
+        const poll = () => {
+            const media = getMedia();
+            if (media) setState({ paused: media.paused, time: media.currentTime, duration: Number.isFinite(media.duration) ? media.duration : 0 });
+        };
+        poll();
+        const timer = setInterval(poll, 250);
+        return () => clearInterval(timer);
+    }, []);
+
+    const toggle = () => {
+        const media = getMedia();
+        if (!media) return;
+        if (media.paused) media.play().catch(() => {});
+        else media.pause();
+        setState(prev => ({ ...prev, paused: !media.paused }));
+    };
+    const seek = (time: number) => {
+        const media = getMedia();
+        if (media) media.currentTime = time;
+        setState(prev => ({ ...prev, time }));
+    };
+
+    return (
+        <div className="flex items-center gap-2">
+            <button onClick={toggle} className="w-12 text-[9px] font-mono uppercase px-2 py-1 rounded border border-white/10 text-gray-400 hover:border-cyan-500 hover:text-white">{state.paused ? 'Play' : 'Pause'}</button>
+            {state.duration > 0 ? (
+                <>
+                    <input type="range" min="0" max={state.duration} step="0.01" value={state.time} onChange={e => seek(parseFloat(e.target.value))} className="flex-1 accent-cyan-500 h-1 bg-white/10 rounded-lg appearance-none cursor-pointer"/>
+                    <span className="text-[9px] font-mono text-gray-500 w-16 text-right">{state.time.toFixed(1)} / {state.duration.toFixed(1)}s</span>
+                </>
+            ) : <span className="flex-1 text-[9px] font-mono text-gray-500">Live</span>}
+        </div>
+    );
+};
+
+// --- AUDIO ---
+// Source and analysis behind u.audio, u.audioBeat and the audio texture
+const VISUALIZER_WIDTH = 256;
+const VISUALIZER_HEIGHT = 64;
+const VISUALIZER_MIN_HZ = 20; // Left edge of the log frequency axis
+
+interface AudioSliderProps {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    unit?: string;
+    onChange: (value: number) => void;
+}
+const AudioSlider: React.FC<AudioSliderProps> = ({ label, value, min, max, step, unit = '', onChange }) => (
+    <div className="space-y-1">
+        <div className="flex justify-between text-[10px] uppercase font-mono text-purple-300"><span>{label}</span><span>{value.toFixed(step < 1 ? 2 : 0)}{unit}</span></div>
+        <input type="range" min={min} max={max} step={step} value={value} onChange={e => onChange(parseFloat(e.target.value))} className="w-full accent-purple-500" />
+    </div>
+);
+
+// Spectrum on a log axis with the band edges, the waveform over it, and the
+// beat pulse. Polls the renderer's latest frame while a source plays.
+interface AudioVisualizerProps {
+    sampleRate: number;
+    settings: AudioSettings;
+    getFrame: () => AudioFrame | null;
+}
+const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ sampleRate, settings, getFrame }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const settingsRef = useRef(settings);
+    settingsRef.current = settings;
+
+    useEffect(() => {
+        const nyquist = sampleRate / 2;
+        const toX = (hz: number) => Math.log(Math.max(hz, VISUALIZER_MIN_HZ) / VISUALIZER_MIN_HZ) / Math.log(nyquist / VISUALIZER_MIN_HZ) * VISUALIZER_WIDTH;
+        let request = requestAnimationFrame(function draw() {
+            request = requestAnimationFrame(draw);
+            const ctx = canvasRef.current?.getContext('2d');
+            const frame = getFrame();
+            if (!ctx || !frame) return;
+            const { texture, beat } = frame;
+            ctx.clearRect(0, 0, VISUALIZER_WIDTH, VISUALIZER_HEIGHT);
+            ctx.fillStyle = `rgba(168,85,247,${0.1 + 0.4 * beat[0]})`;
+            ctx.fillRect(0, 0, VISUALIZER_WIDTH, VISUALIZER_HEIGHT);
+
+            ctx.fillStyle = '#a855f7';
+            for (let x = 0; x < VISUALIZER_WIDTH; x++) {
+                const hz = VISUALIZER_MIN_HZ * Math.pow(nyquist / VISUALIZER_MIN_HZ, x / VISUALIZER_WIDTH);
+                const bin = Math.min(AUDIO_TEXTURE_WIDTH - 1, Math.round(hz / nyquist * AUDIO_TEXTURE_WIDTH));
+                const h = texture[bin] / 255 * VISUALIZER_HEIGHT;
+                ctx.fillRect(x, VISUALIZER_HEIGHT - h, 1, h);
+            }
+
+            ctx.strokeStyle = 'rgba(255,255,255,0.6)';
+            ctx.beginPath();
+            for (let i = 0; i < AUDIO_TEXTURE_WIDTH; i++) {
+                const x = i / (AUDIO_TEXTURE_WIDTH - 1) * VISUALIZER_WIDTH;
+                const y = (1 - texture[AUDIO_TEXTURE_WIDTH + i] / 255) * VISUALIZER_HEIGHT;
+                if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+            }
+            ctx.stroke();
+
+            ctx.fillStyle = 'rgba(255,255,255,0.4)';
+            ctx.fillRect(Math.round(toX(settingsRef.current.lowEdge)), 0, 1, VISUALIZER_HEIGHT);
+            ctx.fillRect(Math.round(toX(settingsRef.current.highEdge)), 0, 1, VISUALIZER_HEIGHT);
+        });
+        return () => cancelAnimationFrame(request);
+    }, [sampleRate]);
+
+    return <canvas ref={canvasRef} width={VISUALIZER_WIDTH} height={VISUALIZER_HEIGHT} className="w-full h-16 bg-white/5 rounded" />;
+};
+
+interface AudioControlsProps {
+    audio: AudioSource | null;
+    settings: AudioSettings;
+    onChangeSettings: (settings: AudioSettings) => void;
+    getFrame: () => AudioFrame | null;
+    onStartMicrophone: () => void;
+    onLoad: (file: File) => void;
+    onStop: () => void;
+}
+export const AudioControls: React.FC<AudioControlsProps> = ({ audio, settings, onChangeSettings, getFrame, onStartMicrophone, onLoad, onStop }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const buttonClass = "flex-1 text-[9px] font-mono uppercase px-2 py-1.5 rounded border border-white/10 text-gray-400 hover:border-purple-500 hover:text-white transition-colors";
+    const set = (patch: Partial<AudioSettings>) => onChangeSettings({ ...settings, ...patch });
+
+    return (
+        <div className="space-y-3">
+            <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest px-1">Audio Reactivity</div>
+            <input type="file" ref={inputRef} className="hidden" accept={AUDIO_ACCEPT} onChange={e => { const file = e.target.files?.[0]; if (file) onLoad(file); e.target.value = ''; }} />
+            <div className="text-[10px] text-gray-400 px-1 truncate">{audio ? audio.name : 'No audio source; u.audio stays at zero.'}</div>
+            <div className="flex gap-2">
+                <button onClick={onStartMicrophone} className={buttonClass}>Microphone</button>
+                <button onClick={() => inputRef.current?.click()} className={buttonClass}>Load File</button>
+                {audio && <button onClick={onStop} className={`${buttonClass} hover:border-red-500 hover:text-red-400`}>Stop</button>}
+            </div>
+            {audio?.element && <MediaTransport key={audio.name} getMedia={() => audio.element} />}
+            {audio && <AudioVisualizer key={audio.name} sampleRate={audio.context.sampleRate} settings={settings} getFrame={getFrame} />}
+            <AudioSlider label="Gain" value={settings.gain} min={0} max={4} step={0.05} onChange={gain => set({ gain })} />
+            <AudioSlider label="Low / Mid" value={settings.lowEdge} min={40} max={1000} step={10} unit=" Hz" onChange={lowEdge => set({ lowEdge, highEdge: Math.max(settings.highEdge, lowEdge + 100) })} />
+            <AudioSlider label="Mid / High" value={settings.highEdge} min={1000} max={16000} step={100} unit=" Hz" onChange={highEdge => set({ highEdge })} />
+            <AudioSlider label="Attack" value={settings.attack} min={0} max={0.5} step={0.01} unit="s" onChange={attack => set({ attack })} />
+            <AudioSlider label="Release" value={settings.release} min={0} max={2} step={0.01} unit="s" onChange={release => set({ release })} />
+            <AudioSlider label="Beat Sensitivity" value={settings.beatSensitivity} min={0.5} max={4} step={0.1} onChange={beatSensitivity => set({ beatSensitivity })} />
+            <div className="text-[9px] font-mono text-white/30 px-1">Beats follow rises in the low band; lower sensitivity catches more of them. Video exports analyze audio files frame by frame and include the track; the microphone is read live.</div>
+        </div>
+    );
+};
+
+// --- LUT LIBRARY ---
+// Imported .cube files; the selected one grades the active preset as the last post pass
+interface LutLibraryProps {
+    luts: UserLut[];
+    grade?: ColorGrade;
+    setGrade: (grade?: ColorGrade) => void;
+    onImport: (file: File) => void;
+    onDelete: (lut: UserLut) => void;
+}
+export const LutLibrary: React.FC<LutLibraryProps> = ({ luts, grade, setGrade, onImport, onDelete }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const missing = grade && !luts.some(l => l.id === grade.lut);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-between items-center px-1">
+                <div className="text-[10px] font-mono text-gray-500 uppercase tracking-widest">Color Grading (LUT)</div>
+                <button onClick={() => inputRef.current?.click()} className="text-[9px] font-mono uppercase text-cyan-400 hover:text-white">+ Import .cube</button>
+                <input type="file" ref={inputRef} className="hidden" accept={LUT_EXTENSION} onChange={e => { const file = e.target.files?.[0]; if (file) onImport(file); e.target.value = ''; }} />
+            </div>
+            <div className="space-y-1">
+                <button onClick={() => setGrade(undefined)} className={`w-full text-left px-3 py-2 rounded border text-xs transition-colors ${!grade ? 'border-cyan-500 bg-cyan-500/10 text-white' : 'border-white/10 text-gray-400 hover:border-white/30'}`}>None</button>
+                {luts.map(lut => (
+                    <div key={lut.id} className={`flex items-center rounded border transition-colors group ${grade?.lut === lut.id ? 'border-cyan-500 bg-cyan-500/10 text-white' : 'border-white/10 text-gray-400 hover:border-white/30'}`}>
+                        <button onClick={() => setGrade({ lut: lut.id, intensity: grade?.intensity ?? 1 })} className="flex-1 text-left px-3 py-2 text-xs truncate">{lut.name}</button>
+                        <span role="button" onClick={() => onDelete(lut)} className="px-3 text-[9px] font-mono uppercase text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity">Delete</span>
+                    </div>
+                ))}
+                {luts.length === 0 && <div className="text-[10px] text-gray-600 px-1">No LUTs imported yet. 1D and 3D .cube files of any size are supported.</div>}
+                {missing && <div className="text-[10px] text-red-400 px-1">This preset's LUT is not in the library, so it renders ungraded.</div>}
+            </div>
+            {grade && (
+                <div>
+                    <div className="flex justify-between text-[9px] text-gray-400 mb-1"><span>Intensity</span><span>{grade.intensity.toFixed(2)}</span></div>
+                    <input type="range" min="0" max="1" step="0.01" value={grade.intensity} onChange={e => setGrade({ ...grade, intensity: parseFloat(e.target.value) })} className="w-full accent-cyan-500 h-1 bg-white/10 rounded-lg appearance-none cursor-pointer"/>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// --- PERFORMANCE OVERLAY ---
+// Frame-time graph and per-pass GPU times. The renderer only profiles frames
+// while this is open, so closing it removes the overhead.
+const PROFILE_HISTORY = 240; // Frames in the graph
+const GRAPH_MAX_MS = 50; // Top of the graph
+
+interface PerformanceOverlayProps {
+    isOpen: boolean;
+    onClose: () => void;
+    subscribe: (listener: (profile: FrameProfile) => void) => () => void;
+}
+export const PerformanceOverlay: React.FC<PerformanceOverlayProps> = ({ isOpen, onClose, subscribe }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const historyRef = useRef<FrameProfile[]>([]);
+    const [latest, setLatest] = useState<FrameProfile[]>([]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        historyRef.current = [];
+        let lastUpdate = 0;
+        const unsubscribe = subscribe(profile => {
+            const history = historyRef.current;
+            history.push(profile);
+            if (history.length > PROFILE_HISTORY) history.shift();
+            drawGraph();
+            // Numbers refresh a few times a second so they stay readable
+            const now = performance.now();
+            if (now - lastUpdate > 250) { lastUpdate = now; setLatest(history.slice(-30)); }
+        });
+        return unsubscribe;
+    }, [isOpen]);
+
+    const drawGraph = () => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+        const { width, height } = canvas;
+        const y = (ms: number) => height - Math.min(ms, GRAPH_MAX_MS) / GRAPH_MAX_MS * height;
+        const barWidth = width / PROFILE_HISTORY;
+        ctx.clearRect(0, 0, width, height);
+        historyRef.current.forEach((p, i) => {
+            // Frame interval behind, GPU time in front
+            ctx.fillStyle = 'rgba(255,255,255,0.15)';
+            ctx.fillRect(i * barWidth, y(p.frameInterval), barWidth, height - y(p.frameInterval));
+            ctx.fillStyle = p.gpuTime > 1000 / 60 ? '#ef4444' : '#ccff00';
+            ctx.fillRect(i * barWidth, y(p.gpuTime), barWidth, height - y(p.gpuTime));
+        });
+        // 60 FPS budget
+        ctx.fillStyle = 'rgba(255,255,255,0.4)';
+        ctx.fillRect(0, y(1000 / 60), width, 1);
+    };
+
+    if (!isOpen) return null;
+
+    const stat = (pick: (p: FrameProfile) => number) => getTimingStats(latest.map(pick)).avg;
+    const frameInterval = stat(p => p.frameInterval);
+    const gpuTime = stat(p => p.gpuTime);
+    const passes = latest[latest.length - 1]?.passes || [];
+    const rows: [string, string][] = [
+        ['FPS', frameInterval > 0 ? (1000 / frameInterval).toFixed(0) : '-'],
+        ['Frame', `${frameInterval.toFixed(2)} ms`],
+        ['GPU', `${gpuTime.toFixed(2)} ms`],
+        ['CPU', `${stat(p => p.cpuTime).toFixed(2)} ms`],
+        ['Upload', `${stat(p => p.uploadTime).toFixed(3)} ms`],
+    ];
+
+    return (
+        <div className="fixed top-24 right-4 w-64 bg-black/85 border border-white/10 rounded-lg p-3 z-40 font-mono text-[10px] text-gray-300 shadow-2xl backdrop-blur-sm">
+            <div className="flex justify-between items-center mb-2">
+                <span className="uppercase tracking-widest text-acid">Performance</span>
+                <button onClick={onClose} className="text-gray-500 hover:text-white">✕</button>
+            </div>
+            <canvas ref={canvasRef} width={PROFILE_HISTORY} height={60} className="w-full h-[60px] bg-white/5 rounded mb-2" />
+            <div className="grid grid-cols-2 gap-x-3 gap-y-0.5 mb-2">
+                {rows.map(([label, value]) => (
+                    <React.Fragment key={label}>
+                        <span className="text-gray-500 uppercase">{label}</span>
+                        <span className="text-right text-white">{value}</span>
+                    </React.Fragment>
+                ))}
+            </div>
+            {passes.length > 0 && (
+                <div className="space-y-1 border-t border-white/10 pt-2">
+                    {passes.map(pass => (
+                        <div key={pass.label}>
+                            <div className="flex justify-between"><span className="uppercase">{pass.label}</span><span className="text-white">{pass.ms.toFixed(2)} ms</span></div>
+                            <div className="h-[2px] bg-white/10"><div className="h-full bg-acid" style={{ width: `${gpuTime > 0 ? Math.min(100, pass.ms / gpuTime * 100) : 0}%` }}></div></div>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <p className="mt-2 text-gray-500">
+                {latest.length === 0 ? 'Waiting for frames...' : latest[latest.length - 1].source === 'timestamp' ? 'GPU timestamps per pass' : 'No timestamp-query: GPU time is submit to completion'}
+            </p>
+        </div>
+    );
+};
+
+// --- TRANSPORT BAR ---
+// Preview clock behind u.time: play/pause, scrub, single frames, time scale, loop range and seed
+interface TransportBarProps {
+    isOpen: boolean;
+    onClose: () => void;
+    transport: TransportSettings;
+    setTransport: (transport: TransportSettings) => void;
+    getTime: () => number; // Renderer clock
+    onSeek: (time: number) => void;
+    onStep: (frames: number) => void; // The renderer pauses itself first
+}
+export const TransportBar: React.FC<TransportBarProps> = ({ isOpen, onClose, transport, setTransport, getTime, onSeek, onStep }) => {
+    const [time, setTime] = useState(0);
+    const barRef = useRef<HTMLDivElement>(null);
+
+    // Follow the renderer; seeks and steps show up here too
+    useEffect(() => {
+        if (!isOpen) return;
+        let frame = requestAnimationFrame(function poll() {
+            setTime(getTime());
+            frame = requestAnimationFrame(poll);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const span = getScrubSpan(time, transport);
+    const toPercent = (t: number) => `${(t / span) * 100}%`;
+    const looping = hasLoopRange(transport);
+
+    const scrubTo = (clientX: number) => {
+        const rect = barRef.current?.getBoundingClientRect();
+        if (!rect) return;
+        onSeek(Math.max(0, Math.min(span, ((clientX - rect.left) / rect.width) * span)));
+    };
+
+    const step = (frames: number) => {
+        onStep(frames);
+        if (transport.playing) setTransport({ ...transport, playing: false });
+    };
+
+    // Moving one end past the other moves both
+    const setLoopEdge = (key: 'loopStart' | 'loopEnd', value: number) => {
+        const next = { ...transport, loop: true, [key]: Math.max(0, value) };
+        if (key === 'loopStart') next.loopEnd = Math.max(next.loopEnd, next.loopStart);
+        else next.loopStart = Math.min(next.loopStart, next.loopEnd);
+        setTransport(next);
+    };
+
+    return (
+        <div className="flex items-center gap-3 px-4 h-8 bg-black/90 backdrop-blur-md border-t border-white/10 font-mono text-[10px] text-gray-400 pointer-events-auto animate-fade-in-up">
+            <span className="uppercase tracking-widest text-white">Transport</span>
+            <button onClick={() => onSeek(looping ? transport.loopStart : 0)} className="text-white/60 hover:text-white" title="Back to start">⏮</button>
+            <button onClick={() => step(-1)} className="text-white/60 hover:text-white" title="Previous frame">◀|</button>
+            <button onClick={() => setTransport({ ...transport, playing: !transport.playing })} className="w-6 text-acid hover:text-white" title="Play / Pause">{transport.playing ? '❚❚' : '▶'}</button>
+            <button onClick={() => step(1)} className="text-white/60 hover:text-white" title="Next frame">|▶</button>
+            <span className="text-white w-16">{time.toFixed(3)}s</span>
+
+            <div
+                ref={barRef}
+                className="relative flex-1 h-4 bg-white/5 cursor-ew-resize"
+                onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); scrubTo(e.clientX); }}
+                onPointerMove={(e) => { if (e.currentTarget.hasPointerCapture(e.pointerId)) scrubTo(e.clientX); }}
+            >
+                {looping && <div className="absolute top-0 bottom-0 bg-acid/15 border-x border-acid/50 pointer-events-none" style={{ left: toPercent(transport.loopStart), width: toPercent(transport.loopEnd - transport.loopStart) }} />}
+                <div className="absolute top-0 bottom-0 w-[1px] bg-acid pointer-events-none" style={{ left: toPercent(time) }} />
+                <span className="absolute right-1 top-0 text-[9px] text-white/30 pointer-events-none">{span}s</span>
+            </div>
+
+            <select value={transport.timeScale} onChange={e => setTransport({ ...transport, timeScale: Number(e.target.value) })} className="bg-black border border-white/20 px-1 py-0.5 text-white outline-none focus:border-acid" title="Time scale">
+                {TIME_SCALES.map(scale => <option key={scale} value={scale}>{scale}x</option>)}
+            </select>
+            <label className="flex items-center gap-1 cursor-pointer">
+                <input type="checkbox" checked={transport.loop} onChange={e => setTransport({ ...transport, loop: e.target.checked })} className="accent-acid" />
+                <span className="uppercase">Loop</span>
+            </label>
+            <button onClick={() => setLoopEdge('loopStart', time)} className="hover:text-acid" title="Loop in at the current time">[</button>
+            <input type="number" min={0} step={0.1} value={Number(transport.loopStart.toFixed(3))} onChange={e => setLoopEdge('loopStart', Number(e.target.value))} className="w-12 bg-transparent border-b border-white/20 focus:border-acid outline-none text-white" title="Loop in (s)" />
+            <input type="number" min={0} step={0.1} value={Number(transport.loopEnd.toFixed(3))} onChange={e => setLoopEdge('loopEnd', Number(e.target.value))} className="w-12 bg-transparent border-b border-white/20 focus:border-acid outline-none text-white" title="Loop out (s)" />
+            <button onClick={() => setLoopEdge('loopEnd', time)} className="hover:text-acid" title="Loop out at the current time">]</button>
+            <label className="flex items-center gap-1">
+                <span className="uppercase">Seed</span>
+                <input type="number" min={0} max={MAX_SEED} step={1} value={transport.seed} onChange={e => setTransport({ ...transport, seed: Math.max(0, Math.min(MAX_SEED, Math.round(Number(e.target.value)))) })} className="w-14 bg-transparent border-b border-white/20 focus:border-acid outline-none text-white" />
+            </label>
+            <button onClick={() => setTransport({ ...transport, seed: createSeed() })} className="hover:text-acid" title="New random seed">⟳</button>
+            <button onClick={onClose} className="text-gray-500 hover:text-white">✕</button>
+        </div>
+    );
+};
+
+// --- TIMELINE PANEL ---
+interface TimelinePanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    timeline: Timeline;
+    setTimeline: (timeline: Timeline) => void;
+    playback: TimelinePlayback;
+    setPlayback: (playback: TimelinePlayback) => void;
+    params: ShaderParam[];
+    getPlayhead: () => number; // Renderer playhead while playing
+    readValue: (target: string) => number[] | null; // Live value to key
+}
+export const TimelinePanel: React.FC<TimelinePanelProps> = ({ isOpen, onClose, timeline, setTimeline, playback, setPlayback, params, getPlayhead, readValue }) => {
+    const [playhead, setPlayhead] = useState(playback.time);
+    const [selected, setSelected] = useState<{ target: string, index: number } | null>(null);
+    const laneRef = useRef<HTMLDivElement>(null);
+
+    // Follow the renderer while playing
+    useEffect(() => {
+        if (!isOpen || !playback.playing) { setPlayhead(playback.time); return; }
+        let frame = requestAnimationFrame(function poll() {
+            setPlayhead(getPlayhead());
+            frame = requestAnimationFrame(poll);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [isOpen, playback]);
+
+    if (!isOpen) return null;
+
+    const duration = Math.max(0.1, timeline.duration);
+    const toPercent = (t: number) => `${(t / duration) * 100}%`;
+    const targets = getTimelineTargets(params);
+    const selectedKey = selected ? getTrack(timeline, selected.target)?.keyframes[selected.index] : undefined;
+
+    const scrubTo = (clientX: number) => {
+        const rect = laneRef.current?.getBoundingClientRect();
+        if (!rect) return;
+        const time = Math.max(0, Math.min(duration, ((clientX - rect.left) / rect.width) * duration));
+        setPlayback({ enabled: true, playing: false, time });
+    };
+
+    const togglePlay = () => {
+        const time = playback.playing ? getPlayhead() : playhead;
+        setPlayback({ enabled: true, playing: !playback.playing, time });
+    };
+
+    const addKey = (target: string) => {
+        const value = readValue(target);
+        if (!value) return;
+        const time = playback.playing ? getPlayhead() : playhead;
+        const next = setKeyframe(timeline, target, time, value);
+        setTimeline(next);
+        const index = getTrack(next, target)!.keyframes.findIndex(k => Math.abs(k.time - time) < 1e-3);
+        setSelected({ target, index });
+    };
+
+    return (
+        <div className="h-56 bg-black/90 backdrop-blur-md border-t border-white/10 flex flex-col font-mono text-[10px] text-gray-400 pointer-events-auto animate-fade-in-up">
+            {/* Transport */}
+            <div className="flex items-center gap-4 px-4 h-8 border-b border-white/10 shrink-0">
+                <span className="uppercase tracking-widest text-white">Timeline</span>
+                <button onClick={togglePlay} className="w-6 text-acid hover:text-white" title="Play / Pause">{playback.playing ? '❚❚' : '▶'}</button>
+                <span className="text-white w-24">{playhead.toFixed(2)}s / {duration.toFixed(1)}s</span>
+                <label className="flex items-center gap-1 cursor-pointer">
+                    <input type="checkbox" checked={playback.enabled} onChange={e => setPlayback({ ...playback, enabled: e.target.checked, playing: e.target.checked && playback.playing })} className="accent-acid" />
+                    <span className="uppercase">Preview</span>
+                </label>
+                <label className="flex items-center gap-1 cursor-pointer">
+                    <input type="checkbox" checked={timeline.loop} onChange={e => setTimeline({ ...timeline, loop: e.target.checked })} className="accent-acid" />
+                    <span className="uppercase">Loop</span>
+                </label>
+                <label className="flex items-center gap-1">
+                    <span className="uppercase">Length</span>
+                    <input type="number" min={0.5} step={0.5} value={timeline.duration} onChange={e => setTimeline({ ...timeline, duration: Math.max(0.5, Number(e.target.value)) })} className="w-12 bg-transparent border-b border-white/20 focus:border-acid outline-none text-white" />
+                </label>
+
+                {selected && selectedKey && (
+                    <div className="flex items-center gap-3 ml-auto text-white">
+                        <span className="text-acid">◆</span>
+                        <input type="number" min={0} max={duration} step={0.05} value={Number(selectedKey.time.toFixed(3))} onChange={e => setTimeline(updateKeyframe(timeline, selected.target, selected.index, { time: Math.max(0, Math.min(duration, Number(e.target.value))) }))} className="w-14 bg-transparent border-b border-white/20 focus:border-acid outline-none" />
+                        <select value={selectedKey.easing} onChange={e => setTimeline(updateKeyframe(timeline, selected.target, selected.index, { easing: e.target.value as EasingType }))} className="bg-black border border-white/20 px-1 py-0.5 outline-none focus:border-acid">
+                            {(Object.keys(EASINGS) as EasingType[]).map(easing => <option key={easing} value={easing}>{easing}</option>)}
+                        </select>
+                        <button onClick={() => { setTimeline(removeKeyframe(timeline, selected.target, selected.index)); setSelected(null); }} className="text-red-400 hover:text-white uppercase">Delete</button>
+                    </div>
+                )}
+                <button onClick={onClose} className={`text-gray-500 hover:text-white ${selected && selectedKey ? '' : 'ml-auto'}`}>✕</button>
+            </div>
+
+            {/* Tracks */}
+            <div className="flex-1 overflow-y-auto">
+                <div className="flex sticky top-0 z-10 bg-black">
+                    <div className="w-44 shrink-0 border-r border-white/10"></div>
+                    <div
+                        ref={laneRef}
+                        className="relative flex-1 h-5 border-b border-white/10 cursor-ew-resize"
+                        onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); scrubTo(e.clientX); }}
+                        onPointerMove={(e) => { if (e.currentTarget.hasPointerCapture(e.pointerId)) scrubTo(e.clientX); }}
+                    >
+                        {Array.from({ length: Math.floor(duration) + 1 }, (_, s) => (
+                            <div key={s} className="absolute top-0 bottom-0 border-l border-white/20 pl-1 text-[9px] text-white/40 pointer-events-none" style={{ left: toPercent(s) }}>{s}</div>
+                        ))}
+                        <div className="absolute top-0 bottom-0 w-[1px] bg-acid pointer-events-none" style={{ left: toPercent(playhead) }} />
+                    </div>
+                </div>
+
+                {targets.map(target => {
+                    const track = getTrack(timeline, target.id);
+                    return (
+                        <div key={target.id} className="flex h-6 border-b border-white/5 hover:bg-white/5 group">
+                            <div className="w-44 shrink-0 flex items-center justify-between px-3 border-r border-white/10">
+                                <span className="truncate"><span className="text-white/30">{target.group} / </span>{target.label}</span>
+                                <button onClick={() => addKey(target.id)} className="text-white/30 hover:text-acid" title="Key current value at playhead">◆</button>
+                            </div>
+                            <div className="relative flex-1">
+                                <div className="absolute top-0 bottom-0 w-[1px] bg-acid/30 pointer-events-none" style={{ left: toPercent(playhead) }} />
+                                {track?.keyframes.map((key, index) => {
+                                    const isSelected = selected?.target === target.id && selected.index === index;
+                                    return (
+                                        <button
+                                            key={index}
+                                            onClick={() => { setSelected({ target: target.id, index }); setPlayback({ enabled: true, playing: false, time: key.time }); }}
+                                            className={`absolute top-1/2 w-2.5 h-2.5 rotate-45 ${isSelected ? 'bg-acid shadow-[0_0_5px_rgba(204,255,0,0.5)]' : 'bg-white/70 hover:bg-white'}`}
+                                            style={{ left: toPercent(key.time), transform: 'translate(-50%, -50%) rotate(45deg)' }}
+                                            title={`${key.time.toFixed(2)}s · ${key.easing}`}
+                                        />
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
         </div>
     );
 };
@@ -559,27 +1742,57 @@ interface ShaderEditorProps {
     isOpen: boolean;
     onClose: () => void;
     code: string;
-    onCodeChange: (newCode: string) => void;
-    error: ShaderError | null;
+    passes: BufferPass[];
+    compute?: ComputeSetup;
+    activeTab: PassId;
+    onSelectTab: (tab: PassId) => void;
+    onAddPass: () => void;
+    onRemovePass: (tab: PassId) => void;
+    onCodeChange: (newCode: string, tab: PassId) => void;
+    errors: Partial<Record<PassId, ShaderError>>; // By pass
 }
-export const ShaderEditor: React.FC<ShaderEditorProps> = ({ isOpen, onClose, code, onCodeChange, error }) => {
+export const ShaderEditor: React.FC<ShaderEditorProps> = ({ isOpen, onClose, code, passes, compute, activeTab, onSelectTab, onAddPass, onRemovePass, onCodeChange, errors }) => {
+    const tabs: { id: PassId, label: string, code: string }[] = [
+        ...(compute ? [{ id: 'compute' as PassId, label: 'Compute', code: compute.code }] : []),
+        ...passes.map(p => ({ id: p.id as PassId, label: p.label, code: p.code })),
+        { id: 'image', label: 'Image', code },
+    ];
+    const current = tabs.find(t => t.id === activeTab) || tabs[tabs.length - 1];
+    const error = errors[current.id];
+
     return (
         <div className={`fixed top-10 left-0 bottom-0 w-[600px] bg-[#1e1e1e] border-r border-white/10 z-30 transition-transform duration-500 ease-[cubic-bezier(0.16,1,0.3,1)] shadow-2xl flex flex-col ${isOpen ? 'translate-x-0' : '-translate-x-full'}`}>
             <div className="flex justify-between items-center px-4 py-2 bg-[#252526] border-b border-black">
-                <span className="text-xs font-mono text-gray-400 uppercase">main.wgsl</span>
+                <span className="text-xs font-mono text-gray-400 uppercase">{current.id === 'image' ? 'main' : current.id}.wgsl</span>
                 <div className="flex items-center gap-4">
-                    {error && <span className="text-xs text-red-400 flex items-center gap-1">● Error</span>}
+                    {Object.keys(errors).length > 0 && <span className="text-xs text-red-400 flex items-center gap-1">● Error</span>}
                     <button onClick={onClose} className="text-gray-500 hover:text-white">
                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
                     </button>
                 </div>
             </div>
+            {/* Pass Tabs (render order, left to right) */}
+            <div className="flex items-stretch bg-[#252526] border-b border-black text-[10px] font-mono uppercase">
+                {tabs.map(tab => (
+                    <div key={tab.id} className={`flex items-center gap-2 px-3 py-1.5 border-r border-black cursor-pointer ${tab.id === current.id ? 'bg-[#1e1e1e] text-white' : 'text-gray-500 hover:text-gray-300'}`} onClick={() => onSelectTab(tab.id)}>
+                        <span>{tab.label}</span>
+                        {errors[tab.id] && <span className="text-red-400">●</span>}
+                        {tab.id !== 'image' && tab.id !== 'compute' && (
+                            <button onClick={(e) => { e.stopPropagation(); onRemovePass(tab.id); }} className="text-gray-600 hover:text-white">✕</button>
+                        )}
+                    </div>
+                ))}
+                {passes.length < 3 && (
+                    <button onClick={onAddPass} className="px-3 text-gray-500 hover:text-acid" title="Add Buffer Pass">+ Buffer</button>
+                )}
+            </div>
             <div className="flex-1 relative">
                 <Editor 
                     height="100%"
                     defaultLanguage="wgsl" 
-                    value={code} 
-                    onChange={(val) => onCodeChange(val || '')}
+                    path={`${current.id}.wgsl`}
+                    value={current.code} 
+                    onChange={(val) => onCodeChange(val || '', current.id)}
                     theme="vs-dark"
                     options={{
                         minimap: { enabled: false },
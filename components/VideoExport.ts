@@ -0,0 +1,168 @@
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from 'mp4-muxer';
+import { Muxer as WebMMuxer, ArrayBufferTarget as WebMTarget } from 'webm-muxer';
+import { VideoConfig } from '../types';
+
+// --- Offline Video Export ---
+// Frames are encoded with WebCodecs and muxed in memory, so the output has
+// exactly one frame per `1 / fps` regardless of how long each frame took to render.
+// An audio track, when given, is encoded up front and muxed alongside.
+
+export const EXPORT_WIDTH = 1920;
+export const EXPORT_HEIGHT = 1080;
+
+const KEYFRAME_INTERVAL = 2; // Seconds
+const MAX_ENCODE_QUEUE = 4; // Frames waiting in the encoder before we stall the renderer
+const AUDIO_BITRATE = 192_000;
+const AUDIO_CHUNK_FRAMES = 4800; // Samples per AudioData, 0.1s at 48kHz
+
+interface CodecChoice {
+  codec: string; // WebCodecs codec string
+  muxerCodec: string; // Container codec id
+}
+
+// Preferred first; the first one the browser can encode wins
+const CODECS: Record<VideoConfig['format'], CodecChoice[]> = {
+  mp4: [
+    { codec: 'avc1.640033', muxerCodec: 'avc' }, // H.264 High, level 5.1
+    { codec: 'avc1.4d0033', muxerCodec: 'avc' }, // H.264 Main
+    { codec: 'hvc1.1.6.L150.B0', muxerCodec: 'hevc' },
+  ],
+  webm: [
+    { codec: 'vp09.00.41.08', muxerCodec: 'V_VP9' },
+    { codec: 'vp8', muxerCodec: 'V_VP8' },
+  ],
+};
+
+const AUDIO_CODECS: Record<VideoConfig['format'], CodecChoice> = {
+  mp4: { codec: 'mp4a.40.2', muxerCodec: 'aac' }, // AAC-LC
+  webm: { codec: 'opus', muxerCodec: 'A_OPUS' },
+};
+
+export interface VideoExporter {
+  frameCount: number;
+  encodeFrame: (source: CanvasImageSource, index: number) => Promise<void>;
+  finish: () => Promise<Blob>;
+  cancel: () => void;
+}
+
+export const getExportFrameCount = (config: VideoConfig) => Math.max(1, Math.round(config.duration * config.fps));
+
+// Microseconds, rounded per frame so timestamps never drift
+const frameTimestamp = (index: number, fps: number) => Math.round(index * 1e6 / fps);
+
+const pickCodec = async (config: VideoConfig, width: number, height: number): Promise<{ choice: CodecChoice, encoderConfig: VideoEncoderConfig }> => {
+  for (const choice of CODECS[config.format]) {
+    const encoderConfig: VideoEncoderConfig = {
+      codec: choice.codec,
+      width,
+      height,
+      bitrate: config.bitrate * 1_000_000,
+      framerate: config.fps,
+      latencyMode: 'quality',
+    };
+    const support = await VideoEncoder.isConfigSupported(encoderConfig).catch(() => null);
+    if (support?.supported) return { choice, encoderConfig };
+  }
+  throw new Error(`This browser cannot encode ${config.format.toUpperCase()} video at ${width}x${height}.`);
+};
+
+const pickAudioCodec = async (config: VideoConfig, audio: AudioBuffer): Promise<AudioEncoderConfig> => {
+  if (typeof AudioEncoder === 'undefined') throw new Error('WebCodecs AudioEncoder is not available in this browser, so the audio cannot be exported.');
+  const encoderConfig: AudioEncoderConfig = {
+    codec: AUDIO_CODECS[config.format].codec,
+    sampleRate: audio.sampleRate,
+    numberOfChannels: audio.numberOfChannels,
+    bitrate: AUDIO_BITRATE,
+  };
+  const support = await AudioEncoder.isConfigSupported(encoderConfig).catch(() => null);
+  if (!support?.supported) throw new Error(`This browser cannot encode ${config.format === 'mp4' ? 'AAC' : 'Opus'} audio for ${config.format.toUpperCase()} files.`);
+  return encoderConfig;
+};
+
+// Encodes the whole track; chunks go straight to `output`
+const encodeAudioTrack = async (audio: AudioBuffer, encoderConfig: AudioEncoderConfig, output: EncodedAudioChunkOutputCallback) => {
+  let encodeError: Error | null = null;
+  const encoder = new AudioEncoder({ output, error: (e) => { encodeError = e; } });
+  encoder.configure(encoderConfig);
+  const channels = audio.numberOfChannels;
+  for (let offset = 0; offset < audio.length; offset += AUDIO_CHUNK_FRAMES) {
+    const frames = Math.min(AUDIO_CHUNK_FRAMES, audio.length - offset);
+    const planar = new Float32Array(frames * channels);
+    for (let c = 0; c < channels; c++) planar.set(audio.getChannelData(c).subarray(offset, offset + frames), c * frames);
+    const data = new AudioData({ format: 'f32-planar', sampleRate: audio.sampleRate, numberOfFrames: frames, numberOfChannels: channels, timestamp: Math.round(offset * 1e6 / audio.sampleRate), data: planar });
+    encoder.encode(data);
+    data.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (encodeError) throw encodeError;
+};
+
+// `audio` is the finished track (see renderAudioTrack), already as long as the video
+export const createVideoExporter = async (config: VideoConfig, width: number, height: number, audio?: AudioBuffer | null): Promise<VideoExporter> => {
+  if (typeof VideoEncoder === 'undefined') throw new Error('WebCodecs VideoEncoder is not available in this browser.');
+
+  const { choice, encoderConfig } = await pickCodec(config, width, height);
+  const audioConfig = audio ? await pickAudioCodec(config, audio) : null;
+  const frameRate = config.fps;
+  const audioTrack = audioConfig && { numberOfChannels: audioConfig.numberOfChannels, sampleRate: audioConfig.sampleRate };
+
+  const muxer = config.format === 'mp4'
+    ? new Mp4Muxer({
+        target: new Mp4Target(),
+        video: { codec: choice.muxerCodec as 'avc' | 'hevc', width, height, frameRate },
+        audio: audioTrack ? { codec: 'aac', ...audioTrack } : undefined,
+        fastStart: 'in-memory',
+        firstTimestampBehavior: 'offset',
+      })
+    : new WebMMuxer({
+        target: new WebMTarget(),
+        video: { codec: choice.muxerCodec, width, height, frameRate },
+        audio: audioTrack ? { codec: AUDIO_CODECS.webm.muxerCodec, ...audioTrack } : undefined,
+        firstTimestampBehavior: 'offset',
+      });
+
+  if (audio && audioConfig) await encodeAudioTrack(audio, audioConfig, (chunk, meta) => muxer.addAudioChunk(chunk, meta));
+
+  let encodeError: Error | null = null;
+  let wakeQueue: (() => void) | null = null; // An error ends the wait for a dequeue that never comes
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (e) => { encodeError = e; wakeQueue?.(); },
+  });
+  encoder.configure(encoderConfig);
+
+  const waitForQueue = () => new Promise<void>(resolve => {
+    wakeQueue = resolve;
+    encoder.addEventListener('dequeue', () => resolve(), { once: true });
+  });
+
+  return {
+    frameCount: getExportFrameCount(config),
+    encodeFrame: async (source, index) => {
+      if (encodeError) throw encodeError;
+      const frame = new VideoFrame(source, {
+        timestamp: frameTimestamp(index, frameRate),
+        duration: frameTimestamp(index + 1, frameRate) - frameTimestamp(index, frameRate),
+      });
+      encoder.encode(frame, { keyFrame: index % Math.round(frameRate * KEYFRAME_INTERVAL) === 0 });
+      frame.close();
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        if (encodeError) throw encodeError;
+        if (encoder.state !== 'configured') throw new Error('The video encoder closed before the export finished.');
+        await waitForQueue();
+      }
+    },
+    finish: async () => {
+      await encoder.flush();
+      if (encodeError) throw encodeError;
+      encoder.close();
+      muxer.finalize();
+      return new Blob([muxer.target.buffer], { type: config.format === 'mp4' ? 'video/mp4' : 'video/webm' });
+    },
+    // Closes the encoder; nothing is muxed, so the partial output is dropped
+    cancel: () => {
+      if (encoder.state !== 'closed') encoder.close();
+    },
+  };
+};
@@ -0,0 +1,81 @@
+// --- Video Sources ---
+// Video files and the camera as channel sources. Each is a muted, inline
+// <video> element the runtime copies into its channel texture every frame;
+// offline exports pause them and seek to the render time instead.
+
+export const VIDEO_TYPES = ['video/mp4', 'video/webm'];
+export const VIDEO_ACCEPT = VIDEO_TYPES.join(',');
+const SEEK_TIMEOUT_MS = 2000; // A seek that never lands renders the current frame instead of hanging the export
+
+// What a channel plays, as kept by the app and shown in the Assets tab
+export type ChannelVideo = { kind: 'file', file: File } | { kind: 'camera' };
+
+export const isVideoFile = (file: File) => file.type.startsWith('video/');
+
+// A frame can be uploaded once the element has data and a size
+export const isVideoReady = (video: HTMLVideoElement) => video.readyState >= 2 && video.videoWidth > 0;
+
+const createVideoElement = () => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.loop = true;
+  video.playsInline = true;
+  return video;
+};
+
+const waitForData = (video: HTMLVideoElement) => new Promise<void>((resolve, reject) => {
+  if (isVideoReady(video)) return resolve();
+  video.addEventListener('loadeddata', () => resolve(), { once: true });
+  video.addEventListener('error', () => reject(new Error('The video could not be decoded.')), { once: true });
+});
+
+// Looping and playing; rejects when the browser cannot decode the file
+export const openVideoFile = async (file: File): Promise<HTMLVideoElement> => {
+  const video = createVideoElement();
+  video.src = URL.createObjectURL(file);
+  try {
+    await waitForData(video);
+  } catch (e) {
+    releaseVideo(video);
+    throw e;
+  }
+  await video.play().catch(() => {});
+  return video;
+};
+
+// Rejects when the camera is missing or permission is denied
+export const openCamera = async (): Promise<HTMLVideoElement> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: false });
+  const video = createVideoElement();
+  video.srcObject = stream;
+  try {
+    await waitForData(video);
+  } catch (e) {
+    releaseVideo(video);
+    throw e;
+  }
+  await video.play().catch(() => {});
+  return video;
+};
+
+export const isCamera = (video: HTMLVideoElement) => video.srcObject instanceof MediaStream;
+
+// Stops camera tracks and frees the file's object URL
+export const releaseVideo = (video: HTMLVideoElement) => {
+  video.pause();
+  if (video.srcObject instanceof MediaStream) video.srcObject.getTracks().forEach(track => track.stop());
+  video.srcObject = null;
+  if (video.src.startsWith('blob:')) URL.revokeObjectURL(video.src);
+  video.removeAttribute('src');
+  video.load();
+};
+
+// Seeks to `time` wrapped into the clip; cameras cannot seek and resolve at once
+export const seekVideo = (video: HTMLVideoElement, time: number) => new Promise<void>(resolve => {
+  if (!Number.isFinite(video.duration) || video.duration <= 0) return resolve();
+  const target = time % video.duration;
+  if (Math.abs(video.currentTime - target) < 0.0005 && !video.seeking) return resolve();
+  const timer = setTimeout(resolve, SEEK_TIMEOUT_MS);
+  video.addEventListener('seeked', () => { clearTimeout(timer); resolve(); }, { once: true });
+  video.currentTime = target;
+});
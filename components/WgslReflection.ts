@@ -0,0 +1,163 @@
+// --- WGSL Struct Reflection ---
+// Reads struct declarations out of WGSL source and lays them out with the
+// host-shareable alignment rules of the uniform address space, so the engine
+// can write uniforms by name instead of by hard-coded float index.
+
+import { ScalarKind, UniformField } from '../types';
+
+export interface ReflectedField extends UniformField {
+  size: number;
+  align: number;
+}
+
+export interface ReflectedStruct {
+  name: string;
+  fields: ReflectedField[];
+  size: number;
+  align: number;
+}
+
+interface TypeInfo {
+  size: number;
+  align: number;
+  scalar?: ScalarKind;
+  components: number;
+}
+
+const roundUp = (k: number, n: number) => Math.ceil(n / k) * k;
+
+const SCALARS: Record<ScalarKind, number> = { f32: 4, i32: 4, u32: 4, f16: 2 };
+const SUFFIX_SCALARS: Record<string, ScalarKind> = { f: 'f32', i: 'i32', u: 'u32', h: 'f16' };
+
+const stripComments = (code: string) => code.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+
+// Splits on commas that are not nested inside <...> or (...)
+const splitTopLevel = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of text) {
+    if (ch === '<' || ch === '(') depth++;
+    if (ch === '>' || ch === ')') depth--;
+    if (ch === ',' && depth === 0) { parts.push(current); current = ''; continue; }
+    current += ch;
+  }
+  parts.push(current);
+  return parts.map(p => p.trim()).filter(Boolean);
+};
+
+// vec3f -> vec3<f32>, mat4x4f -> mat4x4<f32>
+const normaliseType = (type: string): string => {
+  const t = type.replace(/\s+/g, '');
+  const vecAlias = t.match(/^vec([234])([fiuh])$/);
+  if (vecAlias) return `vec${vecAlias[1]}<${SUFFIX_SCALARS[vecAlias[2]]}>`;
+  const matAlias = t.match(/^mat([234])x([234])([fh])$/);
+  if (matAlias) return `mat${matAlias[1]}x${matAlias[2]}<${SUFFIX_SCALARS[matAlias[3]]}>`;
+  return t;
+};
+
+const findStructBodies = (code: string): Record<string, string> => {
+  const bodies: Record<string, string> = {};
+  const re = /struct\s+(\w+)\s*\{/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(code))) {
+    let depth = 1;
+    let i = re.lastIndex;
+    while (i < code.length && depth > 0) {
+      if (code[i] === '{') depth++;
+      if (code[i] === '}') depth--;
+      i++;
+    }
+    bodies[match[1]] = code.slice(re.lastIndex, i - 1);
+  }
+  return bodies;
+};
+
+const resolveType = (type: string, structs: Record<string, string>, seen: string[]): TypeInfo => {
+  if (type in SCALARS) {
+    const scalar = type as ScalarKind;
+    return { size: SCALARS[scalar], align: SCALARS[scalar], scalar, components: 1 };
+  }
+  if (type === 'bool') throw new Error(`'bool' is not host-shareable; use u32 or f32 in the Uniforms struct.`);
+
+  const vec = type.match(/^vec([234])<(\w+)>$/);
+  if (vec) {
+    const n = Number(vec[1]);
+    const scalar = vec[2] as ScalarKind;
+    if (!(scalar in SCALARS)) throw new Error(`Unsupported vector component type '${vec[2]}'.`);
+    const s = SCALARS[scalar];
+    // vec3 aligns like vec4 but only occupies three components
+    return { size: n * s, align: (n === 2 ? 2 : 4) * s, scalar, components: n };
+  }
+
+  const mat = type.match(/^mat([234])x([234])<(\w+)>$/);
+  if (mat) {
+    const columns = Number(mat[1]);
+    const column = resolveType(`vec${mat[2]}<${mat[3]}>`, structs, seen);
+    return { size: columns * roundUp(column.align, column.size), align: column.align, components: 0 };
+  }
+
+  const arr = type.match(/^array<(.+),(\d+)u?>$/);
+  if (arr) {
+    const element = resolveType(normaliseType(arr[1]), structs, seen);
+    const stride = roundUp(element.align, element.size);
+    if (stride % 16 !== 0) throw new Error(`'${type}' has a ${stride}-byte stride; uniform arrays need a multiple of 16 (use vec4 elements).`);
+    return { size: stride * Number(arr[2]), align: roundUp(16, element.align), components: 0 };
+  }
+  if (type.startsWith('array<')) throw new Error(`Runtime-sized '${type}' is not allowed in a uniform struct.`);
+
+  if (structs[type] !== undefined) {
+    if (seen.includes(type)) throw new Error(`Struct '${type}' contains itself.`);
+    const nested = layoutStruct(type, structs, [...seen, type]);
+    return { size: nested.size, align: roundUp(16, nested.align), components: 0 };
+  }
+
+  throw new Error(`Unknown type '${type}'.`);
+};
+
+const layoutStruct = (name: string, structs: Record<string, string>, seen: string[]): ReflectedStruct => {
+  const fields: ReflectedField[] = [];
+  let offset = 0;
+  let structAlign = 1;
+
+  splitTopLevel(structs[name]).forEach(member => {
+    const match = member.match(/^((?:@\w+\s*(?:\([^)]*\))?\s*)*)(\w+)\s*:\s*(.+)$/);
+    if (!match) throw new Error(`Cannot parse member '${member}' of struct '${name}'.`);
+    const [, attributes, fieldName, rawType] = match;
+    const type = normaliseType(rawType);
+    const info = resolveType(type, structs, seen);
+
+    const alignAttr = attributes.match(/@align\s*\(\s*(\d+)\s*\)/);
+    const sizeAttr = attributes.match(/@size\s*\(\s*(\d+)\s*\)/);
+    const align = alignAttr ? Number(alignAttr[1]) : info.align;
+    const size = sizeAttr ? Number(sizeAttr[1]) : info.size;
+
+    offset = roundUp(align, offset);
+    fields.push({ name: fieldName, type, offset, size, align, scalar: info.scalar, components: info.components });
+    offset += size;
+    structAlign = Math.max(structAlign, align);
+  });
+
+  return { name, fields, size: roundUp(structAlign, offset), align: structAlign };
+};
+
+// Throws with a readable message when the struct is missing or malformed
+export const reflectStruct = (code: string, name: string = 'Uniforms'): ReflectedStruct => {
+  const structs = findStructBodies(stripComments(code));
+  if (structs[name] === undefined) throw new Error(`No 'struct ${name}' found in shader.`);
+  return layoutStruct(name, structs, [name]);
+};
+
+// Null when both structs place every field identically
+export const describeStructMismatch = (expected: ReflectedStruct, actual: ReflectedStruct): string | null => {
+  const count = Math.max(expected.fields.length, actual.fields.length);
+  for (let i = 0; i < count; i++) {
+    const a = expected.fields[i];
+    const b = actual.fields[i];
+    if (!a || !b || a.name !== b.name || a.type !== b.type || a.offset !== b.offset) {
+      const describe = (f?: ReflectedField) => f ? `${f.name}: ${f.type} @ ${f.offset}` : 'nothing';
+      return `expected ${describe(a)}, found ${describe(b)}`;
+    }
+  }
+  return null;
+};
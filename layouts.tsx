@@ -22,7 +22,8 @@ export const LayoutOverlay: React.FC<LayoutOverlayProps> = ({ mode, scrollRef })
         return () => el.removeEventListener('scroll', handleScroll);
     }, [mode, scrollRef]);
 
-    if (mode === 'clean') return <div ref={scrollRef} className="absolute inset-0 overflow-hidden pointer-events-none" />;
+    // data-hero-* attributes let the exported page (HeroExport.ts) wire scrolling without React
+    if (mode === 'clean') return <div ref={scrollRef} data-hero-scroll className="absolute inset-0 overflow-hidden pointer-events-none" />;
 
     // Force pointer events for scroll mode so user can drag
     const containerPointerEvents = mode === 'scroll' ? 'pointer-events-auto' : 'pointer-events-none';
@@ -30,11 +31,12 @@ export const LayoutOverlay: React.FC<LayoutOverlayProps> = ({ mode, scrollRef })
     return (
         <div 
             ref={scrollRef} 
+            data-hero-scroll
             className={`absolute inset-0 overflow-y-auto custom-scrollbar z-30 ${containerPointerEvents}`}
         >
             {/* Scroll Progress Bar */}
             {mode === 'scroll' && (
-                <div className="fixed top-10 left-0 h-1 bg-acid z-50 transition-all duration-75" style={{ width: `${scrollProgress * 100}%` }}></div>
+                <div data-hero-progress className="fixed top-10 left-0 h-1 bg-acid z-50 transition-all duration-75" style={{ width: `${scrollProgress * 100}%` }}></div>
             )}
 
             {/* --- CENTER HERO --- */}
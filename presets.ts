@@ -1,32 +1,41 @@
 
 
-import { Preset } from "./types";
+import { Preset, BufferPass, BufferPassId, PostSettings } from "./types";
+import { DEFAULT_POST } from "./components/PostStack";
 
 const COMMON_HEADER = `
 struct Uniforms {
   resolution: vec2f,
   time: f32,
-  dt: f32,
-  cameraPos: vec4f,
+  dt: f32, // Seconds since the previous frame, scaled with the transport
+  cameraPos: vec4f, // xyz = position, w = vertical FOV (radians)
+  cameraTarget: vec4f, // xyz = look-at point, w = roll (radians)
+  cameraUp: vec4f, // xyz = up vector, roll applied
   mouse: vec4f, // xy = coords, z = click, w = scroll
+  tile: vec4f, // Tiled stills: xy = uv offset, zw = uv scale; zero is the whole frame
+  frame: f32, // Frames rendered so far, 0 on the first
+  seed: f32, // Stable random seed, the same on every frame
 `;
 
-const COMMON_FOOTER = `
-  lightAz: f32,
-  lightEl: f32,
-  isRendering: f32, // 0=Preview, 1=HQ, 2=Ultra
-  aberrationStrength: f32,
-  audio: vec4f,
-  scrollY: f32, 
-  scrollType: f32,
-  scrollParam1: f32,
-  scrollParam2: f32,
-  textureScale: vec2f,
-  textureOffset: vec2f,
-};
+// Shared by every pass module. Texture channels 1-3 are bound even when the
+// preset does not declare them. Buffer passes sample each other through @group(1):
+// buffers that already ran this frame return the current frame, the rest
+// (including the pass itself) return the previous frame.
+const SHADER_BINDINGS = `
 @group(0) @binding(0) var<uniform> u: Uniforms;
 @group(0) @binding(1) var channel0: texture_2d<f32>;
 @group(0) @binding(2) var sampler0: sampler;
+@group(0) @binding(3) var channel1: texture_2d<f32>;
+@group(0) @binding(4) var sampler1: sampler;
+@group(0) @binding(5) var channel2: texture_2d<f32>;
+@group(0) @binding(6) var sampler2: sampler;
+@group(0) @binding(7) var channel3: texture_2d<f32>;
+@group(0) @binding(8) var sampler3: sampler;
+@group(0) @binding(9) var audioTexture: texture_2d<f32>;
+@group(1) @binding(0) var bufferA: texture_2d<f32>;
+@group(1) @binding(1) var bufferB: texture_2d<f32>;
+@group(1) @binding(2) var bufferC: texture_2d<f32>;
+@group(1) @binding(3) var bufferSampler: sampler;
 
 struct VertexOutput {
   @builtin(position) position: vec4f,
@@ -41,11 +50,49 @@ fn vs_main(@builtin(vertex_index) vertexIndex: u32) -> VertexOutput {
   );
   var output: VertexOutput;
   output.position = vec4f(pos[vertexIndex], 0.0, 1.0);
-  output.uv = pos[vertexIndex] * 0.5 + 0.5;
+  // A tile covers only its slice of the frame's uvs
+  let tileScale = select(u.tile.zw, vec2f(1.0), u.tile.z == 0.0);
+  output.uv = (pos[vertexIndex] * 0.5 + 0.5) * tileScale + u.tile.xy;
   return output;
 }
+
+// Render targets are stored top-down while uv is bottom-up
+fn bufferUV(uv: vec2f) -> vec2f {
+  return vec2f(uv.x, 1.0 - uv.y);
+}
+
+// Audio texture rows at x (0-1): spectrum from low to high frequency (0-1),
+// waveform from oldest to newest sample (-1 to 1)
+fn audioSpectrum(x: f32) -> f32 {
+  let width = f32(textureDimensions(audioTexture).x);
+  return textureLoad(audioTexture, vec2i(i32(clamp(x, 0.0, 1.0) * (width - 1.0)), 0), 0).r;
+}
+fn audioWaveform(x: f32) -> f32 {
+  let width = f32(textureDimensions(audioTexture).x);
+  return textureLoad(audioTexture, vec2i(i32(clamp(x, 0.0, 1.0) * (width - 1.0)), 1), 0).r * 2.0 - 1.0;
+}
 `;
 
+const COMMON_FOOTER = `
+  lightAz: f32,
+  lightEl: f32,
+  isRendering: f32, // 0=Preview, 1=HQ, 2=Ultra
+  aberrationStrength: f32,
+  audio: vec4f, // Smoothed levels: low, mid, high, volume
+  audioBeat: vec4f, // x = pulse (1 on a beat, decays), y = beat count, z = onset strength, w = seconds since the beat
+  scrollY: f32, 
+  scrollType: f32,
+  scrollParam1: f32,
+  scrollParam2: f32,
+  textureScale: vec2f,
+  textureOffset: vec2f,
+  channel0Size: vec2f, // Pixel size of each channel as uploaded
+  channel1Size: vec2f,
+  channel2Size: vec2f,
+  channel3Size: vec2f,
+};
+${SHADER_BINDINGS}`;
+
 // --- PBR & MATH LIBRARY ---
 const COMMON_FUNCTIONS = `
 const PI = 3.14159265359;
@@ -78,8 +125,14 @@ fn getLuma(c: vec3f) -> f32 {
     return dot(c, vec3f(0.299, 0.587, 0.114));
 }
 
+// Channel 0 tiled with square texels: v repeats at the image's aspect ratio
+fn tileUV(uv: vec2f) -> vec2f {
+    let size = max(u.channel0Size, vec2f(1.0));
+    return ((uv - 0.5) * vec2f(1.0, size.x / size.y) + 0.5) * u.textureScale + u.textureOffset;
+}
+
 fn detectEdge(uv: vec2f) -> f32 {
-    let texSize = vec2f(1024.0, 1024.0); // Assumed size
+    let texSize = max(u.channel0Size, vec2f(1.0));
     let w = 1.0 / texSize.x;
     let h = 1.0 / texSize.y;
     
@@ -105,6 +158,22 @@ fn detectEdge(uv: vec2f) -> f32 {
     return sqrt(sobelX * sobelX + sobelY * sobelY);
 }
 
+// --- CAMERA ---
+struct CameraRay {
+    ro: vec3f,
+    rd: vec3f,
+};
+
+// p is the centered screen position from SCROLL_UV_LOGIC (y in -1..1)
+fn getCameraRay(p: vec2f) -> CameraRay {
+    let ro = u.cameraPos.xyz;
+    let ww = normalize(u.cameraTarget.xyz - ro);
+    let uu = normalize(cross(ww, u.cameraUp.xyz));
+    let vv = cross(uu, ww);
+    let focal = 1.0 / tan(u.cameraPos.w * 0.5);
+    return CameraRay(ro, normalize(p.x * uu + p.y * vv + focal * ww));
+}
+
 // --- SDF OPS ---
 fn rotate(a: f32) -> mat2x2f {
     let c = cos(a); let s = sin(a);
@@ -140,32 +209,6 @@ fn sdTorus(p: vec3f, t: vec2f) -> f32 {
   return length(q) - t.y;
 }
 
-// --- LIGHTING HELPERS ---
-fn calcSoftShadow(ro: vec3f, rd: vec3f, tmin: f32, tmax: f32, k: f32) -> f32 {
-    var res = 1.0;
-    var t = tmin;
-    for(var i=0; i<24; i++) {
-        let h = map(ro + rd*t);
-        res = min(res, k*h/t);
-        t += clamp(h, 0.01, 0.2); 
-        if(res < 0.01 || t>tmax) { break; }
-    }
-    return clamp(res, 0.0, 1.0);
-}
-
-fn calcAO(pos: vec3f, nor: vec3f) -> f32 {
-    var occ = 0.0;
-    var sca = 1.0;
-    for(var i=0; i<5; i++) {
-        let h = 0.01 + 0.12*f32(i)/4.0;
-        let d = map(pos + h*nor);
-        occ += (h-d)*sca;
-        sca *= 0.95;
-        if(occ > 0.35) { break; }
-    }
-    return clamp(1.0 - 3.0*occ, 0.0, 1.0) * (0.5 + 0.5*nor.y);
-}
-
 // --- GGX PBR LIGHTING ---
 fn DistributionGGX(N: vec3f, H: vec3f, roughness: f32) -> f32 {
     let a = roughness * roughness;
@@ -254,11 +297,52 @@ fn gold_noise(xy: vec2f, seed: f32) -> f32 {
 }
 `;
 
+// Needs a scene `map` function, so only raymarched presets include it
+const RAYMARCH_HELPERS = `
+// --- LIGHTING HELPERS ---
+fn calcSoftShadow(ro: vec3f, rd: vec3f, tmin: f32, tmax: f32, k: f32) -> f32 {
+    var res = 1.0;
+    var t = tmin;
+    for(var i=0; i<24; i++) {
+        let h = map(ro + rd*t);
+        res = min(res, k*h/t);
+        t += clamp(h, 0.01, 0.2); 
+        if(res < 0.01 || t>tmax) { break; }
+    }
+    return clamp(res, 0.0, 1.0);
+}
+
+fn calcAO(pos: vec3f, nor: vec3f) -> f32 {
+    var occ = 0.0;
+    var sca = 1.0;
+    for(var i=0; i<5; i++) {
+        let h = 0.01 + 0.12*f32(i)/4.0;
+        let d = map(pos + h*nor);
+        occ += (h-d)*sca;
+        sca *= 0.95;
+        if(occ > 0.35) { break; }
+    }
+    return clamp(1.0 - 3.0*occ, 0.0, 1.0) * (0.5 + 0.5*nor.y);
+}
+`;
+
 const SCROLL_UV_LOGIC = `
     var modUV = uv;
     let sNorm = clamp(u.scrollY, 0.0, 1.0);
     var postFX = vec3f(0.0); 
     
+    // Twist: swirl around the center, rippling outwards with scrollParam2
+    if (abs(u.scrollType - 1.0) < 0.1) {
+        let str = sNorm * u.scrollParam1;
+        let aspect = vec2f(u.resolution.x / u.resolution.y, 1.0);
+        let p = (uv - 0.5) * aspect;
+        let r = length(p);
+        let freq = 1.0 + u.scrollParam2 * 10.0;
+        let angle = str * 4.0 * (1.0 - smoothstep(0.0, 0.7, r)) + sin(r * freq * 6.28318 - u.time) * str * 0.3;
+        modUV = (rotate(angle) * p) / aspect + 0.5;
+    }
+    
+    // Chromatic (3) splits the channels in the post stack instead
     if (abs(u.scrollType - 4.0) < 0.1) {
         let str = sNorm * u.scrollParam1;
         let n1 = fbm(vec3f(uv * 4.0, u.time * 0.5));
@@ -342,11 +426,11 @@ ${COMMON_HEADER}
   flowSpeed: f32,
   metallic: f32,
   roughness: f32,
-  grainStrength: f32,
   baseColor: vec3f,
   _pad_color: f32,
 ${COMMON_FOOTER}
 ${COMMON_FUNCTIONS}
+${RAYMARCH_HELPERS}
 
 fn map(p: vec3f) -> f32 {
     var p2 = p;
@@ -373,8 +457,9 @@ fn calcNormal(p: vec3f) -> vec3f {
 fn fs_main(@location(0) uv: vec2f) -> @location(0) vec4f {
     ${SCROLL_UV_LOGIC}
     
-    let ro = vec3f(sin(u.time * 0.2) * 3.0, 0.0, cos(u.time * 0.2) * 3.0);
-    let rd = normalize(p.x * normalize(cross(normalize(vec3f(0.0) - ro), vec3f(0.0, 1.0, 0.0))) + p.y * normalize(cross(normalize(cross(normalize(vec3f(0.0) - ro), vec3f(0.0, 1.0, 0.0))), normalize(vec3f(0.0) - ro))) + 1.5 * normalize(vec3f(0.0) - ro));
+    let ray = getCameraRay(p);
+    let ro = ray.ro;
+    let rd = ray.rd;
     
     var t = 0.0;
     var col = getEnvMap(rd) * 0.05; 
@@ -388,7 +473,7 @@ fn fs_main(@location(0) uv: vec2f) -> @location(0) vec4f {
             
             // Texture Reflection Mix
             let reflDir = reflect(-view, nor);
-            let texXY = (reflDir.xy * 0.5 + 0.5) * u.textureScale + u.textureOffset;
+            let texXY = tileUV(reflDir.xy * 0.5 + 0.5);
             let texVal = textureSampleLevel(channel0, sampler0, texXY, 0.0).rgb;
             
             let shadow = calcSoftShadow(pos, normalize(vec3f(1.0, 1.0, 1.0)), 0.05, 5.0, 16.0);
@@ -411,10 +496,6 @@ fn fs_main(@location(0) uv: vec2f) -> @location(0) vec4f {
         if (length(uv - center) < 0.15 * (u.scrollY * u.scrollParam1 * 0.3 * 5.0)) { col = vec3f(0.0); }
     }
     
-    col = (col * (2.51 * col + 0.03)) / (col * (2.43 * col + 0.59) + 0.14);
-    col = pow(col, vec3f(1.0/2.2));
-    col += (gold_noise(uv * u.resolution, u.time) - 0.5) * u.grainStrength;
-    
     return vec4f(col, 1.0);
 }
 `;
@@ -424,11 +505,11 @@ ${COMMON_HEADER}
   waveSpeed: f32,
   metallic: f32,
   roughness: f32,
-  grainStrength: f32,
   baseColor: vec3f,
   _pad_color: f32,
 ${COMMON_FOOTER}
 ${COMMON_FUNCTIONS}
+${RAYMARCH_HELPERS}
 
 fn map(p: vec3f) -> f32 {
     let t = u.time * u.waveSpeed;
@@ -450,8 +531,9 @@ fn calcNormal(p: vec3f) -> vec3f {
 fn fs_main(@location(0) uv: vec2f) -> @location(0) vec4f {
     ${SCROLL_UV_LOGIC}
 
-    let ro = vec3f(0.0, 5.0, 0.0);
-    let rd = normalize(vec3f(p.x, -1.0, p.y));
+    let ray = getCameraRay(p);
+    let ro = ray.ro;
+    let rd = ray.rd;
     
     var t = 0.0;
     var col = vec3f(0.0);
@@ -464,7 +546,7 @@ fn fs_main(@location(0) uv: vec2f) -> @location(0) vec4f {
             
             // --- BUMP MAPPING (MOLD) ---
             // Planar mapping for the fluid surface
-            let texUV = (pos.xz * 0.2 + 0.5) * u.textureScale + u.textureOffset; 
+            let texUV = tileUV(pos.xz * 0.2 + 0.5);
             let tex = textureSampleLevel(channel0, sampler0, texUV, 0.0).rgb;
             let texVal = tex.r;
             
@@ -495,9 +577,7 @@ fn fs_main(@location(0) uv: vec2f) -> @location(0) vec4f {
     }
     
     col += postFX;
-    col = pow(col, vec3f(1.1)); 
-    col = col / (col + 0.15);
-    col += (gold_noise(uv * u.resolution, u.time) - 0.5) * u.grainStrength;
+    col = pow(col, vec3f(1.1));
     return vec4f(col, 1.0);
 }
 `;
@@ -507,11 +587,11 @@ ${COMMON_HEADER}
   flowSpeed: f32,
   metallic: f32,
   roughness: f32,
-  grainStrength: f32,
   baseColor: vec3f,
   _pad_color: f32,
 ${COMMON_FOOTER}
 ${COMMON_FUNCTIONS}
+${RAYMARCH_HELPERS}
 
 fn map(p: vec3f) -> f32 {
     // Infinite Hall of Mirrors
@@ -544,12 +624,9 @@ fn calcNormal(p: vec3f) -> vec3f {
 fn fs_main(@location(0) uv: vec2f) -> @location(0) vec4f {
     ${SCROLL_UV_LOGIC}
 
-    let ro = vec3f(0.0, 0.0, 0.0); 
-    let ta = vec3f(0.0, 0.0, 10.0);
-    let ww = normalize(ta - ro);
-    let uu = normalize(cross(ww, vec3f(0.0, 1.0, 0.0)));
-    let vv = normalize(cross(uu, ww));
-    let rd = normalize(p.x * uu + p.y * vv + 1.2 * ww);
+    let ray = getCameraRay(p);
+    let ro = ray.ro;
+    let rd = ray.rd;
     
     var t = 0.0;
     var col = vec3f(0.01, 0.01, 0.02);
@@ -595,9 +672,6 @@ fn fs_main(@location(0) uv: vec2f) -> @location(0) vec4f {
     
     col = mix(col, vec3f(0.01, 0.02, 0.05), 1.0 - exp(-0.03 * t));
     col += postFX;
-    col = (col * (2.51 * col + 0.03)) / (col * (2.43 * col + 0.59) + 0.14);
-    col = pow(col, vec3f(1.0/2.2));
-    col += (gold_noise(uv * u.resolution, u.time) - 0.5) * u.grainStrength;
     return vec4f(col, 1.0);
 }
 `;
@@ -607,11 +681,11 @@ ${COMMON_HEADER}
   spinSpeed: f32,
   ior: f32,
   roughness: f32,
-  grainStrength: f32,
   baseColor: vec3f,
   _pad_color: f32,
 ${COMMON_FOOTER}
 ${COMMON_FUNCTIONS}
+${RAYMARCH_HELPERS}
 
 fn map(p: vec3f) -> f32 {
     let dSphere = sdSphere(p, 1.0);
@@ -635,8 +709,9 @@ fn calcNormal(p: vec3f) -> vec3f {
 fn fs_main(@location(0) uv: vec2f) -> @location(0) vec4f {
     ${SCROLL_UV_LOGIC}
 
-    let ro = vec3f(0.0, 0.0, 4.0);
-    let rd = normalize(vec3f(p, -1.0));
+    let ray = getCameraRay(p);
+    let ro = ray.ro;
+    let rd = ray.rd;
     var col = vec3f(0.01);
     var t = 0.0;
     
@@ -660,8 +735,6 @@ fn fs_main(@location(0) uv: vec2f) -> @location(0) vec4f {
     }
     
     col += postFX;
-    col = pow(col, vec3f(0.4545));
-    col += (gold_noise(uv * u.resolution, u.time) - 0.5) * u.grainStrength;
     return vec4f(col, 1.0);
 }
 `;
@@ -671,11 +744,11 @@ ${COMMON_HEADER}
   spinSpeed: f32,
   metallic: f32,
   roughness: f32,
-  grainStrength: f32,
   baseColor: vec3f,
   _pad_color: f32,
 ${COMMON_FOOTER}
 ${COMMON_FUNCTIONS}
+${RAYMARCH_HELPERS}
 
 fn map(p: vec3f) -> f32 {
     // Parallax Interaction: Tilt based on mouse
@@ -706,9 +779,9 @@ fn calcNormal(p: vec3f) -> vec3f {
 fn fs_main(@location(0) uv: vec2f) -> @location(0) vec4f {
     ${SCROLL_UV_LOGIC}
 
-    // Fixed Camera
-    let ro = vec3f(0.0, 0.0, 3.8);
-    let rd = normalize(vec3f(p, -1.0));
+    let ray = getCameraRay(p);
+    let ro = ray.ro;
+    let rd = ray.rd;
     
     var t = 0.0;
     var col = vec3f(0.02); // Dark Studio
@@ -769,15 +842,235 @@ fn fs_main(@location(0) uv: vec2f) -> @location(0) vec4f {
         if (length(uv - center) < 0.15 * (u.scrollY * u.scrollParam1 * 0.3 * 5.0)) { col = vec3f(0.0); }
     }
 
-    // Tone Mapping
-    col = (col * (2.51 * col + 0.03)) / (col * (2.43 * col + 0.59) + 0.14);
-    col = pow(col, vec3f(1.0/2.2));
-    col += (gold_noise(uv * u.resolution, u.time) - 0.5) * u.grainStrength;
-    
     return vec4f(col, 1.0);
 }
 `;
 
+const TRAILS_UNIFORMS = `
+${COMMON_HEADER}
+  trailDecay: f32,
+  orbSpeed: f32,
+  orbSize: f32,
+  baseColor: vec3f,
+  _pad_color: f32,
+${COMMON_FOOTER}
+`;
+
+const PRESET_TRAILS_BUFFER_A = `
+${TRAILS_UNIFORMS}
+
+@fragment
+fn fs_bufferA(@location(0) uv: vec2f) -> @location(0) vec4f {
+    let aspect = u.resolution.x / u.resolution.y;
+    let p = (uv - 0.5) * vec2f(aspect, 1.0);
+
+    // Previous frame of this buffer, faded towards black
+    var col = textureSampleLevel(bufferA, bufferSampler, bufferUV(uv), 0.0).rgb * u.trailDecay;
+
+    let t = u.time * u.orbSpeed;
+    for (var i = 0; i < 3; i++) {
+        let fi = f32(i);
+        let center = vec2f(sin(t * (1.0 + fi * 0.31) + fi * 2.1) * 0.6, cos(t * (1.3 + fi * 0.17) + fi) * 0.35);
+        let hue = 0.5 + 0.5 * cos(fi * 2.094 + vec3f(0.0, 2.0, 4.0));
+        col += mix(u.baseColor, hue, 0.5) * smoothstep(u.orbSize, 0.0, length(p - center)) * 0.6;
+    }
+
+    // Mouse brush (mouse.y is top-down)
+    let m = (vec2f(u.mouse.x, 1.0 - u.mouse.y) - 0.5) * vec2f(aspect, 1.0);
+    col += vec3f(1.0) * smoothstep(u.orbSize * 0.5, 0.0, length(p - m)) * u.mouse.z;
+
+    return vec4f(col, 1.0);
+}
+`;
+
+const PRESET_TRAILS = `
+${TRAILS_UNIFORMS}
+${COMMON_FUNCTIONS}
+
+@fragment
+fn fs_main(@location(0) uv: vec2f) -> @location(0) vec4f {
+    ${SCROLL_UV_LOGIC}
+
+    let trail = textureSampleLevel(bufferA, bufferSampler, bufferUV(modUV), 0.0).rgb;
+
+    // Cheap bloom from a ring of wider taps
+    var glow = vec3f(0.0);
+    let px = 12.0 / u.resolution;
+    for (var i = 0; i < 8; i++) {
+        let a = f32(i) * 0.785398;
+        glow += textureSampleLevel(bufferA, bufferSampler, bufferUV(modUV + vec2f(cos(a), sin(a)) * px), 0.0).rgb;
+    }
+
+    let col = trail + glow * 0.0625 + postFX;
+    return vec4f(col, 1.0);
+}
+`;
+
+const BOIDS_UNIFORMS = `
+${COMMON_HEADER}
+  swarmSpeed: f32,
+  cohesion: f32,
+  glow: f32,
+  baseColor: vec3f,
+  _pad_color: f32,
+${COMMON_FOOTER}
+
+struct Boid {
+  pos: vec2f,
+  vel: vec2f,
+};
+
+const BOID_COUNT = 64u;
+`;
+
+const PRESET_BOIDS_COMPUTE = `
+${BOIDS_UNIFORMS}
+@group(2) @binding(0) var<storage, read_write> boids: array<Boid>;
+@group(2) @binding(1) var<storage, read_write> lastTime: f32; // u.time of the previous step
+@group(2) @binding(4) var density: texture_storage_2d<rgba16float, write>;
+
+fn hash2(n: f32) -> vec2f {
+    return fract(sin(vec2f(n, n + 1.7)) * vec2f(43758.5453, 22578.1459));
+}
+
+// Storage starts zeroed: seeds the flock on the first frame. A dispatch of
+// its own, so cs_simulate never reads a neighbour that is still unseeded.
+@compute @workgroup_size(64)
+fn cs_seed(@builtin(global_invocation_id) id: vec3u) {
+    let i = id.x;
+    if (dot(boids[i].vel, boids[i].vel) != 0.0) { return; }
+    let aspect = u.resolution.x / u.resolution.y;
+    boids[i] = Boid((hash2(f32(i)) * 2.0 - 1.0) * vec2f(aspect, 1.0), (hash2(f32(i) + 17.0) - 0.5) * 0.5);
+}
+
+// One workgroup holds the whole flock, so a storage barrier between the
+// read and write phases keeps every boid reading the same frame.
+@compute @workgroup_size(64)
+fn cs_simulate(@builtin(global_invocation_id) id: vec3u) {
+    let i = id.x;
+    let aspect = u.resolution.x / u.resolution.y;
+    let b = boids[i];
+
+    var center = vec2f(0.0);
+    var heading = vec2f(0.0);
+    var separation = vec2f(0.0);
+    var count = 0.0;
+    for (var j = 0u; j < BOID_COUNT; j++) {
+        let other = boids[j];
+        let d = b.pos - other.pos;
+        let dist = length(d);
+        if (j != i && dist < 0.5) {
+            center += other.pos;
+            heading += other.vel;
+            count += 1.0;
+        }
+        if (j != i && dist < 0.1) {
+            separation += d / max(dist * dist, 0.0001);
+        }
+    }
+
+    var accel = separation * 0.002;
+    if (count > 0.0) {
+        accel += (center / count - b.pos) * u.cohesion;
+        accel += (heading / count - b.vel) * 0.5;
+    }
+
+    // Mouse attracts the flock while pressed (mouse.y is top-down)
+    let m = (vec2f(u.mouse.x, 1.0 - u.mouse.y) * 2.0 - 1.0) * vec2f(aspect, 1.0);
+    accel += (m - b.pos) * u.mouse.z * 2.0;
+
+    // Step by the shader time since the last frame, so the speed does not follow
+    // the frame rate; backward jumps rest the flock and long stalls are capped
+    let dt = clamp(u.time - lastTime, 0.0, 0.05) * u.swarmSpeed;
+    var vel = b.vel + accel * dt;
+    let speed = length(vel);
+    vel = vel / max(speed, 0.0001) * clamp(speed, 0.2, 0.8);
+    var pos = b.pos + vel * dt;
+
+    // Wrap around the screen edges
+    let bounds = vec2f(aspect, 1.0);
+    pos = (fract((pos + bounds) / (2.0 * bounds)) * 2.0 - 1.0) * bounds;
+
+    storageBarrier();
+    boids[i] = Boid(pos, vel);
+    if (i == 0u) { lastTime = u.time; }
+}
+
+// Splats the flock into a smooth density / flow field
+@compute @workgroup_size(8, 8)
+fn cs_splat(@builtin(global_invocation_id) id: vec3u) {
+    let size = textureDimensions(density);
+    if (id.x >= size.x || id.y >= size.y) { return; }
+
+    let aspect = u.resolution.x / u.resolution.y;
+    let uv = (vec2f(id.xy) + 0.5) / vec2f(size);
+    let p = (vec2f(uv.x, 1.0 - uv.y) * 2.0 - 1.0) * vec2f(aspect, 1.0);
+
+    var field = 0.0;
+    var flow = vec2f(0.0);
+    for (var j = 0u; j < BOID_COUNT; j++) {
+        let b = boids[j];
+        let d = p - b.pos;
+        let w = exp(-dot(d, d) * 30.0);
+        field += w;
+        flow += b.vel * w;
+    }
+    textureStore(density, id.xy, vec4f(field, flow, 1.0));
+}
+`;
+
+const PRESET_BOIDS = `
+${BOIDS_UNIFORMS}
+@group(2) @binding(0) var<storage, read> boids: array<Boid>;
+@group(2) @binding(4) var density: texture_2d<f32>;
+${COMMON_FUNCTIONS}
+
+@fragment
+fn fs_main(@location(0) uv: vec2f) -> @location(0) vec4f {
+    ${SCROLL_UV_LOGIC}
+
+    let aspect = u.resolution.x / u.resolution.y;
+    let q = (modUV * 2.0 - 1.0) * vec2f(aspect, 1.0);
+
+    // Density field written by cs_splat
+    let field = textureSampleLevel(density, bufferSampler, bufferUV(modUV), 0.0);
+    let flowTint = 0.5 + 0.5 * cos(atan2(field.z, field.y) + vec3f(0.0, 2.0, 4.0));
+    var col = vec3f(0.01, 0.01, 0.02);
+    col += mix(u.baseColor, flowTint, 0.3) * smoothstep(0.1, 1.5, field.x) * u.glow;
+
+    // Bright cores straight from the storage buffer
+    for (var j = 0u; j < BOID_COUNT; j++) {
+        let d = q - boids[j].pos;
+        col += vec3f(1.0) * exp(-dot(d, d) * 6000.0);
+    }
+
+    col += postFX;
+    return vec4f(col, 1.0);
+}
+`;
+
+// Starter module for a new buffer pass. Reuses the Uniforms struct of the
+// Image pass so every pass agrees on the shared uniform buffer layout.
+export const createBufferPassTemplate = (id: BufferPassId, imageCode: string): BufferPass => {
+    const letter = id.slice(-1);
+    const uniformsStruct = imageCode.match(/struct\s+Uniforms\s*\{[\s\S]*?\};/)?.[0] ?? `${COMMON_HEADER}${COMMON_FOOTER.split('};')[0]}};`;
+    const entryPoint = `fs_buffer${letter}`;
+    const code = `${uniformsStruct}
+${SHADER_BINDINGS}
+@fragment
+fn ${entryPoint}(@location(0) uv: vec2f) -> @location(0) vec4f {
+    // Feedback: previous frame of this buffer
+    let prev = textureSampleLevel(buffer${letter}, bufferSampler, bufferUV(uv), 0.0).rgb;
+    let pulse = 0.5 + 0.5 * sin(u.time + uv.x * 6.28318);
+    return vec4f(mix(prev, vec3f(uv, pulse), 0.05), 1.0);
+}
+`;
+    return { id, label: `Buffer ${letter}`, entryPoint, code };
+};
+
+// Presets return linear HDR from fs_main; tone mapping and grain run in the post stack
+const createPost = (overrides: Partial<PostSettings>): PostSettings => ({ ...DEFAULT_POST, ...overrides });
+
 export const PRESETS: Preset[] = [
     {
         id: 'chrome',
@@ -785,11 +1078,12 @@ export const PRESETS: Preset[] = [
         description: 'Polished liquid metal with studio lighting. Uses GGX PBR.',
         shaderCode: PRESET_CHROME,
         tags: ['PBR', 'Studio', 'Metal'],
+        camera: { target: [0, 0, 0], theta: 0, phi: 0, radius: 3.0, fov: 67, roll: 0, autoOrbit: 0.2 },
+        post: createPost({ grain: { enabled: true, strength: 0.05 } }),
         params: [
             { id: 'flowSpeed', label: 'Flow', type: 'float', value: 0.5, min: 0.0, max: 2.0 },
             { id: 'metallic', label: 'Metalness', type: 'float', value: 1.0, min: 0.0, max: 1.0 },
             { id: 'roughness', label: 'Roughness', type: 'float', value: 0.05, min: 0.01, max: 1.0 },
-            { id: 'grainStrength', label: 'Film Grain', type: 'float', value: 0.05, min: 0.0, max: 0.2 },
             { id: 'baseColor', label: 'Albedo', type: 'color', value: [1.0, 1.0, 1.0] },
         ]
     },
@@ -799,11 +1093,12 @@ export const PRESETS: Preset[] = [
         description: 'Viscous, high-value metallic fluid simulation.',
         shaderCode: PRESET_GOLD,
         tags: ['Luxury', 'Fluid', 'Gold'],
+        camera: { target: [0, 0, 0], theta: Math.PI, phi: 1.5, radius: 5.0, fov: 90, roll: 0, autoOrbit: 0 },
+        post: createPost({ tonemap: { enabled: true, operator: 'reinhard', exposure: 1.5 }, grain: { enabled: true, strength: 0.02 } }),
         params: [
             { id: 'waveSpeed', label: 'Viscosity', type: 'float', value: 0.3, min: 0.0, max: 2.0 },
             { id: 'metallic', label: 'Metalness', type: 'float', value: 1.0, min: 0.0, max: 1.0 },
             { id: 'roughness', label: 'Roughness', type: 'float', value: 0.12, min: 0.01, max: 1.0 },
-            { id: 'grainStrength', label: 'Noise', type: 'float', value: 0.02, min: 0.0, max: 0.1 },
             { id: 'baseColor', label: 'Gold Tint', type: 'color', value: [1.0, 0.7, 0.1] },
         ]
     },
@@ -813,11 +1108,12 @@ export const PRESETS: Preset[] = [
         description: 'Hall of mirrors with floating data terminals.',
         shaderCode: PRESET_OBSIDIAN,
         tags: ['Dark', 'Cyber', 'Tech'],
+        camera: { target: [0, 0, 10], theta: Math.PI, phi: 0, radius: 10.0, fov: 80, roll: 0, autoOrbit: 0 },
+        post: createPost({ vignette: { enabled: true, strength: 0.4, softness: 0.6 } }),
         params: [
             { id: 'flowSpeed', label: 'Speed', type: 'float', value: 1.0, min: 0.0, max: 5.0 },
             { id: 'metallic', label: 'Reflectivity', type: 'float', value: 0.9, min: 0.0, max: 1.0 },
             { id: 'roughness', label: 'Roughness', type: 'float', value: 0.1, min: 0.01, max: 1.0 },
-            { id: 'grainStrength', label: 'Dither', type: 'float', value: 0.03, min: 0.0, max: 0.2 },
             { id: 'baseColor', label: 'Glow Tint', type: 'color', value: [0.0, 0.8, 1.0] },
         ]
     },
@@ -827,11 +1123,12 @@ export const PRESETS: Preset[] = [
         description: 'Dyson sphere containment ring.',
         shaderCode: PRESET_CORE,
         tags: ['Sci-Fi', 'Energy', 'Glass'],
+        camera: { target: [0, 0, 0], theta: 0, phi: 0, radius: 4.0, fov: 90, roll: 0, autoOrbit: 0 },
+        post: createPost({ tonemap: { enabled: true, operator: 'linear', exposure: 1.0 }, grain: { enabled: true, strength: 0.04 } }),
         params: [
             { id: 'spinSpeed', label: 'Spin', type: 'float', value: 0.5, min: 0.0, max: 5.0 },
             { id: 'ior', label: 'Refraction', type: 'float', value: 1.45, min: 1.0, max: 2.0 },
             { id: 'roughness', label: 'Containment', type: 'float', value: 0.2, min: 0.0, max: 1.0 },
-            { id: 'grainStrength', label: 'Radiation', type: 'float', value: 0.04, min: 0.0, max: 0.2 },
             { id: 'baseColor', label: 'Plasma', type: 'color', value: [1.0, 0.4, 0.0] },
         ]
     },
@@ -841,12 +1138,76 @@ export const PRESETS: Preset[] = [
         description: 'Holographic glass tablet with interactive tilt.',
         shaderCode: PRESET_CARD,
         tags: ['Product', 'UI', 'Glass'],
+        camera: { target: [0, 0, 0], theta: 0, phi: 0, radius: 3.8, fov: 90, roll: 0, autoOrbit: 0 },
+        post: createPost({ grain: { enabled: true, strength: 0.02 } }),
         params: [
             { id: 'spinSpeed', label: 'Drift', type: 'float', value: 0.2, min: 0.0, max: 2.0 },
             { id: 'metallic', label: 'Frame', type: 'float', value: 0.9, min: 0.0, max: 1.0 },
             { id: 'roughness', label: 'Glass', type: 'float', value: 0.05, min: 0.0, max: 1.0 },
-            { id: 'grainStrength', label: 'Grain', type: 'float', value: 0.02, min: 0.0, max: 0.1 },
             { id: 'baseColor', label: 'Bezel', type: 'color', value: [0.1, 0.1, 0.1] },
+        ],
+        // 10s hero loop: half orbit out and back with a push-in at the midpoint
+        timeline: {
+            duration: 10,
+            loop: true,
+            tracks: [
+                { target: 'camera.theta', keyframes: [
+                    { time: 0, value: [-0.6], easing: 'easeInOut' },
+                    { time: 5, value: [0.6], easing: 'easeInOut' },
+                    { time: 10, value: [-0.6], easing: 'linear' },
+                ] },
+                { target: 'camera.radius', keyframes: [
+                    { time: 0, value: [4.2], easing: 'easeInOut' },
+                    { time: 5, value: [3.4], easing: 'easeInOut' },
+                    { time: 10, value: [4.2], easing: 'linear' },
+                ] },
+                { target: 'param.roughness', keyframes: [
+                    { time: 0, value: [0.05], easing: 'easeOut' },
+                    { time: 5, value: [0.3], easing: 'easeIn' },
+                    { time: 10, value: [0.05], easing: 'linear' },
+                ] },
+            ],
+        },
+    },
+    {
+        id: 'trails',
+        name: 'Plasma Trails',
+        description: 'Orbiting light sources painting into a feedback buffer.',
+        shaderCode: PRESET_TRAILS,
+        tags: ['Feedback', 'Light', 'Multi-Pass'],
+        post: createPost({ bloom: { enabled: true, threshold: 0.8, intensity: 0.5, radius: 0.04 } }),
+        params: [
+            { id: 'trailDecay', label: 'Persistence', type: 'float', value: 0.96, min: 0.8, max: 0.995, step: 0.001 },
+            { id: 'orbSpeed', label: 'Speed', type: 'float', value: 1.0, min: 0.0, max: 3.0 },
+            { id: 'orbSize', label: 'Size', type: 'float', value: 0.08, min: 0.01, max: 0.3 },
+            { id: 'baseColor', label: 'Tint', type: 'color', value: [0.2, 0.6, 1.0] },
+        ],
+        passes: [
+            { id: 'bufferA', label: 'Buffer A', entryPoint: 'fs_bufferA', code: PRESET_TRAILS_BUFFER_A },
         ]
+    },
+    {
+        id: 'boids',
+        name: 'Boid Swarm',
+        description: 'GPU flocking simulation splatted into a glowing flow field.',
+        shaderCode: PRESET_BOIDS,
+        tags: ['Compute', 'Simulation', 'Particles'],
+        post: createPost({ bloom: { enabled: true, threshold: 0.8, intensity: 0.5, radius: 0.03 } }),
+        params: [
+            { id: 'swarmSpeed', label: 'Speed', type: 'float', value: 1.0, min: 0.0, max: 3.0 },
+            { id: 'cohesion', label: 'Cohesion', type: 'float', value: 0.5, min: 0.0, max: 2.0 },
+            { id: 'glow', label: 'Glow', type: 'float', value: 1.0, min: 0.0, max: 3.0 },
+            { id: 'baseColor', label: 'Field', type: 'color', value: [0.1, 0.4, 1.0] },
+        ],
+        compute: {
+            code: PRESET_BOIDS_COMPUTE,
+            stages: [
+                { entryPoint: 'cs_seed', workgroups: [1, 1, 1] },
+                { entryPoint: 'cs_simulate', workgroups: [1, 1, 1] },
+                { entryPoint: 'cs_splat', workgroups: [32, 32, 1] },
+            ],
+            buffers: [{ name: 'boids', size: 64 * 16 }, { name: 'lastTime', size: 4 }],
+            textures: [{ name: 'density', width: 256, height: 256 }],
+        }
     }
 ];
\ No newline at end of file
@@ -5,9 +5,10 @@ export interface ShaderError {
   message: string;
   lineNum?: number;
   linePos?: number;
+  passId?: PassId; // Pass whose module failed, defaults to the Image pass
 }
 
-export type ParamType = 'float' | 'color' | 'vec3';
+export type ParamType = 'float' | 'color' | 'vec3' | 'vec2' | 'vec4' | 'rgba' | 'int' | 'bool' | 'enum' | 'angle';
 
 export interface BaseParam {
   id: string;
@@ -33,21 +34,77 @@ export interface Vec3Param extends BaseParam {
   value: [number, number, number];
 }
 
-export type ShaderParam = FloatParam | ColorParam | Vec3Param;
+export interface Vec2Param extends BaseParam {
+  type: 'vec2';
+  value: [number, number];
+  min: number; // Shared by both axes of the XY pad
+  max: number;
+}
+
+export interface Vec4Param extends BaseParam {
+  type: 'vec4';
+  value: [number, number, number, number];
+  min: number;
+  max: number;
+  step?: number;
+}
+
+export interface RgbaParam extends BaseParam {
+  type: 'rgba';
+  value: [number, number, number, number]; // RGBA 0-1
+}
+
+export interface IntParam extends BaseParam {
+  type: 'int';
+  value: number;
+  min: number;
+  max: number;
+  step?: number; // Whole numbers, defaults to 1
+}
+
+export interface BoolParam extends BaseParam {
+  type: 'bool';
+  value: boolean; // Written as 0 / 1
+}
+
+export interface EnumParam extends BaseParam {
+  type: 'enum';
+  value: number; // Index into options
+  options: string[];
+}
+
+export interface AngleParam extends BaseParam {
+  type: 'angle';
+  value: number; // Radians
+}
+
+export type ShaderParam = FloatParam | ColorParam | Vec3Param | Vec2Param | Vec4Param | RgbaParam | IntParam | BoolParam | EnumParam | AngleParam;
+
+export type ScalarKind = 'f32' | 'i32' | 'u32' | 'f16';
+
+// One member of the reflected `struct Uniforms`
+export interface UniformField {
+  name: string;
+  type: string; // Normalised WGSL type, e.g. 'vec3<f32>'
+  offset: number; // Bytes from the start of the buffer
+  scalar?: ScalarKind; // Set for scalars and vectors, which can be written by name
+  components: number; // 1 for scalars, N for vecN, 0 for matrices, arrays and structs
+}
 
 export interface UniformLayout {
   size: number; // Total buffer size in bytes
-  offsetMap: Record<string, number>; // Map of param ID to byte offset
+  offsetMap: Record<string, number>; // Map of field name to byte offset
+  fields: Record<string, UniformField>;
 }
 
-export type ShotType = 'orbit' | 'sweep' | 'dolly' | 'breathing' | 'chaos';
+export type ShotType = 'orbit' | 'sweep' | 'dolly' | 'breathing' | 'chaos' | 'timeline';
 
 export interface VideoConfig {
   duration: number; // Seconds
   fps: number;
   bitrate: number; // Mbps
-  shotType: ShotType; // Camera Movement
-  orchestrate: boolean; // Auto-animate scene params?
+  shotType: ShotType; // Camera Movement ('timeline' plays the preset timeline)
+  orchestrate: boolean; // Auto-animate scene params? Ignored for 'timeline' shots
   postProcess: {
       grain: number;
       aberration: number;
@@ -55,6 +112,59 @@ export interface VideoConfig {
   format: 'webm' | 'mp4';
 }
 
+// Offscreen still capture; sizes beyond one GPU texture render in tiles
+export interface StillConfig {
+  width: number;
+  height: number;
+  quality: number; // Written to u.isRendering: 1 = HQ, 2 = Ultra
+  samples: number; // Jittered renders averaged per pixel; 1 renders once
+  shutter: number; // Seconds of shader time the samples spread over (motion blur); 0 freezes time
+}
+
+export type BufferPassId = 'bufferA' | 'bufferB' | 'bufferC';
+
+// Offscreen pass rendered before the Image pass (`shaderCode`), Shadertoy style.
+// Each pass writes to its own rgba16float ping-pong target and can sample the
+// previous frame of every buffer through the @group(1) bindings.
+export interface BufferPass {
+    id: BufferPassId;
+    label: string;
+    entryPoint: string; // Fragment entry point inside `code`
+    code: string; // Full WGSL module, sharing the Image pass Uniforms struct
+}
+
+// Identifies one editable WGSL module of a preset
+export type PassId = 'image' | 'compute' | BufferPassId;
+
+// Zero-initialised on creation and kept across frames, so simulations can
+// carry state. Bound at @group(2) @binding(index).
+export interface StorageBufferDecl {
+    name: string;
+    size: number; // Bytes
+}
+
+// rgba16float, written by compute through texture_storage_2d<rgba16float, write>
+// and sampled by render passes as texture_2d<f32>. Bound at @group(2) @binding(4 + index).
+export interface StorageTextureDecl {
+    name: string;
+    width: number;
+    height: number;
+}
+
+export interface ComputeStage {
+    entryPoint: string;
+    workgroups: [number, number, number]; // dispatchWorkgroups(x, y, z) every frame
+}
+
+// Compute stages run in order each frame, before any render pass. Render
+// passes declare the same @group(2) slots read-only to consume the results.
+export interface ComputeSetup {
+    code: string; // WGSL module holding every @compute entry point
+    stages: ComputeStage[];
+    buffers: StorageBufferDecl[];
+    textures: StorageTextureDecl[];
+}
+
 export interface Preset {
     id: string;
     name: string;
@@ -62,6 +172,84 @@ export interface Preset {
     shaderCode: string;
     params: ShaderParam[];
     tags: string[];
+    passes?: BufferPass[];
+    compute?: ComputeSetup;
+    timeline?: Timeline;
+    camera?: CameraPose; // Default pose; 2D presets leave it out
+    post?: PostSettings; // Absent on presets that tone map in their own shader
+    grade?: ColorGrade;
+    channels?: TextureChannel[]; // Absent means channel 0 with the default sampler
+    modulations?: Modulation[];
+}
+
+// Orbit camera around `target`. Drag, wheel, timeline tracks and video shots
+// all move theta/phi/radius; the shader reads the result through getCameraRay.
+export interface CameraPose {
+    target: [number, number, number];
+    theta: number; // Azimuth (radians), 0 looks down -Z
+    phi: number; // Elevation (radians)
+    radius: number; // Distance from target
+    fov: number; // Vertical field of view (degrees)
+    roll: number; // Degrees around the view axis
+    autoOrbit: number; // Radians per second added to theta
+}
+
+export type EasingType = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'step';
+
+// Easing applies to the segment that starts at this keyframe
+export interface Keyframe {
+    time: number; // Seconds
+    value: number[]; // Scalars are [v], vectors and colors one entry per component
+    easing: EasingType;
+}
+
+// `target` is 'camera.theta' | 'camera.phi' | 'camera.radius' | 'camera.fov' | 'camera.roll' | 'scroll.strength' |
+// 'scroll.speed' | 'texture.scale' | 'texture.offset' | 'param.<id>'
+export interface TimelineTrack {
+    target: string;
+    keyframes: Keyframe[]; // Sorted by time
+}
+
+export interface Timeline {
+    duration: number; // Seconds
+    loop: boolean;
+    tracks: TimelineTrack[];
+}
+
+// Live preview state of the timeline panel
+export interface TimelinePlayback {
+    enabled: boolean; // When false the timeline is ignored outside of exports
+    playing: boolean;
+    time: number; // Playhead while paused, start point when playing
+}
+
+// Preview clock: u.time moves by timeScale per second while playing and
+// wraps into loopStart-loopEnd while loop is set. The timeline playback
+// counts in this time, so it pauses and scales with it.
+export interface TransportSettings {
+    playing: boolean;
+    timeScale: number; // 0.1 - 4
+    loop: boolean;
+    loopStart: number; // Seconds
+    loopEnd: number;
+    seed: number; // Written to u.seed; stays the same across frames, stills and exports
+}
+
+export type ModulationSource = 'sine' | 'saw' | 'noise' | 'audioLow' | 'audioMid' | 'audioHigh' | 'audioVolume' | 'beat' | 'mouseX' | 'mouseY' | 'scroll' | 'time';
+export type ModulationCurve = 'linear' | 'easeIn' | 'easeOut' | 'smooth' | 'step';
+
+// Drives a ShaderParam from a source every frame. The source reads 0-1 (time
+// grows by `rate` per second) and is shaped by the curve; depth times it plus
+// offset, both as fractions of the param's range, is added to the value.
+export interface Modulation {
+    id: string;
+    target: string; // ShaderParam id
+    component?: number; // Vector component; absent drives every component
+    source: ModulationSource;
+    rate: number; // Hz, for the LFOs and time
+    depth: number; // -1 to 1
+    offset: number; // -1 to 1
+    curve: ModulationCurve;
 }
 
 export type LayoutMode = 'clean' | 'center' | 'split' | 'cards' | 'scroll';
@@ -71,4 +259,75 @@ export type ScrollEffectType = 'none' | 'twist' | 'fly' | 'chromatic' | 'liquify
 export interface ScrollParams {
     strength: number;
     speed: number;
-}
\ No newline at end of file
+}
+// Dynamic resolution: the scene renders at `scale` x the canvas size and is
+// upscaled by the post stack's output pass. The scale moves between minScale
+// and maxScale to keep GPU frame time inside the targetFps budget.
+export interface ResolutionSettings {
+    enabled: boolean; // When false the scene renders at maxScale
+    targetFps: number;
+    minScale: number; // 0.25 - 1
+    maxScale: number;
+}
+
+// Analysis of the audio source behind u.audio, u.audioBeat and the audio
+// texture. Gain scales the spectrum and waveform before everything else.
+export interface AudioSettings {
+    gain: number; // 0 - 4
+    lowEdge: number; // Hz; the low band ends and the mid band starts here
+    highEdge: number; // Hz; the high band starts here
+    attack: number; // Seconds for a band to rise to a new level
+    release: number; // Seconds for a band to fall back
+    beatSensitivity: number; // Standard deviations above the recent mean a kick must reach
+}
+
+export type TonemapOperator = 'aces' | 'reinhard' | 'hable' | 'linear';
+
+// Post stack run on the HDR Image pass output, in this order: bloom,
+// chromatic aberration, vignette, tone mapping (exposure, operator, gamma), grain
+export interface PostSettings {
+    bloom: { enabled: boolean, threshold: number, intensity: number, radius: number }; // radius: fraction of the frame height
+    chromatic: { enabled: boolean, strength: number }; // Red/blue split as a fraction of the distance from the frame center
+    vignette: { enabled: boolean, strength: number, softness: number };
+    tonemap: { enabled: boolean, operator: TonemapOperator, exposure: number }; // Off leaves linear values, clipped by the canvas
+    grain: { enabled: boolean, strength: number };
+}
+
+// LUT grade of a preset; the .cube file itself lives in the user library
+export interface ColorGrade {
+    lut: string; // Id of a user LUT
+    intensity: number; // 0 = ungraded, 1 = full LUT
+}
+
+export type ChannelFilter = 'linear' | 'nearest';
+
+export type ChannelAddressMode = 'repeat' | 'mirror-repeat' | 'clamp-to-edge';
+
+export interface ChannelSampler {
+    filter: ChannelFilter;
+    address: ChannelAddressMode; // Both axes
+    mipmaps: boolean; // Generated on upload; only textureSample picks lower levels
+    srgb: boolean; // rgba8unorm-srgb, so samples come back as linear color
+}
+
+// Texture slot a preset samples: `channelN` at @group(0) @binding(1 + 2N),
+// its sampler `samplerN` at @binding(2 + 2N)
+export interface TextureChannel {
+    index: number; // 0 - 3
+    label: string; // e.g. 'Logo Mask', shown in the Assets tab
+    sampler: ChannelSampler;
+}
+
+export type TextureFit = 'keep' | 'crop' | 'fit' | 'stretch';
+
+// How an image is processed before upload, kept with the file so projects re-import it the same way
+export interface TextureImportOptions {
+    fit: TextureFit; // keep = original aspect, crop / fit / stretch = into a square
+    maxSize: number; // Longest side in pixels
+    powerOfTwo: boolean; // Rounds each side to the nearest power of two
+    autoLevels: boolean; // Stretches luma to the full 0-1 range
+    gamma: number; // 1 = unchanged, above 1 brightens midtones
+    invert: boolean;
+    blur: number; // Radius in output pixels
+    premultiply: boolean; // Color multiplied by alpha
+}